@@ -0,0 +1,236 @@
+/**
+ * FV-1 Accumulator Range Analysis
+ * Propagates the worst-case range of ACC through a program by interval arithmetic, to
+ * find instructions where ACC can saturate. ADC inputs are taken to be in -1..1, pots in
+ * 0..1 and delay memory in -1..1; registers hold whatever range the program writes to
+ * them, including values written on the previous sample.
+ */
+
+import type { DecodedInstruction } from './fv1Decoder.js';
+import { HARDWARE_REGISTERS } from './fv1Syntax.js';
+
+/**
+ * A closed range of values
+ */
+export interface Interval {
+    min: number;
+    max: number;
+}
+
+/**
+ * The range of ACC around one instruction
+ */
+export interface AccRange {
+    before: Interval;
+    /** The range the instruction computes, before saturation */
+    after: Interval;
+    /** Whether the computed range exceeds what ACC can hold */
+    saturates: boolean;
+}
+
+const FULL_SCALE: Interval = { min: -1, max: 1 };
+const UNIPOLAR: Interval = { min: 0, max: 1 };
+const ZERO: Interval = { min: 0, max: 0 };
+// LOG returns log2(|ACC|) / 16, and |ACC| is at least one LSB (2^-23)
+const LOG_RANGE: Interval = { min: -23 / 16, max: 0 };
+const SATURATION_TOLERANCE = 1e-6;
+const MAX_PASSES = 24;
+// Ranges still growing after this many passes (feedback loops) are widened to full scale
+const WIDEN_AFTER = 6;
+
+const POTS = new Set([HARDWARE_REGISTERS.POT0, HARDWARE_REGISTERS.POT1, HARDWARE_REGISTERS.POT2]);
+const ADCS = new Set([HARDWARE_REGISTERS.ADCL, HARDWARE_REGISTERS.ADCR]);
+
+/**
+ * Analyze the range of ACC at every instruction of a decoded program.
+ * The program is run repeatedly, feeding register ranges and the final ACC back in as
+ * the previous sample, until the ranges stop growing.
+ */
+export function analyzeAccumulator(program: DecodedInstruction[]): AccRange[] {
+    let accStart: Interval = ZERO;
+    let registers = new Map<number, Interval>();
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+        const run = runProgram(program, accStart, registers);
+        let nextAccStart = hull(accStart, run.accEnd);
+        const nextRegisters = new Map(registers);
+        for (const [register, range] of run.writes) {
+            nextRegisters.set(register, hull(nextRegisters.get(register) ?? ZERO, range));
+        }
+
+        if (pass >= WIDEN_AFTER) {
+            nextAccStart = widen(accStart, nextAccStart);
+            for (const [register, range] of nextRegisters) {
+                nextRegisters.set(register, widen(registers.get(register) ?? ZERO, range));
+            }
+        }
+
+        const stable = sameInterval(nextAccStart, accStart)
+            && nextRegisters.size === registers.size
+            && [...nextRegisters].every(([register, range]) => sameInterval(range, registers.get(register)));
+        accStart = nextAccStart;
+        registers = nextRegisters;
+        if (stable) break;
+    }
+
+    return runProgram(program, accStart, registers).ranges;
+}
+
+/**
+ * Format a range for display, e.g. "-0.500 … 1.250"
+ */
+export function formatInterval(range: Interval): string {
+    return `${range.min.toFixed(3)} … ${range.max.toFixed(3)}`;
+}
+
+/**
+ * Run the program once over ranges, collecting the range of each instruction, the
+ * ranges written to registers and the range of ACC at the end
+ */
+function runProgram(program: DecodedInstruction[], accStart: Interval, registers: Map<number, Interval>) {
+    const incoming: (Interval | undefined)[] = program.map((): Interval | undefined => undefined);
+    const ranges: AccRange[] = [];
+    const writes = new Map<number, Interval>();
+    let accEnd: Interval | undefined;
+
+    const readRegister = (register: number): Interval => {
+        if (POTS.has(register)) return UNIPOLAR;
+        if (ADCS.has(register)) return FULL_SCALE;
+        return registers.get(register) ?? ZERO;
+    };
+
+    // Skips only go forward, so one pass in address order sees every predecessor first
+    incoming[0] = accStart;
+    program.forEach((instruction, addr) => {
+        const before = incoming[addr];
+        if (!before) {
+            // Never reached
+            ranges.push({ before: ZERO, after: ZERO, saturates: false });
+            return;
+        }
+
+        if (['wrax', 'wrhx', 'wrlx'].includes(instruction.mnemonic) && instruction.register !== undefined) {
+            writes.set(instruction.register, hull(writes.get(instruction.register) ?? before, before));
+        }
+
+        const after = transfer(instruction, before, readRegister);
+        const saturates = after.max > 1 + SATURATION_TOLERANCE || after.min < -1 - SATURATION_TOLERANCE;
+        ranges.push({ before, after, saturates });
+
+        const clamped = clamp(after);
+        const follow = (target: number) => {
+            if (target < program.length) {
+                incoming[target] = incoming[target] ? hull(incoming[target]!, clamped) : clamped;
+            } else {
+                accEnd = accEnd ? hull(accEnd, clamped) : clamped;
+            }
+        };
+        if (instruction.mnemonic === 'skp' || instruction.mnemonic === 'jmp') follow(addr + 1 + instruction.skip!);
+        if (instruction.mnemonic !== 'jmp') follow(addr + 1);
+    });
+
+    return { ranges, writes, accEnd: accEnd ?? ZERO };
+}
+
+/**
+ * The range of ACC after an instruction, following the FV-1 datasheet operations
+ */
+function transfer(instruction: DecodedInstruction, acc: Interval, readRegister: (register: number) => Interval): Interval {
+    const c = instruction.coefficient?.value ?? 0;
+    const d = instruction.offset?.value ?? 0;
+
+    switch (instruction.mnemonic) {
+        case 'rdax':
+            return add(acc, scale(readRegister(instruction.register!), c));
+        case 'rdfx':
+            // ACC = (ACC - REG) * C + REG, rearranged so ACC and REG each appear once
+            return add(scale(acc, c), scale(readRegister(instruction.register!), 1 - c));
+        case 'ldax':
+            return readRegister(instruction.register!);
+        case 'wrax':
+        case 'wra':
+            return scale(acc, c);
+        case 'wrhx':
+            // ACC = ACC * C + PACC
+            return add(scale(acc, c), FULL_SCALE);
+        case 'wrlx':
+            // ACC = (PACC - ACC) * C + PACC
+            return add(scale(FULL_SCALE, 1 + c), scale(acc, -c));
+        case 'wrap':
+            // ACC = ACC * C + LR
+            return add(scale(acc, c), FULL_SCALE);
+        case 'maxx': {
+            const magnitude = Math.max(maxMagnitude(scale(readRegister(instruction.register!), c)), maxMagnitude(acc));
+            return { min: 0, max: magnitude };
+        }
+        case 'absa':
+            return { min: 0, max: maxMagnitude(acc) };
+        case 'mulx':
+            return multiply(acc, readRegister(instruction.register!));
+        case 'rda':
+        case 'rmpa':
+            return add(acc, scale(FULL_SCALE, c));
+        case 'log':
+            return offset(scale(LOG_RANGE, c), d);
+        case 'exp':
+            return offset(scale(UNIPOLAR, c), d);
+        case 'sof':
+            return offset(scale(acc, c), d);
+        case 'clr':
+            return ZERO;
+        case 'and':
+            return acc.min >= 0 ? { min: 0, max: acc.max } : FULL_SCALE;
+        case 'or':
+        case 'xor':
+        case 'not':
+            return FULL_SCALE;
+        case 'cho':
+            if (instruction.choType === 'RDAL') return FULL_SCALE;
+            // The LFO supplies a coefficient between 0 and 1
+            if (instruction.choType === 'SOF') return offset(multiply(acc, UNIPOLAR), d);
+            return add(acc, FULL_SCALE);
+        default:
+            // skp, jmp, nop, wlds, wldr, jam
+            return acc;
+    }
+}
+
+function add(a: Interval, b: Interval): Interval {
+    return { min: a.min + b.min, max: a.max + b.max };
+}
+
+function scale(a: Interval, c: number): Interval {
+    return c >= 0 ? { min: a.min * c, max: a.max * c } : { min: a.max * c, max: a.min * c };
+}
+
+function offset(a: Interval, d: number): Interval {
+    return { min: a.min + d, max: a.max + d };
+}
+
+function multiply(a: Interval, b: Interval): Interval {
+    const products = [a.min * b.min, a.min * b.max, a.max * b.min, a.max * b.max];
+    return { min: Math.min(...products), max: Math.max(...products) };
+}
+
+function maxMagnitude(a: Interval): number {
+    return Math.max(Math.abs(a.min), Math.abs(a.max));
+}
+
+function hull(a: Interval, b: Interval): Interval {
+    return { min: Math.min(a.min, b.min), max: Math.max(a.max, b.max) };
+}
+
+function clamp(a: Interval): Interval {
+    return { min: Math.min(Math.max(a.min, -1), 1), max: Math.min(Math.max(a.max, -1), 1) };
+}
+
+function widen(previous: Interval, next: Interval): Interval {
+    return {
+        min: next.min < previous.min ? -1 : next.min,
+        max: next.max > previous.max ? 1 : next.max
+    };
+}
+
+function sameInterval(a: Interval, b: Interval | undefined): boolean {
+    return b !== undefined && a.min === b.min && a.max === b.max;
+}
@@ -0,0 +1,82 @@
+/**
+ * FV-1 Control Flow Analysis
+ * Builds the skip graph of a program and finds instructions that no path reaches. SKP
+ * conditions on the sign of ACC are followed through chains of skips, so a skip that
+ * can never (or must always) be taken is recognised.
+ */
+
+import { analyzeAccumulator, type Interval } from './fv1AccAnalysis.js';
+import type { DecodedInstruction } from './fv1Decoder.js';
+
+/**
+ * The possible sign of ACC along an edge of the skip graph
+ */
+type Sign = 'neg' | 'zero' | 'pos';
+
+const SKP_ZRO = 0x04;
+const SKP_GEZ = 0x02;
+const SKP_NEG = 0x01;
+// RUN and ZRC depend on the sample count and the previous ACC, so either outcome is possible
+const SKP_UNKNOWN_CONDITIONS = 0x10 | 0x08;
+
+/**
+ * Find the instructions that can never execute
+ * @returns One flag per address, true where the instruction is unreachable
+ */
+export function findUnreachable(program: DecodedInstruction[]): boolean[] {
+    if (program.length === 0) return [];
+
+    const accRanges = analyzeAccumulator(program);
+    const incoming: Set<Sign>[] = program.map(() => new Set<Sign>());
+    const reached: boolean[] = program.map(() => false);
+    reached[0] = true;
+    signsOf(accRanges[0].before).forEach(sign => incoming[0].add(sign));
+
+    // Skips only go forward, so one pass in address order sees every predecessor first
+    program.forEach((instruction, addr) => {
+        if (!reached[addr]) return;
+
+        const reach = (target: number, signs: Set<Sign>) => {
+            if (target >= program.length || signs.size === 0) return;
+            reached[target] = true;
+            signs.forEach(sign => incoming[target].add(sign));
+        };
+
+        if (instruction.mnemonic === 'skp') {
+            const flags = instruction.flags!;
+            const signs = [...incoming[addr]];
+            const taken = new Set(signs.filter(sign => conditionHolds(flags, sign)));
+            const notTaken = flags & SKP_UNKNOWN_CONDITIONS
+                ? new Set(signs)
+                : new Set(signs.filter(sign => !conditionHolds(flags, sign)));
+            reach(addr + 1 + instruction.skip!, taken);
+            reach(addr + 1, notTaken);
+        } else if (instruction.mnemonic === 'jmp') {
+            reach(addr + 1 + instruction.skip!, incoming[addr]);
+        } else if (['nop', 'wlds', 'wldr', 'jam'].includes(instruction.mnemonic)) {
+            reach(addr + 1, incoming[addr]);
+        } else {
+            reach(addr + 1, signsOf(accRanges[addr].after));
+        }
+    });
+
+    return reached.map(r => !r);
+}
+
+/**
+ * Whether all the sign conditions of a SKP hold for an ACC of the given sign
+ */
+function conditionHolds(flags: number, sign: Sign): boolean {
+    if ((flags & SKP_ZRO) && sign !== 'zero') return false;
+    if ((flags & SKP_GEZ) && sign === 'neg') return false;
+    if ((flags & SKP_NEG) && sign !== 'neg') return false;
+    return true;
+}
+
+function signsOf(range: Interval): Set<Sign> {
+    const signs = new Set<Sign>();
+    if (range.min < 0) signs.add('neg');
+    if (range.min <= 0 && range.max >= 0) signs.add('zero');
+    if (range.max > 0) signs.add('pos');
+    return signs;
+}
@@ -0,0 +1,154 @@
+/**
+ * FV-1 Instruction Decoder
+ * Splits 32-bit FV-1 machine code words back into opcode and operand fields.
+ * Field layouts follow the FV-1 datasheet and are checked against SpinASM output.
+ */
+
+import { getFormatBits, type FixedPointFormat } from './fv1Encoding.js';
+
+/**
+ * A fixed-point operand as encoded in the instruction word
+ */
+export interface DecodedReal {
+    value: number;
+    raw: number;
+    format: FixedPointFormat;
+}
+
+/**
+ * A decoded FV-1 instruction. Only the fields used by the opcode are set.
+ */
+export interface DecodedInstruction {
+    /** Lower case mnemonic, using the SpinASM aliases (clr, not, absa, ldax, jmp, nop) where they apply */
+    mnemonic: string;
+    word: number;
+    register?: number;
+    address?: number;
+    coefficient?: DecodedReal;
+    offset?: DecodedReal;
+    mask?: number;
+    /** SKP condition flags or CHO flags */
+    flags?: number;
+    skip?: number;
+    /** LFO select: 0-1 for SIN0/SIN1 (WLDS) and RMP0/RMP1 (WLDR, JAM); 0-3 for SIN0, SIN1, RMP0, RMP1 (CHO) */
+    lfo?: number;
+    choType?: 'RDA' | 'SOF' | 'RDAL';
+    frequency?: number;
+    amplitude?: number;
+}
+
+const SKP_FLAG_BITS: [string, number][] = [['RUN', 0x10], ['ZRC', 0x08], ['ZRO', 0x04], ['GEZ', 0x02], ['NEG', 0x01]];
+const CHO_FLAG_BITS: [string, number][] = [['COS', 0x01], ['REG', 0x02], ['COMPC', 0x04], ['COMPA', 0x08], ['RPTR2', 0x10], ['NA', 0x20]];
+const WLDR_AMPLITUDES = [4096, 2048, 1024, 512];
+const CHO_TYPES: Record<number, 'RDA' | 'SOF' | 'RDAL'> = { 0: 'RDA', 2: 'SOF', 3: 'RDAL' };
+
+/**
+ * Decode one 32-bit instruction word
+ */
+export function decodeInstruction(word: number): DecodedInstruction {
+    word = word >>> 0;
+    const opcode = word & 0x1F;
+
+    switch (opcode) {
+        case 0x00: return { mnemonic: 'rda', word, address: bits(word, 5, 16), coefficient: real(word, 21, 'S1.9') };
+        case 0x01: return { mnemonic: 'rmpa', word, coefficient: real(word, 21, 'S1.9') };
+        case 0x02: return { mnemonic: 'wra', word, address: bits(word, 5, 16), coefficient: real(word, 21, 'S1.9') };
+        case 0x03: return { mnemonic: 'wrap', word, address: bits(word, 5, 16), coefficient: real(word, 21, 'S1.9') };
+        case 0x04: return registerInstruction('rdax', word);
+        case 0x05: {
+            const decoded = registerInstruction('rdfx', word);
+            return decoded.coefficient!.raw === 0 ? { mnemonic: 'ldax', word, register: decoded.register } : decoded;
+        }
+        case 0x06: return registerInstruction('wrax', word);
+        case 0x07: return registerInstruction('wrhx', word);
+        case 0x08: return registerInstruction('wrlx', word);
+        case 0x09: {
+            const decoded = registerInstruction('maxx', word);
+            return decoded.register === 0 && decoded.coefficient!.raw === 0 ? { mnemonic: 'absa', word } : decoded;
+        }
+        case 0x0A: return { mnemonic: 'mulx', word, register: bits(word, 5, 6) };
+        case 0x0B: return { mnemonic: 'log', word, coefficient: real(word, 16, 'S1.14'), offset: real(word, 5, 'S4.6') };
+        case 0x0C: return { mnemonic: 'exp', word, coefficient: real(word, 16, 'S1.14'), offset: real(word, 5, 'S.10') };
+        case 0x0D: return { mnemonic: 'sof', word, coefficient: real(word, 16, 'S1.14'), offset: real(word, 5, 'S.10') };
+        case 0x0E: {
+            const mask = bits(word, 8, 24);
+            return mask === 0 ? { mnemonic: 'clr', word } : { mnemonic: 'and', word, mask };
+        }
+        case 0x0F: return { mnemonic: 'or', word, mask: bits(word, 8, 24) };
+        case 0x10: {
+            const mask = bits(word, 8, 24);
+            return mask === 0xFFFFFF ? { mnemonic: 'not', word } : { mnemonic: 'xor', word, mask };
+        }
+        case 0x11: {
+            const flags = bits(word, 27, 5);
+            const skip = bits(word, 21, 6);
+            if (flags === 0) {
+                return skip === 0 ? { mnemonic: 'nop', word } : { mnemonic: 'jmp', word, skip };
+            }
+            return { mnemonic: 'skp', word, flags, skip };
+        }
+        case 0x12:
+            if (bits(word, 30, 1) === 0) {
+                return { mnemonic: 'wlds', word, lfo: bits(word, 29, 1), frequency: bits(word, 20, 9), amplitude: bits(word, 5, 15) };
+            }
+            return {
+                mnemonic: 'wldr',
+                word,
+                lfo: bits(word, 29, 1),
+                frequency: signed(bits(word, 13, 16), 16),
+                amplitude: WLDR_AMPLITUDES[bits(word, 5, 2)]
+            };
+        case 0x13: return { mnemonic: 'jam', word, lfo: bits(word, 6, 1) };
+        case 0x14: {
+            const choType = CHO_TYPES[bits(word, 30, 2)] ?? 'RDA';
+            const decoded: DecodedInstruction = { mnemonic: 'cho', word, choType, flags: bits(word, 24, 6), lfo: bits(word, 21, 2) };
+            if (choType === 'RDA') decoded.address = bits(word, 5, 16);
+            if (choType === 'SOF') decoded.offset = real(word, 5, 'S.15');
+            return decoded;
+        }
+        default:
+            return { mnemonic: 'nop', word };
+    }
+}
+
+/**
+ * Decode the first `length` words of a program
+ */
+export function decodeProgram(machineCode: number[], length: number): DecodedInstruction[] {
+    return Array.from({ length }, (_, addr) => decodeInstruction(machineCode[addr] ?? 0));
+}
+
+/**
+ * Format SKP condition flags as SpinASM names, e.g. "RUN|GEZ"
+ */
+export function formatSkipFlags(flags: number): string {
+    const names = SKP_FLAG_BITS.filter(([, bit]) => flags & bit).map(([name]) => name);
+    return names.length > 0 ? names.join('|') : '0';
+}
+
+/**
+ * Format CHO flags as SpinASM names, e.g. "REG|COMPC". SIN is the zero value.
+ */
+export function formatChoFlags(flags: number): string {
+    const names = CHO_FLAG_BITS.filter(([, bit]) => flags & bit).map(([name]) => name);
+    return names.length > 0 ? names.join('|') : 'SIN';
+}
+
+function registerInstruction(mnemonic: string, word: number): DecodedInstruction {
+    return { mnemonic, word, register: bits(word, 5, 6), coefficient: real(word, 16, 'S1.14') };
+}
+
+function bits(word: number, shift: number, width: number): number {
+    return Math.floor(word / 2 ** shift) % 2 ** width;
+}
+
+function signed(value: number, width: number): number {
+    return value >= 2 ** (width - 1) ? value - 2 ** width : value;
+}
+
+function real(word: number, shift: number, format: FixedPointFormat): DecodedReal {
+    const { integerBits, fractionBits } = getFormatBits(format);
+    const width = 1 + integerBits + fractionBits;
+    const raw = signed(bits(word, shift, width), width);
+    return { value: raw / 2 ** fractionBits, raw, format };
+}
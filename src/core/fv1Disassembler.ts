@@ -0,0 +1,322 @@
+/**
+ * FV-1 Disassembler
+ * Turns machine code back into SpinASM source. Registers get EQU names from the way the
+ * program uses them, delay memory accesses are grouped into inferred MEM blocks laid out
+ * at the same addresses, and skip targets get labels, so the output assembles back to the
+ * same program.
+ */
+
+import { decodeInstruction, formatChoFlags, formatSkipFlags, type DecodedInstruction, type DecodedReal } from './fv1Decoder.js';
+import { HARDWARE_REGISTERS } from './fv1Syntax.js';
+
+export interface DisassemblyOptions {
+    /** Whether blocks are laid out with SpinASM's extra word after each MEM (fv1.spinAsmMemBug) */
+    memBug?: boolean;
+    /** Size of delay RAM in words */
+    delaySize?: number;
+    /** Comment lines for the top of the file, without the leading ';' */
+    header?: string[];
+}
+
+/**
+ * A program slot read from an EEPROM image
+ */
+export interface HexSlot {
+    /** 1-based slot number */
+    slot: number;
+    machineCode: number[];
+    empty: boolean;
+}
+
+/**
+ * An inferred MEM block
+ */
+interface MemRegion {
+    name: string;
+    start: number;
+    size: number;
+}
+
+export const FV1_PROGRAM_WORDS = 128;
+const SLOT_SIZE_BYTES = FV1_PROGRAM_WORDS * 4;
+const NOP_WORD = 0x00000011;
+const LAST_OPCODE = 0x14;
+const FIRST_USER_REGISTER = 0x20;
+const OPERAND_COLUMN = 8;
+const COMMENT_COLUMN = 40;
+
+const CHO_LFO_NAMES = ['sin0', 'sin1', 'rmp0', 'rmp1'];
+const REGISTER_NAMES = new Map<number, string>(
+    Object.entries(HARDWARE_REGISTERS)
+        .filter(([, value]) => value < FIRST_USER_REGISTER)
+        .map(([name, value]) => [value, name.toLowerCase()])
+);
+const REGISTER_READS = new Set(['rdax', 'rdfx', 'ldax', 'maxx', 'mulx']);
+const REGISTER_WRITES = new Set(['wrax', 'wrhx', 'wrlx']);
+
+/**
+ * Split EEPROM bytes into 32-bit big-endian instruction words
+ */
+export function bytesToMachineCode(bytes: Uint8Array): number[] {
+    const words: number[] = [];
+    for (let i = 0; i + 3 < bytes.length; i += 4) {
+        words.push(((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0);
+    }
+    return words;
+}
+
+/**
+ * Whether a program slot holds nothing: erased EEPROM (all 0xFF), a gap left unwritten
+ * in a HEX image (all 0x00) or only NOPs
+ */
+export function isEmptyProgram(machineCode: number[]): boolean {
+    return [0xFFFFFFFF, 0x00000000, NOP_WORD].some(fill => machineCode.every(word => word === fill));
+}
+
+/**
+ * Split an EEPROM image (a pedal backup, or a single program) into its program slots
+ */
+export function splitSlots(bytes: Uint8Array): HexSlot[] {
+    const slots: HexSlot[] = [];
+    for (let offset = 0; offset < bytes.length; offset += SLOT_SIZE_BYTES) {
+        const machineCode = bytesToMachineCode(bytes.slice(offset, offset + SLOT_SIZE_BYTES));
+        slots.push({ slot: slots.length + 1, machineCode, empty: isEmptyProgram(machineCode) });
+    }
+    return slots;
+}
+
+/**
+ * Disassemble a program into SpinASM source
+ */
+export function disassemble(machineCode: number[], options: DisassemblyOptions = {}): string {
+    const memBug = options.memBug ?? true;
+    const delaySize = options.delaySize ?? 32768;
+    const program = machineCode.slice(0, FV1_PROGRAM_WORDS).map(word => decodeInstruction(word));
+    const length = programLength(program);
+
+    const labels = nameSkipTargets(program, length);
+    const registers = nameRegisters(program.slice(0, length));
+    const regions = inferMemRegions(program.slice(0, length), memBug, delaySize);
+
+    const lines: string[] = (options.header ?? []).map(text => `; ${text}`);
+    if (lines.length > 0) lines.push('');
+
+    if (registers.size > 0) {
+        for (const [register, name] of [...registers].sort(([a], [b]) => a - b)) {
+            lines.push(`${'equ'.padEnd(OPERAND_COLUMN)}${name.padEnd(OPERAND_COLUMN)}reg${register - FIRST_USER_REGISTER}`);
+        }
+        lines.push('');
+    }
+
+    if (regions.length > 0) {
+        for (const region of regions) {
+            lines.push(withComment(`${'mem'.padEnd(OPERAND_COLUMN)}${region.name.padEnd(OPERAND_COLUMN)}${region.size}`, `${region.start}-${region.start + region.size - 1}`));
+        }
+        lines.push('');
+    }
+
+    const formatRegister = (register: number) => registers.get(register) ?? REGISTER_NAMES.get(register) ?? register.toString();
+    const formatAddress = (address: number) => addressOperand(address, regions);
+    const formatSkip = (instruction: DecodedInstruction, addr: number) =>
+        labels.get(addr + 1 + instruction.skip!) ?? instruction.skip!.toString();
+
+    for (let addr = 0; addr < length; addr++) {
+        if (labels.has(addr)) lines.push(`${labels.get(addr)}:`);
+        const instruction = program[addr];
+        const [opcode, operands] = formatInstruction(instruction, addr, formatRegister, formatAddress, formatSkip);
+        const text = operands ? `${opcode.padEnd(OPERAND_COLUMN)}${operands}` : opcode;
+        lines.push((instruction.word & 0x1F) > LAST_OPCODE
+            ? withComment(text, `invalid instruction $${instruction.word.toString(16).toUpperCase().padStart(8, '0')}`)
+            : text);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * The number of instructions up to the last one that is not a NOP, extended to cover
+ * every skip target inside the program
+ */
+function programLength(program: DecodedInstruction[]): number {
+    let length = 0;
+    program.forEach((instruction, addr) => {
+        if (instruction.mnemonic !== 'nop') {
+            length = addr + 1;
+        }
+    });
+    program.slice(0, length).forEach((instruction, addr) => {
+        if (instruction.mnemonic === 'skp' || instruction.mnemonic === 'jmp') {
+            length = Math.max(length, Math.min(addr + 1 + instruction.skip!, program.length));
+        }
+    });
+    return length;
+}
+
+/**
+ * Give every skip target a label, numbered in program order. Targets past the last
+ * instruction keep a numeric skip count.
+ */
+function nameSkipTargets(program: DecodedInstruction[], length: number): Map<number, string> {
+    const targets = new Set<number>();
+    program.slice(0, length).forEach((instruction, addr) => {
+        if ((instruction.mnemonic === 'skp' || instruction.mnemonic === 'jmp') && addr + 1 + instruction.skip! < length) {
+            targets.add(addr + 1 + instruction.skip!);
+        }
+    });
+    return new Map([...targets].sort((a, b) => a - b).map((target, i) => [target, `label${i}`]));
+}
+
+/**
+ * Name REG0-REG31 by use: filters (RDFX then written back), state carried over from the
+ * previous sample (read before written) and temporaries
+ */
+function nameRegisters(program: DecodedInstruction[]): Map<number, string> {
+    const kinds = new Map<number, 'filt' | 'state' | 'temp'>();
+    const written = new Set<number>();
+
+    program.forEach((instruction, addr) => {
+        const register = instruction.register;
+        if (register === undefined || register < FIRST_USER_REGISTER) return;
+
+        const next = program[addr + 1];
+        if (instruction.mnemonic === 'rdfx' && next && REGISTER_WRITES.has(next.mnemonic) && next.register === register) {
+            kinds.set(register, 'filt');
+        } else if (REGISTER_READS.has(instruction.mnemonic) && !written.has(register) && kinds.get(register) !== 'filt') {
+            kinds.set(register, 'state');
+        } else if (!kinds.has(register)) {
+            kinds.set(register, 'temp');
+        }
+        if (REGISTER_WRITES.has(instruction.mnemonic)) written.add(register);
+    });
+
+    const counts = new Map<string, number>();
+    const names = new Map<number, string>();
+    for (const [register, kind] of [...kinds].sort(([a], [b]) => a - b)) {
+        const count = counts.get(kind) ?? 0;
+        counts.set(kind, count + 1);
+        names.set(register, `${kind}${count}`);
+    }
+    return names;
+}
+
+/**
+ * Group the fixed delay addresses a program uses into MEM blocks. Each written address
+ * starts a block (delay lines are written at their start), and blocks are sized so that
+ * SpinASM's allocation puts every block back at the same address.
+ */
+function inferMemRegions(program: DecodedInstruction[], memBug: boolean, delaySize: number): MemRegion[] {
+    const accesses = program
+        .filter(instruction => instruction.address !== undefined && instruction.address < delaySize)
+        .map(instruction => ({ address: instruction.address!, write: instruction.mnemonic === 'wra' || instruction.mnemonic === 'wrap' }));
+    if (accesses.length === 0) return [];
+
+    const gap = memBug ? 1 : 0;
+    const lowest = Math.min(...accesses.map(access => access.address));
+    const highest = Math.max(...accesses.map(access => access.address));
+    const candidates = [...new Set([lowest, ...accesses.filter(access => access.write).map(access => access.address)])].sort((a, b) => a - b);
+
+    // Blocks must be at least one word long, with room for the wasted word between them
+    const starts: number[] = [];
+    for (const start of candidates) {
+        if (starts.length === 0 || start - starts[starts.length - 1] - gap >= 1) starts.push(start);
+    }
+
+    const regions: MemRegion[] = [];
+    if (starts[0] - gap >= 1) {
+        regions.push({ name: 'unused', start: 0, size: starts[0] - gap });
+    } else {
+        starts[0] = 0;
+    }
+
+    starts.forEach((start, i) => {
+        const size = i + 1 < starts.length ? starts[i + 1] - start - gap : Math.max(highest - start, 1);
+        regions.push({ name: `delay${i}`, start, size });
+    });
+    return regions;
+}
+
+/**
+ * Express a delay address relative to the block it falls in, e.g. "delay0+12" or "delay1#"
+ */
+function addressOperand(address: number, regions: MemRegion[]): string {
+    const region = regions.find(r => address >= r.start && address < r.start + r.size);
+    if (region) {
+        return address === region.start ? region.name : `${region.name}+${address - region.start}`;
+    }
+    const ending = regions.find(r => address === r.start + r.size);
+    return ending ? `${ending.name}#` : address.toString();
+}
+
+function formatInstruction(
+    instruction: DecodedInstruction,
+    addr: number,
+    formatRegister: (register: number) => string,
+    formatAddress: (address: number) => string,
+    formatSkip: (instruction: DecodedInstruction, addr: number) => string
+): [string, string] {
+    const { mnemonic } = instruction;
+    switch (mnemonic) {
+        case 'rda':
+        case 'wra':
+        case 'wrap':
+            return [mnemonic, `${formatAddress(instruction.address!)}, ${formatReal(instruction.coefficient!)}`];
+        case 'rmpa':
+            return [mnemonic, formatReal(instruction.coefficient!)];
+        case 'rdax':
+        case 'rdfx':
+        case 'wrax':
+        case 'wrhx':
+        case 'wrlx':
+        case 'maxx':
+            return [mnemonic, `${formatRegister(instruction.register!)}, ${formatReal(instruction.coefficient!)}`];
+        case 'ldax':
+        case 'mulx':
+            return [mnemonic, formatRegister(instruction.register!)];
+        case 'log':
+        case 'exp':
+        case 'sof':
+            return [mnemonic, `${formatReal(instruction.coefficient!)}, ${formatReal(instruction.offset!)}`];
+        case 'and':
+        case 'or':
+        case 'xor':
+            return [mnemonic, `$${instruction.mask!.toString(16).toUpperCase().padStart(6, '0')}`];
+        case 'skp':
+            return [mnemonic, `${formatSkipFlags(instruction.flags!).toLowerCase()}, ${formatSkip(instruction, addr)}`];
+        case 'jmp':
+            return [mnemonic, formatSkip(instruction, addr)];
+        case 'wlds':
+            return [mnemonic, `sin${instruction.lfo}, ${instruction.frequency}, ${instruction.amplitude}`];
+        case 'wldr':
+            return [mnemonic, `rmp${instruction.lfo}, ${instruction.frequency}, ${instruction.amplitude}`];
+        case 'jam':
+            return [mnemonic, `rmp${instruction.lfo}`];
+        case 'cho': {
+            const lfo = CHO_LFO_NAMES[instruction.lfo!];
+            // SIN is the name of the zero flag, which reads oddly with a ramp LFO
+            const flags = instruction.flags === 0 && lfo.startsWith('rmp') ? '0' : formatChoFlags(instruction.flags!).toLowerCase();
+            if (instruction.choType === 'RDAL') {
+                return [mnemonic, instruction.flags ? `rdal, ${lfo}, ${flags}` : `rdal, ${lfo}`];
+            }
+            if (instruction.choType === 'SOF') {
+                return [mnemonic, `sof, ${lfo}, ${flags}, ${formatReal(instruction.offset!)}`];
+            }
+            return [mnemonic, `rda, ${lfo}, ${flags}, ${formatAddress(instruction.address!)}`];
+        }
+        default:
+            // clr, not, absa, nop
+            return [mnemonic, ''];
+    }
+}
+
+/**
+ * Format a fixed-point operand exactly, so it assembles back to the same bits whether
+ * the assembler rounds or truncates. Whole numbers keep a decimal point so they are not
+ * taken as raw integers.
+ */
+function formatReal(real: DecodedReal): string {
+    return Number.isInteger(real.value) ? real.value.toFixed(1) : real.value.toString();
+}
+
+function withComment(text: string, comment: string): string {
+    return `${text.padEnd(COMMENT_COLUMN - 1)} ; ${comment}`;
+}
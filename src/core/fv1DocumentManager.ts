@@ -8,12 +8,50 @@
 
 import * as vscode from 'vscode';
 import { FV1Assembler, type FV1AssemblerResult } from '@audiofab-io/fv1-core';
+import { classifyProblem } from './fv1ProblemClassifier.js';
+import { mapResultToSource, preprocess, readSourceFile, type SourceLocation, type SourceMappedResult } from './fv1Preprocessor.js';
+import { LINT_RULES, lintProgram, type LintRule } from './fv1Linter.js';
+import { findDeclaration } from './fv1Syntax.js';
 
 interface DocumentInfo {
     version: number;
-    result: FV1AssemblerResult;
+    result: SourceMappedResult;
+    /** Files pulled in by include directives, so edits to them can invalidate this result */
+    includes: string[];
+    /** The program text after include and macro expansion, as given to the assembler */
+    expandedText: string;
 }
 
+/**
+ * A user-visible symbol (EQU, MEM block or label) from an assembly result
+ */
+export interface FV1Symbol {
+    name: string;
+    value: string;
+    kind: 'equ' | 'mem' | 'label';
+    line?: number;
+    /** Absolute path of the included file that declares the symbol; unset when it is declared in the document itself */
+    file?: string;
+    /** The name as written at the declaration, when it could be found */
+    declaredName?: string;
+    original?: string;
+}
+
+/**
+ * Lint rule severities used when fv1.lint.rules does not set one
+ */
+const DEFAULT_LINT_LEVELS: Record<LintRule, string> = {
+    readBeforeWrite: 'information',
+    missingDacWrite: 'warning',
+    accNonZeroAtEnd: 'warning',
+    delayReadPastEnd: 'warning',
+    skipPastEnd: 'warning',
+    unusedSymbol: 'hint',
+    unusedLfo: 'warning',
+    accSaturation: 'warning',
+    unreachableCode: 'hint'
+};
+
 export class FV1DocumentManager {
     private assembler: FV1Assembler;
     private documentCache: Map<string, DocumentInfo> = new Map();
@@ -21,14 +59,7 @@ export class FV1DocumentManager {
     private changeListeners: Set<(uri: vscode.Uri) => void> = new Set();
 
     constructor(diagnosticCollection: vscode.DiagnosticCollection) {
-        const config = vscode.workspace.getConfiguration('fv1');
-        this.assembler = new FV1Assembler({
-            fv1AsmMemBug: config.get<boolean>('spinAsmMemBug') ?? true,
-            clampReals: config.get<boolean>('clampReals') ?? true,
-            regCount: config.get<number>('hardware.regCount'),
-            progSize: config.get<number>('hardware.progSize'),
-            delaySize: config.get<number>('hardware.delaySize'),
-        });
+        this.assembler = this.createAssembler();
         this.diagnosticCollection = diagnosticCollection;
     }
 
@@ -36,7 +67,7 @@ export class FV1DocumentManager {
      * Get the assembly result for a document.
      * Results are cached per document version.
      */
-    public getAssemblyResult(document: vscode.TextDocument): FV1AssemblerResult {
+    public getAssemblyResult(document: vscode.TextDocument): SourceMappedResult {
         const documentUri = document.uri.toString();
         const cached = this.documentCache.get(documentUri);
 
@@ -46,16 +77,18 @@ export class FV1DocumentManager {
         }
 
         // Assemble the document
-        const result = this.assembleDocument(document);
+        const { result, includes, expandedText, macros } = this.assembleDocument(document);
 
         // Cache the result
         this.documentCache.set(documentUri, {
             version: document.version,
-            result: result
+            result: result,
+            includes: includes,
+            expandedText: expandedText
         });
 
         // Update diagnostics
-        this.updateDiagnostics(document.uri, result);
+        this.updateDiagnostics(document, result, new Set(macros));
 
         // Notify listeners
         this.notifyListeners(document.uri);
@@ -64,34 +97,177 @@ export class FV1DocumentManager {
     }
 
     /**
-     * Assemble a document and return the result
+     * Get the program text of a document after include and macro expansion
+     */
+    public getExpandedSource(document: vscode.TextDocument): string {
+        this.getAssemblyResult(document);
+        return this.documentCache.get(document.uri.toString())!.expandedText;
+    }
+
+    /**
+     * Assemble source text that is not open in an editor (e.g. a file on disk),
+     * with the same options as open documents. The result is not cached.
+     * Include directives are expanded relative to filePath.
+     */
+    public assembleSource(source: string, filePath: string): SourceMappedResult {
+        const preprocessed = preprocess(source, filePath, file => this.readSource(file));
+        return mapResultToSource(this.assembler.assemble(preprocessed.text), preprocessed, filePath);
+    }
+
+    /**
+     * Assemble a document, expanding include directives and macros, and return the result.
+     * Programs that assemble without errors are also linted.
+     */
+    private assembleDocument(document: vscode.TextDocument): { result: SourceMappedResult; includes: string[]; expandedText: string; macros: string[] } {
+        const preprocessed = preprocess(document.getText(), document.uri.fsPath, file => this.readSource(file));
+        const assembled: SourceMappedResult = this.assembler.assemble(preprocessed.text);
+        const lintRules = new Set(this.getLintSeverities().keys());
+        if (lintRules.size > 0 && preprocessed.problems.length === 0 && !assembled.problems?.some(p => p.isfatal)) {
+            assembled.lintProblems = lintProgram(assembled, preprocessed, document.uri.fsPath, lintRules);
+        }
+        const result = mapResultToSource(assembled, preprocessed, document.uri.fsPath);
+        return { result, includes: preprocessed.includes, expandedText: preprocessed.text, macros: preprocessed.macros };
+    }
+
+    /**
+     * Severity of each enabled lint rule, from the fv1.lint settings
+     */
+    private getLintSeverities(): Map<LintRule, vscode.DiagnosticSeverity> {
+        const config = vscode.workspace.getConfiguration('fv1.lint');
+        const severities = new Map<LintRule, vscode.DiagnosticSeverity>();
+        if (!(config.get<boolean>('enabled') ?? true)) {
+            return severities;
+        }
+
+        const levels: Record<string, vscode.DiagnosticSeverity> = {
+            error: vscode.DiagnosticSeverity.Error,
+            warning: vscode.DiagnosticSeverity.Warning,
+            information: vscode.DiagnosticSeverity.Information,
+            hint: vscode.DiagnosticSeverity.Hint
+        };
+        const rules = config.get<Record<string, string>>('rules') ?? {};
+        for (const rule of LINT_RULES) {
+            const level = levels[rules[rule] ?? DEFAULT_LINT_LEVELS[rule]];
+            if (level !== undefined) severities.set(rule, level);
+        }
+        return severities;
+    }
+
+    /**
+     * Read an included file, preferring unsaved editor contents over the file on disk
      */
-    private assembleDocument(document: vscode.TextDocument): FV1AssemblerResult {
-        const content = document.getText();
-        return this.assembler.assemble(content);
+    private readSource(filePath: string): string | undefined {
+        const open = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+        return open ? open.getText() : readSourceFile(filePath);
     }
 
     /**
-     * Update diagnostics for a document based on assembly result
+     * Update diagnostics for a document based on assembly result.
+     * Each problem is narrowed to the part of the line it refers to and tagged
+     * with a code that the quick fix provider recognises.
      */
-    private updateDiagnostics(uri: vscode.Uri, result: FV1AssemblerResult): void {
+    private updateDiagnostics(document: vscode.TextDocument, result: SourceMappedResult, macroNames: Set<string>): void {
         const diagnostics: vscode.Diagnostic[] = [];
 
         if (result.problems && result.problems.length > 0) {
+            const symbolValues = this.getSymbolValues(result);
+            const knownNames = this.getKnownNames(result);
+
             for (const problem of result.problems) {
-                const line = Math.max(0, problem.line - 1); // Convert to 0-based
-                const range = new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+                const line = Math.min(Math.max(0, problem.line - 1), Math.max(0, document.lineCount - 1)); // Convert to 0-based
+                const lineText = document.lineCount > 0 ? document.lineAt(line).text : '';
+                const classified = classifyProblem(lineText, problem.message, symbolValues, knownNames, macroNames);
+                const range = new vscode.Range(line, classified.start, line, classified.end);
                 const severity = problem.isfatal
                     ? vscode.DiagnosticSeverity.Error
                     : vscode.DiagnosticSeverity.Warning;
 
                 const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
                 diagnostic.source = 'fv1-assembler';
+                if (classified.code) {
+                    diagnostic.code = classified.code;
+                }
+
+                if (problem.source) {
+                    diagnostic.code = undefined;
+                    this.pointAtOrigin(diagnostic, document, line, problem.source);
+                }
                 diagnostics.push(diagnostic);
             }
         }
 
-        this.diagnosticCollection.set(uri, diagnostics);
+        const lintSeverities = this.getLintSeverities();
+        for (const problem of result.lintProblems ?? []) {
+            const severity = lintSeverities.get(problem.rule);
+            if (severity === undefined || document.lineCount === 0) continue;
+
+            const line = Math.min(Math.max(0, problem.line - 1), document.lineCount - 1);
+            const textLine = document.lineAt(line);
+            const declaration = problem.name ? findDeclaration(textLine.text, problem.name) : undefined;
+            const range = declaration
+                ? new vscode.Range(line, declaration.start, line, declaration.end)
+                : new vscode.Range(line, textLine.firstNonWhitespaceCharacterIndex, line, textLine.text.length);
+
+            const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+            diagnostic.source = 'fv1-lint';
+            diagnostic.code = problem.rule;
+            if (problem.rule === 'unusedSymbol' || problem.rule === 'unreachableCode') {
+                diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            }
+
+            if (problem.source) {
+                this.pointAtOrigin(diagnostic, document, line, problem.source);
+            }
+            diagnostics.push(diagnostic);
+        }
+
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+
+    /**
+     * Problems inside an included file or a macro expansion are reported on the include or
+     * macro invocation line, and point at where they really are
+     */
+    private pointAtOrigin(diagnostic: vscode.Diagnostic, document: vscode.TextDocument, line: number, origin: SourceLocation): void {
+        diagnostic.range = document.lineAt(line).range;
+        diagnostic.relatedInformation = [];
+        if (origin.file !== document.uri.fsPath) {
+            diagnostic.relatedInformation.push(new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(origin.file), new vscode.Position(origin.line - 1, 0)),
+                'Problem in included file'
+            ));
+        }
+        if (origin.macro) {
+            diagnostic.relatedInformation.push(new vscode.DiagnosticRelatedInformation(
+                new vscode.Location(vscode.Uri.file(origin.macro.file), new vscode.Position(origin.macro.line - 1, 0)),
+                `Expanded from macro '${origin.macro.name}'`
+            ));
+        }
+    }
+
+    /**
+     * Numeric values of all EQU symbols (including predefined registers), keyed by upper case name
+     */
+    public getSymbolValues(result: FV1AssemblerResult): Map<string, number> {
+        const values = new Map<string, number>();
+        for (const symbol of result.symbols ?? []) {
+            const value = parseFloat(symbol.value);
+            if (!isNaN(value)) {
+                values.set(symbol.name.toUpperCase(), value);
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Upper case names of every symbol, MEM block and label the assembler knows about
+     */
+    private getKnownNames(result: FV1AssemblerResult): Set<string> {
+        const names = new Set<string>();
+        for (const symbol of result.symbols ?? []) names.add(symbol.name.toUpperCase());
+        for (const memory of result.memories ?? []) names.add(memory.name.toUpperCase());
+        for (const name of result.labels?.keys() ?? []) names.add(name.toUpperCase());
+        return names;
     }
 
     /**
@@ -104,6 +280,25 @@ export class FV1DocumentManager {
 
         // Trigger assembly and diagnostics update
         this.getAssemblyResult(document);
+
+        // Re-assemble open documents that include the changed file
+        for (const other of this.getIncludingDocuments(document)) {
+            this.documentCache.delete(other.uri.toString());
+            this.getAssemblyResult(other);
+        }
+    }
+
+    /**
+     * Open documents whose last assembly included the given document
+     */
+    public getIncludingDocuments(document: vscode.TextDocument): vscode.TextDocument[] {
+        if (document.uri.scheme !== 'file') {
+            return [];
+        }
+        return vscode.workspace.textDocuments.filter(other => {
+            const cached = this.documentCache.get(other.uri.toString());
+            return cached !== undefined && cached.includes.includes(document.uri.fsPath);
+        });
     }
 
     /**
@@ -147,19 +342,26 @@ export class FV1DocumentManager {
     }
 
     /**
-     * Force re-assembly of all open documents
-     * Useful when configuration changes
+     * Create an assembler with the current fv1 configuration
      */
-    public refreshAll(): void {
-        // Update assembler configuration
+    private createAssembler(): FV1Assembler {
         const config = vscode.workspace.getConfiguration('fv1');
-        this.assembler = new FV1Assembler({
+        return new FV1Assembler({
             fv1AsmMemBug: config.get<boolean>('spinAsmMemBug') ?? true,
             clampReals: config.get<boolean>('clampReals') ?? true,
             regCount: config.get<number>('hardware.regCount'),
             progSize: config.get<number>('hardware.progSize'),
             delaySize: config.get<number>('hardware.delaySize'),
         });
+    }
+
+    /**
+     * Force re-assembly of all open documents
+     * Useful when configuration changes
+     */
+    public refreshAll(): void {
+        // Update assembler configuration
+        this.assembler = this.createAssembler();
 
         // Clear cache
         this.documentCache.clear();
@@ -175,9 +377,9 @@ export class FV1DocumentManager {
     /**
      * Get symbol information from the assembly result
      */
-    public getSymbols(document: vscode.TextDocument): Array<{ name: string; value: string; line?: number; original?: string }> {
+    public getSymbols(document: vscode.TextDocument): FV1Symbol[] {
         const result = this.getAssemblyResult(document);
-        const symbols: Array<{ name: string; value: string; line?: number; original?: string }> = [];
+        const symbols: FV1Symbol[] = [];
 
         // Add EQU symbols
         if (result.symbols) {
@@ -185,7 +387,10 @@ export class FV1DocumentManager {
                 symbols.push({
                     name: symbol.name,
                     value: symbol.value,
+                    kind: 'equ',
                     line: symbol.line,
+                    file: symbol.file,
+                    declaredName: symbol.declaredName,
                     original: symbol.original
                 });
             }
@@ -197,7 +402,10 @@ export class FV1DocumentManager {
                 symbols.push({
                     name: name,
                     value: `Label at PC ${info.instructionLine}`,
-                    line: info.line
+                    kind: 'label',
+                    line: info.line,
+                    file: info.file,
+                    declaredName: info.declaredName
                 });
             }
         }
@@ -208,7 +416,10 @@ export class FV1DocumentManager {
                 symbols.push({
                     name: memory.name,
                     value: `Delay memory block ${memory.start ?? 0}/${memory.end ?? 0} (start/end)`,
+                    kind: 'mem',
                     line: memory.line,
+                    file: memory.file,
+                    declaredName: memory.declaredName,
                     original: memory.original
                 });
             }
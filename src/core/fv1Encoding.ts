@@ -0,0 +1,123 @@
+/**
+ * FV-1 Operand Encoding
+ * Legal operand ranges and fixed-point formats, as given in the FV-1 datasheet.
+ * Used to document operands and to show how values are actually encoded.
+ */
+
+/**
+ * Signed fixed-point formats used by FV-1 coefficients
+ */
+export type FixedPointFormat = 'S1.14' | 'S.10' | 'S1.9' | 'S4.6' | 'S.15';
+
+const FIXED_POINT_BITS: Record<FixedPointFormat, { integerBits: number; fractionBits: number }> = {
+    'S1.14': { integerBits: 1, fractionBits: 14 },
+    'S.10': { integerBits: 0, fractionBits: 10 },
+    'S1.9': { integerBits: 1, fractionBits: 9 },
+    'S4.6': { integerBits: 4, fractionBits: 6 },
+    'S.15': { integerBits: 0, fractionBits: 15 }
+};
+
+/**
+ * Legal values for one operand
+ */
+export interface OperandRange {
+    min: number;
+    max: number;
+    /** Fixed-point format for real-valued operands; integer operands have none */
+    format?: FixedPointFormat;
+    /** Discrete allowed values, where the operand is not a continuous range */
+    values?: number[];
+}
+
+function fixed(format: FixedPointFormat): OperandRange {
+    const { integerBits, fractionBits } = FIXED_POINT_BITS[format];
+    return { min: -(2 ** integerBits), max: 2 ** integerBits - 2 ** -fractionBits, format };
+}
+
+function integer(min: number, max: number): OperandRange {
+    return { min, max };
+}
+
+const REGISTER = integer(0, 63);
+const DELAY = integer(0, 32767);
+const MASK = integer(0, 0xFFFFFF);
+
+const OPERAND_RANGES: Record<string, (OperandRange | undefined)[]> = {
+    sof: [fixed('S1.14'), fixed('S.10')],
+    and: [MASK],
+    or: [MASK],
+    xor: [MASK],
+    log: [fixed('S1.14'), fixed('S4.6')],
+    exp: [fixed('S1.14'), fixed('S.10')],
+    skp: [integer(0, 31), integer(0, 63)],
+    jmp: [integer(0, 63)],
+    rdax: [REGISTER, fixed('S1.14')],
+    wrax: [REGISTER, fixed('S1.14')],
+    maxx: [REGISTER, fixed('S1.14')],
+    mulx: [REGISTER],
+    rdfx: [REGISTER, fixed('S1.14')],
+    wrlx: [REGISTER, fixed('S1.14')],
+    wrhx: [REGISTER, fixed('S1.14')],
+    ldax: [REGISTER],
+    rda: [DELAY, fixed('S1.9')],
+    rmpa: [fixed('S1.9')],
+    wra: [DELAY, fixed('S1.9')],
+    wrap: [DELAY, fixed('S1.9')],
+    wlds: [integer(0, 1), integer(0, 511), integer(0, 32767)],
+    wldr: [integer(0, 1), integer(-16384, 32767), { min: 512, max: 4096, values: [512, 1024, 2048, 4096] }],
+    jam: [integer(0, 1)]
+};
+
+const CHO_RANGES: Record<string, (OperandRange | undefined)[]> = {
+    RDA: [undefined, integer(0, 5), integer(0, 63), DELAY],
+    SOF: [undefined, integer(0, 5), integer(0, 63), fixed('S.15')],
+    RDAL: [undefined, integer(0, 5), integer(0, 63)]
+};
+
+/**
+ * Get the legal range of an operand, or undefined when it has no numeric range
+ */
+export function getOperandRange(opcode: string, operands: string[], index: number): OperandRange | undefined {
+    const op = opcode.toLowerCase();
+    if (op === 'cho') {
+        const type = (operands[0] ?? '').trim().toUpperCase();
+        return (CHO_RANGES[type] ?? CHO_RANGES.RDA)[index];
+    }
+    return OPERAND_RANGES[op]?.[index];
+}
+
+/**
+ * Describe a range for display, e.g. "S1.14, -2.0 to 1.99994"
+ */
+export function describeRange(range: OperandRange): string {
+    if (range.values) {
+        return `one of ${range.values.join(', ')}`;
+    }
+    if (range.format) {
+        return `${range.format}, ${formatReal(range.min)} to ${formatReal(range.max)}`;
+    }
+    return `${range.min} to ${range.max}`;
+}
+
+/**
+ * Get the integer and fraction bit counts of a fixed-point format (the sign bit is not included)
+ */
+export function getFormatBits(format: FixedPointFormat): { integerBits: number; fractionBits: number } {
+    return FIXED_POINT_BITS[format];
+}
+
+/**
+ * Quantize a real value to a fixed-point format, saturating at its limits
+ */
+export function quantize(value: number, format: FixedPointFormat): { value: number; clamped: boolean } {
+    const { integerBits, fractionBits } = FIXED_POINT_BITS[format];
+    const scale = 2 ** fractionBits;
+    const limit = 2 ** (integerBits + fractionBits);
+    const unclamped = Math.round(value * scale);
+    const raw = Math.min(limit - 1, Math.max(-limit, unclamped));
+    return { value: raw / scale, clamped: raw !== unclamped };
+}
+
+function formatReal(value: number): string {
+    return Number.isInteger(value) ? value.toFixed(1) : parseFloat(value.toFixed(5)).toString();
+}
@@ -0,0 +1,110 @@
+/**
+ * FV-1 Assembly Formatter
+ * Lays instruction lines out in columns and normalizes opcode and register case.
+ * Label-only lines, directive (EQU/MEM/include/macro) lines, comment lines and blank lines are kept as written.
+ */
+
+import { parseIncludeDirective, parseMacroDefinition } from './fv1Preprocessor.js';
+import { HARDWARE_REGISTERS, getLineIdentifiers, parseLine, type SourceToken } from './fv1Syntax.js';
+
+export type CaseStyle = 'preserve' | 'lower' | 'upper';
+
+export interface FormatOptions {
+    /** Column the opcode starts in (pushed right when a label is on the same line) */
+    opcodeColumn: number;
+    /** Column the first operand starts in */
+    operandColumn: number;
+    /** Column trailing ';' comments start in */
+    commentColumn: number;
+    opcodeCase: CaseStyle;
+    registerCase: CaseStyle;
+    spaceAfterComma: boolean;
+    /** Pad with tabs rather than spaces (columns are then rounded up to the next tab stop) */
+    useTabs: boolean;
+    tabSize: number;
+}
+
+/**
+ * Format one line of FV-1 assembly
+ */
+export function formatLine(text: string, options: FormatOptions): string {
+    const parsed = parseLine(text);
+    if (!parsed.opcode || parsed.isDirective || parseIncludeDirective(text) || parseMacroDefinition(text)) {
+        return text.trimEnd();
+    }
+
+    let line = '';
+    if (parsed.label) {
+        line = `${parsed.label.text}:`;
+    }
+    line = padTo(line, options.opcodeColumn, options);
+    line += applyCase(parsed.opcode.text, options.opcodeCase);
+
+    if (parsed.operands.length > 0) {
+        line = padTo(line, options.operandColumn, options);
+        line += formatOperands(text, parsed.operands, options);
+    }
+
+    if (parsed.comment) {
+        line = padTo(line, options.commentColumn, options);
+        line += parsed.comment.text.trimEnd();
+    }
+
+    return line;
+}
+
+/**
+ * Rewrite operands with hardware register names in the chosen case and consistent comma spacing
+ */
+function formatOperands(text: string, operands: SourceToken[], options: FormatOptions): string {
+    const registers = getLineIdentifiers(text).filter(t => !t.isDeclaration && t.text.toUpperCase() in HARDWARE_REGISTERS);
+
+    const formatted = operands.map(operand => {
+        let result = '';
+        let pos = operand.start;
+        for (const register of registers.filter(r => r.start >= operand.start && r.end <= operand.end)) {
+            result += text.substring(pos, register.start) + applyCase(register.text, options.registerCase);
+            pos = register.end;
+        }
+        return result + text.substring(pos, operand.end);
+    });
+
+    return formatted.join(options.spaceAfterComma ? ', ' : ',');
+}
+
+function applyCase(text: string, style: CaseStyle): string {
+    switch (style) {
+        case 'lower': return text.toLowerCase();
+        case 'upper': return text.toUpperCase();
+        default: return text;
+    }
+}
+
+/**
+ * Pad a line out to a column, always leaving at least one separator after existing text
+ */
+function padTo(line: string, column: number, options: FormatOptions): string {
+    const width = visualWidth(line, options.tabSize);
+    if (width >= column) {
+        return line.length > 0 ? line + (options.useTabs ? '\t' : ' ') : line;
+    }
+    if (!options.useTabs) {
+        return line + ' '.repeat(column - width);
+    }
+
+    let padded = line;
+    let current = width;
+    while (current < column) {
+        padded += '\t';
+        current = (Math.floor(current / options.tabSize) + 1) * options.tabSize;
+    }
+    return padded;
+}
+
+function visualWidth(text: string, tabSize: number): number {
+    let width = 0;
+    for (const ch of text) {
+        width = ch === '\t' ? (Math.floor(width / tabSize) + 1) * tabSize : width + 1;
+    }
+    return width;
+}
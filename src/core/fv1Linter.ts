@@ -0,0 +1,319 @@
+/**
+ * FV-1 Program Linter
+ * Flags FV-1 specific pitfalls that assemble without error: registers used before they
+ * are written, silent outputs, ACC carried into the next sample, delay reads outside
+ * their MEM block, skips past the end, unused declarations, unused LFOs, ACC saturation
+ * and unreachable instructions.
+ * Works on the decoded machine code of an unmapped assembler result, so line numbers
+ * refer to the preprocessed text.
+ */
+
+import type { FV1AssemblerResult } from '@audiofab-io/fv1-core';
+import { analyzeAccumulator, formatInterval } from './fv1AccAnalysis.js';
+import { findUnreachable } from './fv1ControlFlow.js';
+import { decodeProgram, type DecodedInstruction } from './fv1Decoder.js';
+import type { PreprocessedSource } from './fv1Preprocessor.js';
+import { HARDWARE_REGISTERS, findDeclaration, getLineIdentifiers, parseLine } from './fv1Syntax.js';
+
+export type LintRule =
+    | 'readBeforeWrite'
+    | 'missingDacWrite'
+    | 'accNonZeroAtEnd'
+    | 'delayReadPastEnd'
+    | 'skipPastEnd'
+    | 'unusedSymbol'
+    | 'unusedLfo'
+    | 'accSaturation'
+    | 'unreachableCode';
+
+export const LINT_RULES: LintRule[] = [
+    'readBeforeWrite', 'missingDacWrite', 'accNonZeroAtEnd', 'delayReadPastEnd', 'skipPastEnd', 'unusedSymbol', 'unusedLfo', 'accSaturation',
+    'unreachableCode'
+];
+
+/**
+ * A lint finding. line is 1-based, in the text the result was assembled from.
+ */
+export interface LintProblem {
+    rule: LintRule;
+    line: number;
+    message: string;
+    /** The declared name the problem is about, for rules that report on a declaration */
+    name?: string;
+}
+
+type AccState = 'zero' | 'unknown';
+
+const USER_REGISTER_BASE = 0x20;
+const REGISTER_NAMES = new Map<number, string>(Object.entries(HARDWARE_REGISTERS).map(([name, address]) => [address, name]));
+const LFO_NAMES = ['SIN0', 'SIN1', 'RMP0', 'RMP1'];
+const SKP_RUN = 0x10;
+
+/**
+ * Lint an assembled program
+ * @param result Assembler result before it is mapped back onto the source files
+ * @param source The preprocessed source the result was assembled from
+ * @param rootFile Declarations outside this file (in included libraries) are not reported as unused
+ * @param rules The rules to check
+ */
+export function lintProgram(result: FV1AssemblerResult, source: PreprocessedSource, rootFile: string, rules: Set<LintRule>): LintProblem[] {
+    const lineMap = (result.addressToLineMap ?? new Map()) as Map<number, number>;
+    const program = decodeProgram(result.machineCode, lineMap.size);
+
+    const lines = source.text.split('\n');
+    const context: LintContext = { result, source, rootFile, program, lineMap, lines };
+    const checks: Record<LintRule, (context: LintContext) => LintProblem[]> = {
+        readBeforeWrite: checkReadBeforeWrite,
+        missingDacWrite: checkMissingDacWrite,
+        accNonZeroAtEnd: checkAccAtEnd,
+        delayReadPastEnd: checkDelayReads,
+        skipPastEnd: checkSkips,
+        unusedSymbol: checkUnusedSymbols,
+        unusedLfo: checkUnusedLfos,
+        accSaturation: checkAccSaturation,
+        unreachableCode: checkUnreachable
+    };
+
+    return LINT_RULES.filter(rule => rules.has(rule)).flatMap(rule => checks[rule](context));
+}
+
+interface LintContext {
+    result: FV1AssemblerResult;
+    source: PreprocessedSource;
+    rootFile: string;
+    program: DecodedInstruction[];
+    lineMap: Map<number, number>;
+    lines: string[];
+}
+
+function checkReadBeforeWrite({ program, lineMap, lines }: LintContext): LintProblem[] {
+    const firstRead = new Map<number, number>();
+    const written = new Set<number>();
+    program.forEach((instruction, addr) => {
+        const register = instruction.register;
+        if (register === undefined || register < USER_REGISTER_BASE) return;
+        if (['wrax', 'wrhx', 'wrlx'].includes(instruction.mnemonic)) {
+            written.add(register);
+        } else if (!written.has(register) && !firstRead.has(register)) {
+            firstRead.set(register, addr);
+        }
+    });
+
+    const everWritten = new Set(program.filter(i => ['wrax', 'wrhx', 'wrlx'].includes(i.mnemonic)).map(i => i.register));
+    return [...firstRead].map(([register, addr]) => {
+        const line = lineMap.get(addr)!;
+        const name = describeRegister(register, lines[line - 1]);
+        return {
+            rule: 'readBeforeWrite',
+            line,
+            message: everWritten.has(register)
+                ? `${name} is read before it is written, so it holds the value from the previous sample`
+                : `${name} is read but never written, so it is always 0`
+        };
+    });
+}
+
+function checkMissingDacWrite({ program, lineMap }: LintContext): LintProblem[] {
+    if (program.length === 0) return [];
+    const written = new Set(program.filter(i => ['wrax', 'wrhx', 'wrlx'].includes(i.mnemonic)).map(i => i.register));
+    return ['DACL', 'DACR']
+        .filter(name => !written.has(HARDWARE_REGISTERS[name]))
+        .map(name => ({
+            rule: 'missingDacWrite' as const,
+            line: lineMap.get(0)!,
+            message: `${name} is never written, so the ${name === 'DACL' ? 'left' : 'right'} output is silent`
+        }));
+}
+
+function checkAccAtEnd({ program, lineMap }: LintContext): LintProblem[] {
+    if (program.length === 0) return [];
+
+    // Skips only go forward, so one pass in address order sees every predecessor first
+    const incoming: AccState[][] = program.map((): AccState[] => []);
+    const atEnd: AccState[] = [];
+    incoming[0].push('unknown');
+    program.forEach((instruction, addr) => {
+        const state = incoming[addr].every(s => s === 'zero') ? 'zero' : 'unknown';
+        const after = accAfter(instruction, state);
+        const follow = (target: number) => (target < program.length ? incoming[target] : atEnd).push(after);
+        if (instruction.mnemonic === 'skp' || instruction.mnemonic === 'jmp') follow(addr + 1 + instruction.skip!);
+        if (instruction.mnemonic !== 'jmp') follow(addr + 1);
+    });
+
+    if (atEnd.every(s => s === 'zero') || overwritesAcc(program[steadyStateStart(program)])) {
+        return [];
+    }
+    return [{
+        rule: 'accNonZeroAtEnd',
+        line: lineMap.get(program.length - 1)!,
+        message: 'ACC may be non-zero at the end of the program, and carries into the first instruction of the next sample'
+    }];
+}
+
+function checkDelayReads({ result, program, lineMap, lines }: LintContext): LintProblem[] {
+    const memories = new Map<string, FV1AssemblerResult['memories'][number]>((result.memories ?? []).map(m => [m.name.toUpperCase(), m]));
+    const problems: LintProblem[] = [];
+
+    program.forEach((instruction, addr) => {
+        const isRead = instruction.mnemonic === 'rda' || (instruction.mnemonic === 'cho' && instruction.choType === 'RDA');
+        if (!isRead || instruction.address === undefined) return;
+
+        const line = lineMap.get(addr)!;
+        const operands = parseLine(lines[line - 1] ?? '').operands;
+        const operand = instruction.mnemonic === 'rda' ? operands[0] : operands[operands.length - 1];
+        const name = /^\s*([A-Za-z_][A-Za-z0-9_.]*)/.exec(operand?.text ?? '')?.[1];
+        const memory = name ? memories.get(name.toUpperCase()) : undefined;
+        if (!memory || memory.start === undefined || memory.end === undefined) return;
+
+        if (instruction.address > memory.end || instruction.address < memory.start) {
+            const past = instruction.address > memory.end;
+            problems.push({
+                rule: 'delayReadPastEnd',
+                line,
+                message: `Delay read at address ${instruction.address} is ${past ? 'past the end' : 'before the start'} of '${name}' (${memory.start}-${memory.end})`
+            });
+        }
+    });
+
+    return problems;
+}
+
+function checkSkips({ program, lineMap }: LintContext): LintProblem[] {
+    const problems: LintProblem[] = [];
+    program.forEach((instruction, addr) => {
+        if (instruction.mnemonic !== 'skp' && instruction.mnemonic !== 'jmp') return;
+        const beyond = addr + 1 + instruction.skip! - program.length;
+        if (beyond > 0) {
+            problems.push({
+                rule: 'skipPastEnd',
+                line: lineMap.get(addr)!,
+                message: `${instruction.mnemonic.toUpperCase()} jumps ${beyond} instruction${beyond === 1 ? '' : 's'} past the end of the program`
+            });
+        }
+    });
+    return problems;
+}
+
+function checkUnusedSymbols({ result, source, rootFile, lines }: LintContext): LintProblem[] {
+    const used = new Set<string>();
+    for (const text of lines) {
+        for (const identifier of getLineIdentifiers(text)) {
+            if (!identifier.isDeclaration) used.add(identifier.text.toUpperCase());
+        }
+    }
+
+    const declared = [
+        ...(result.symbols ?? []).map(s => ({ kind: 'EQU', name: s.name, line: s.line })),
+        ...(result.memories ?? []).map(m => ({ kind: 'MEM', name: m.name, line: m.line }))
+    ];
+
+    return declared
+        .filter(d => d.line !== undefined && source.lineMap[d.line - 1]?.file === rootFile && !used.has(d.name.toUpperCase()))
+        .map(d => ({
+            rule: 'unusedSymbol' as const,
+            line: d.line!,
+            name: d.name,
+            message: `${d.kind} '${findDeclaration(lines[d.line! - 1] ?? '', d.name)?.text ?? d.name}' is never used`
+        }));
+}
+
+function checkUnusedLfos({ program, lineMap }: LintContext): LintProblem[] {
+    const used = new Set(program.filter(i => i.mnemonic === 'cho').map(i => i.lfo!));
+    const problems: LintProblem[] = [];
+    program.forEach((instruction, addr) => {
+        if (instruction.mnemonic !== 'wlds' && instruction.mnemonic !== 'wldr') return;
+        const lfo = instruction.lfo! + (instruction.mnemonic === 'wldr' ? 2 : 0);
+        if (!used.has(lfo)) {
+            problems.push({
+                rule: 'unusedLfo',
+                line: lineMap.get(addr)!,
+                message: `${LFO_NAMES[lfo]} is set up with ${instruction.mnemonic.toUpperCase()} but never used by CHO`
+            });
+        }
+    });
+    return problems;
+}
+
+function checkAccSaturation({ program, lineMap }: LintContext): LintProblem[] {
+    return analyzeAccumulator(program).flatMap((range, addr) => range.saturates ? [{
+        rule: 'accSaturation' as const,
+        line: lineMap.get(addr)!,
+        message: `ACC may saturate here: the result can reach ${formatInterval(range.after)}`
+    }] : []);
+}
+
+function checkUnreachable({ program, lineMap }: LintContext): LintProblem[] {
+    return findUnreachable(program).flatMap((unreachable, addr) => unreachable ? [{
+        rule: 'unreachableCode' as const,
+        line: lineMap.get(addr)!,
+        message: 'Unreachable instruction: every path skips over it'
+    }] : []);
+}
+
+/**
+ * Whether ACC is known to be zero after an instruction
+ */
+function accAfter(instruction: DecodedInstruction, state: AccState): AccState {
+    switch (instruction.mnemonic) {
+        case 'clr':
+            return 'zero';
+        case 'wrax':
+        case 'wra':
+            return instruction.coefficient!.raw === 0 ? 'zero' : state;
+        case 'sof':
+            return instruction.coefficient!.raw === 0 && instruction.offset!.raw === 0 ? 'zero' : 'unknown';
+        case 'rdax':
+            return instruction.coefficient!.raw === 0 ? state : 'unknown';
+        case 'skp':
+        case 'jmp':
+        case 'nop':
+        case 'wlds':
+        case 'wldr':
+        case 'jam':
+        case 'mulx':
+        case 'and':
+        case 'absa':
+            return state;
+        default:
+            return 'unknown';
+    }
+}
+
+/**
+ * Whether an instruction replaces ACC without using its previous value
+ */
+function overwritesAcc(instruction: DecodedInstruction | undefined): boolean {
+    if (!instruction) return false;
+    return instruction.mnemonic === 'ldax'
+        || instruction.mnemonic === 'clr'
+        || (instruction.mnemonic === 'sof' && instruction.coefficient!.raw === 0)
+        || (instruction.mnemonic === 'cho' && instruction.choType === 'RDAL');
+}
+
+/**
+ * The first instruction that does work on every sample after the first, following the
+ * usual `skp run` over one-time LFO setup
+ */
+function steadyStateStart(program: DecodedInstruction[]): number {
+    let addr = 0;
+    while (addr < program.length) {
+        const instruction = program[addr];
+        if (instruction.mnemonic === 'jmp' || (instruction.mnemonic === 'skp' && (instruction.flags! & SKP_RUN))) {
+            addr += 1 + instruction.skip!;
+        } else if (['nop', 'wlds', 'wldr', 'jam'].includes(instruction.mnemonic)) {
+            addr++;
+        } else {
+            break;
+        }
+    }
+    return addr;
+}
+
+/**
+ * A register as written on the line, with its hardware name if that differs, e.g. "'lp' (REG3)"
+ */
+function describeRegister(register: number, lineText: string | undefined): string {
+    const hardwareName = REGISTER_NAMES.get(register) ?? `register ${register}`;
+    const operand = parseLine(lineText ?? '').operands[0]?.text;
+    return operand && operand.toUpperCase() !== hardwareName ? `'${operand}' (${hardwareName})` : hardwareName;
+}
@@ -0,0 +1,104 @@
+/**
+ * FV-1 Delay Memory Layout
+ * Places a program's MEM blocks in delay RAM and finds the fixed-address taps that read
+ * and write each block, for drawing the memory map of a program.
+ */
+
+import type { DecodedInstruction } from './fv1Decoder.js';
+import type { SourceMappedResult } from './fv1Preprocessor.js';
+
+/**
+ * A delay memory access at a fixed address
+ */
+export interface MemoryTap {
+    address: number;
+    /** Address relative to the start of the block the tap falls in */
+    offset: number;
+    mnemonic: string;
+    write: boolean;
+    /** Program address of the accessing instruction */
+    pc: number;
+    /** 1-based source line of the accessing instruction */
+    line?: number;
+}
+
+/**
+ * A MEM block as it is placed in delay RAM
+ */
+export interface MemoryBlockLayout {
+    name: string;
+    start: number;
+    size: number;
+    /** The extra word SpinASM allocates after the block, when its MEM bug is emulated */
+    wastedWord?: number;
+    /** 1-based line of the MEM declaration */
+    line?: number;
+    /** Absolute path of the included file that declares the block */
+    file?: string;
+    taps: MemoryTap[];
+}
+
+export interface MemoryLayout {
+    delaySize: number;
+    /** Words taken by blocks, including wasted words */
+    used: number;
+    blocks: MemoryBlockLayout[];
+    /** Unallocated ranges of delay RAM */
+    free: { start: number; size: number }[];
+    /** Accesses to addresses outside every block */
+    strayTaps: MemoryTap[];
+}
+
+/**
+ * Lay out the MEM blocks of an assembled program
+ * @param memories The memories of the assembler result
+ * @param program The decoded program, for finding taps
+ * @param addressToLineMap Program address to 1-based source line
+ * @param memBug Whether each block is followed by a wasted word, as in SpinASM
+ */
+export function buildMemoryLayout(
+    memories: SourceMappedResult['memories'],
+    program: DecodedInstruction[],
+    addressToLineMap: Map<number, number> | undefined,
+    delaySize: number,
+    memBug: boolean
+): MemoryLayout {
+    const blocks: MemoryBlockLayout[] = memories
+        .map((memory): MemoryBlockLayout => ({
+            name: memory.name,
+            start: memory.start ?? 0,
+            size: memory.size,
+            wastedWord: memBug ? (memory.start ?? 0) + memory.size : undefined,
+            line: memory.line,
+            file: memory.file,
+            taps: []
+        }))
+        .sort((a, b) => a.start - b.start);
+
+    const strayTaps: MemoryTap[] = [];
+    program.forEach((instruction, pc) => {
+        if (instruction.address === undefined) return;
+        const write = instruction.mnemonic === 'wra' || instruction.mnemonic === 'wrap';
+        const mnemonic = instruction.mnemonic === 'cho' ? 'cho rda' : instruction.mnemonic;
+        const address = instruction.address;
+
+        // The end address (name#) reads the word just past the block
+        const block = blocks.find(b => address >= b.start && address < b.start + b.size)
+            ?? blocks.find(b => address === b.start + b.size);
+        const tap: MemoryTap = { address, offset: block ? address - block.start : address, mnemonic, write, pc, line: addressToLineMap?.get(pc) };
+        (block ? block.taps : strayTaps).push(tap);
+    });
+
+    const free: { start: number; size: number }[] = [];
+    let next = 0;
+    let used = 0;
+    for (const block of blocks) {
+        const footprint = block.size + (memBug ? 1 : 0);
+        if (block.start > next) free.push({ start: next, size: block.start - next });
+        next = Math.max(next, block.start + footprint);
+        used += footprint;
+    }
+    if (next < delaySize) free.push({ start: next, size: delaySize - next });
+
+    return { delaySize, used, blocks, free, strayTaps };
+}
@@ -0,0 +1,394 @@
+/**
+ * FV-1 Source Preprocessor
+ * Expands `include "file.spn"` directives and macros before assembly. Each line of the
+ * expanded text remembers the file and line it came from, so assembler results can be
+ * mapped back onto the original sources.
+ *
+ * Macros are defined with `macro name param1, param2` ... `endm` and invoked like an
+ * instruction. Labels declared inside a macro are renamed on each expansion so that a
+ * macro can be used more than once.
+ */
+
+import * as path from 'path';
+import type { FV1AssemblerResult } from '@audiofab-io/fv1-core';
+import { findDeclaration, isReservedWord, parseLine } from './fv1Syntax.js';
+import { loadSourceFile } from './fv1SourceEncoding.js';
+import type { LintProblem } from './fv1Linter.js';
+
+/**
+ * A line in a source file. file is an absolute file system path, line is 1-based.
+ */
+export interface SourceLocation {
+    file: string;
+    line: number;
+    /** Set on lines expanded from a macro invoked at this location */
+    macro?: MacroOrigin;
+}
+
+/**
+ * The macro, and the line of its definition, that an expanded line came from
+ */
+export interface MacroOrigin {
+    name: string;
+    file: string;
+    line: number;
+}
+
+/**
+ * A macro definition block in a single source text (lines are 0-based)
+ */
+export interface MacroBlock {
+    name: string;
+    params: string[];
+    startLine: number;
+    /** The endm line, or the last line of the text if the macro is not terminated */
+    endLine: number;
+}
+
+export interface PreprocessedSource {
+    /** The expanded program text passed to the assembler */
+    text: string;
+    /** Origin of each expanded line (index 0 is expanded line 1) */
+    lineMap: SourceLocation[];
+    /** For each expanded line, the line in the root file it belongs to (its own line, or the include that pulled it in) */
+    rootLines: number[];
+    /** Absolute paths of every file that was included, directly or indirectly */
+    includes: string[];
+    /** Upper case names of the macros defined in the program or its includes */
+    macros: string[];
+    /** Include and macro problems; rootLine is the line in the root file to report them on */
+    problems: { location: SourceLocation; rootLine: number; message: string }[];
+}
+
+/**
+ * Set on problems reported on an include directive or macro invocation: where the problem really is
+ */
+export interface ProblemOrigin {
+    source?: SourceLocation;
+}
+
+/**
+ * Set on symbols, MEM blocks and labels when they are mapped back onto the source files
+ */
+export interface DeclarationSource {
+    /** The included file the declaration is in, which its line refers to; unset for the root file */
+    file?: string;
+    /** The name as written at the declaration (the assembler reports names in upper case) */
+    declaredName?: string;
+}
+
+type AssemblerLabel = ReturnType<FV1AssemblerResult['labels']['get']>;
+
+/**
+ * An assembler result whose line numbers refer to the root file, with the exact
+ * origin of each instruction when it came from an included file
+ */
+export type SourceMappedResult = Omit<FV1AssemblerResult, 'problems' | 'symbols' | 'memories' | 'labels'> & {
+    problems: (FV1AssemblerResult['problems'][number] & ProblemOrigin)[];
+    symbols: (FV1AssemblerResult['symbols'][number] & DeclarationSource)[];
+    memories: (FV1AssemblerResult['memories'][number] & DeclarationSource)[];
+    labels?: Map<string, AssemblerLabel & DeclarationSource>;
+    addressToSourceMap?: Map<number, SourceLocation>;
+    /** Findings of the lint pass, when it was run */
+    lintProblems?: (LintProblem & ProblemOrigin)[];
+};
+
+export type SourceReader = (filePath: string) => string | undefined;
+
+interface MacroDefinition {
+    name: string;
+    params: string[];
+    body: { text: string; line: number }[];
+    file: string;
+    line: number;
+}
+
+const INCLUDE_PATTERN = /^(\s*include\s+)(?:"([^"]*)"|'([^']*)'|([^\s;]+))\s*(?:;.*)?$/i;
+const MACRO_PATTERN = /^\s*macro\s+([A-Za-z_][A-Za-z0-9_]*)\s*([^;]*?)\s*(?:;.*)?$/i;
+const ENDM_PATTERN = /^\s*endm(?:acro)?\s*(?:;.*)?$/i;
+const IDENTIFIER_PATTERN = /(?<![A-Za-z0-9_.$%])[A-Za-z_][A-Za-z0-9_.]*/g;
+const PLAIN_ARGUMENT_PATTERN = /^(?:[A-Za-z_][A-Za-z0-9_.]*|\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|\$[0-9a-f]+|%[01_]+|0x[0-9a-f]+)$/i;
+const MAX_INCLUDE_DEPTH = 16;
+const MAX_MACRO_DEPTH = 16;
+
+/**
+ * Recognize an include directive, returning the quoted path and its column span
+ */
+export function parseIncludeDirective(text: string): { path: string; start: number; end: number } | undefined {
+    const match = INCLUDE_PATTERN.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const includePath = match[2] ?? match[3] ?? match[4];
+    const quoted = match[4] === undefined ? 1 : 0;
+    const start = match[1].length + quoted;
+    return { path: includePath, start, end: start + includePath.length };
+}
+
+/**
+ * Recognize a macro definition line, returning the macro name and parameter names
+ */
+export function parseMacroDefinition(text: string): { name: string; params: string[] } | undefined {
+    const match = MACRO_PATTERN.exec(text);
+    if (!match) {
+        return undefined;
+    }
+    const params = match[2].split(',').map(p => p.trim()).filter(p => p.length > 0);
+    return { name: match[1], params };
+}
+
+/**
+ * Find the macro definition blocks in a source text
+ */
+export function findMacroBlocks(text: string): MacroBlock[] {
+    const lines = text.split(/\r?\n/);
+    const blocks: MacroBlock[] = [];
+    let current: MacroBlock | undefined;
+
+    lines.forEach((lineText, line) => {
+        if (current) {
+            if (ENDM_PATTERN.test(lineText)) {
+                current.endLine = line;
+                current = undefined;
+            }
+            return;
+        }
+        const definition = parseMacroDefinition(lineText);
+        if (definition) {
+            current = { ...definition, startLine: line, endLine: lines.length - 1 };
+            blocks.push(current);
+        }
+    });
+
+    return blocks;
+}
+
+/**
+ * Resolve an include path relative to the file containing the directive
+ */
+export function resolveIncludePath(includePath: string, fromFile: string): string {
+    return path.resolve(path.dirname(fromFile), includePath);
+}
+
+/**
+ * Expand include directives and macros in a program
+ * @param filePath Absolute path of the program, used to resolve relative includes
+ * @param readSource Reads an included file; defaults to reading UTF-8 from disk
+ */
+export function preprocess(text: string, filePath: string, readSource: SourceReader = readSourceFile): PreprocessedSource {
+    const output: PreprocessedSource = { text: '', lineMap: [], rootLines: [], includes: [], macros: [], problems: [] };
+    const lines: string[] = [];
+    const macros = new Map<string, MacroDefinition>();
+    let expansionCount = 0;
+
+    const emit = (lineText: string, location: SourceLocation, rootLine: number) => {
+        lines.push(lineText);
+        output.lineMap.push(location);
+        output.rootLines.push(rootLine);
+    };
+
+    const report = (location: SourceLocation, rootLine: number, message: string) => {
+        output.problems.push({ location, rootLine, message });
+    };
+
+    const expandFile = (source: string, file: string, stack: string[], rootLine: number | undefined) => {
+        let defining: MacroDefinition | undefined;
+
+        source.split(/\r?\n/).forEach((lineText, index) => {
+            const location: SourceLocation = { file, line: index + 1 };
+            const root = rootLine ?? location.line;
+
+            // Macro definitions stay in the output as comments, so line mapping and listings still show them
+            if (defining) {
+                emit(`; ${lineText}`, location, root);
+                if (ENDM_PATTERN.test(lineText)) {
+                    if (!isReservedWord(defining.name)) macros.set(defining.name.toUpperCase(), defining);
+                    defining = undefined;
+                } else {
+                    defining.body.push({ text: lineText, line: location.line });
+                }
+                return;
+            }
+
+            const definition = parseMacroDefinition(lineText);
+            if (definition) {
+                emit(`; ${lineText}`, location, root);
+                if (isReservedWord(definition.name)) {
+                    report(location, root, `'${definition.name}' is a reserved word and cannot be used as a macro name`);
+                }
+                defining = { ...definition, body: [], file, line: location.line };
+                return;
+            }
+
+            if (ENDM_PATTERN.test(lineText)) {
+                emit(`; ${lineText}`, location, root);
+                report(location, root, 'endm without a matching macro');
+                return;
+            }
+
+            expandLine(lineText, location, root, stack, 0);
+        });
+
+        if (defining) {
+            report({ file, line: defining.line }, rootLine ?? defining.line, `Macro '${defining.name}' is missing endm`);
+        }
+    };
+
+    const expandLine = (lineText: string, location: SourceLocation, rootLine: number, stack: string[], depth: number) => {
+        const directive = parseIncludeDirective(lineText);
+        if (directive) {
+            // The directive itself stays in the output as a comment
+            emit(`; ${lineText.trim()}`, location, rootLine);
+            includeFile(directive.path, location, rootLine, stack);
+            return;
+        }
+
+        const parsed = parseLine(lineText);
+        const macro = parsed.opcode && !parsed.isDirective ? macros.get(parsed.opcode.text.toUpperCase()) : undefined;
+        if (!macro) {
+            emit(lineText, location, rootLine);
+            return;
+        }
+
+        // Keep any label on the invocation line, and the invocation itself as a comment
+        const invocation = lineText.substring(parsed.opcode!.start).trim();
+        emit(parsed.label ? `${parsed.label.text}:\t; ${invocation}` : `; ${invocation}`, location, rootLine);
+
+        const args = parsed.operands.map(o => o.text);
+        if (args.length !== macro.params.length) {
+            report(location, rootLine, `Macro '${macro.name}' expects ${macro.params.length} argument${macro.params.length === 1 ? '' : 's'} but got ${args.length}`);
+            return;
+        }
+        if (depth >= MAX_MACRO_DEPTH) {
+            report(location, rootLine, `Macros are nested more than ${MAX_MACRO_DEPTH} deep (is '${macro.name}' recursive?)`);
+            return;
+        }
+
+        const id = ++expansionCount;
+        instantiateMacro(macro, args, id).forEach((bodyLine, i) => {
+            const origin: MacroOrigin = { name: macro.name, file: macro.file, line: macro.body[i].line };
+            expandLine(bodyLine, { file: location.file, line: location.line, macro: origin }, rootLine, stack, depth + 1);
+        });
+    };
+
+    const includeFile = (includePath: string, location: SourceLocation, rootLine: number, stack: string[]) => {
+        const resolved = resolveIncludePath(includePath, location.file);
+        if (stack.includes(resolved)) {
+            report(location, rootLine, `Circular include of '${includePath}'`);
+            return;
+        }
+        if (stack.length >= MAX_INCLUDE_DEPTH) {
+            report(location, rootLine, `Includes are nested more than ${MAX_INCLUDE_DEPTH} deep`);
+            return;
+        }
+
+        const content = readSource(resolved);
+        if (content === undefined) {
+            report(location, rootLine, `Cannot read included file '${includePath}'`);
+            return;
+        }
+
+        if (!output.includes.includes(resolved)) output.includes.push(resolved);
+        expandFile(content, resolved, [...stack, resolved], rootLine);
+    };
+
+    expandFile(text, filePath, [filePath], undefined);
+    output.text = lines.join('\n');
+    output.macros = [...macros.keys()];
+    return output;
+}
+
+/**
+ * Substitute arguments for parameters in a macro body, and give the labels it
+ * declares names unique to this expansion. Arguments other than a single name or
+ * number are parenthesized, so `-k` with `0.5-0.25` expands to `-(0.5-0.25)`.
+ */
+function instantiateMacro(macro: MacroDefinition, args: string[], id: number): string[] {
+    const replacements = new Map<string, string>();
+    macro.params.forEach((param, i) => replacements.set(param.toUpperCase(), PLAIN_ARGUMENT_PATTERN.test(args[i]) ? args[i] : `(${args[i]})`));
+    for (const { text } of macro.body) {
+        const label = parseLine(text).label;
+        if (label) replacements.set(label.text.toUpperCase(), `${macro.name}_${id}_${label.text}`);
+    }
+
+    return macro.body.map(({ text }) => {
+        const commentStart = text.indexOf(';');
+        const code = commentStart >= 0 ? text.substring(0, commentStart) : text;
+        const comment = commentStart >= 0 ? text.substring(commentStart) : '';
+        return code.replace(IDENTIFIER_PATTERN, name => replacements.get(name.toUpperCase()) ?? name) + comment;
+    });
+}
+
+/**
+ * Rewrite the line numbers in an assembler result so they refer to the root file.
+ * Problems (and lint findings) in included files are reported on the include directive that pulled them in,
+ * and problems in macro expansions on the macro invocation; symbols, MEM blocks and
+ * labels gain their declared name, and a `file` property when they come from an included file.
+ */
+export function mapResultToSource(result: FV1AssemblerResult, source: PreprocessedSource, rootFile: string): SourceMappedResult {
+    const mapped = result as SourceMappedResult;
+    const locate = (line: number | undefined): SourceLocation | undefined =>
+        line !== undefined && line >= 1 ? source.lineMap[line - 1] : undefined;
+
+    for (const problem of [...(mapped.problems ?? []), ...(mapped.lintProblems ?? [])]) {
+        const location = locate(problem.line);
+        if (!location) continue;
+        if (location.macro) {
+            problem.message = `${problem.message} (in macro '${location.macro.name}')`;
+        }
+        if (location.file !== rootFile) {
+            problem.message = `${path.basename(location.file)}:${location.line}: ${problem.message}`;
+        }
+        if (location.file !== rootFile || location.macro) {
+            problem.source = location;
+        }
+        problem.line = source.rootLines[problem.line - 1];
+    }
+
+    for (const problem of source.problems) {
+        const inRoot = problem.location.file === rootFile;
+        mapped.problems.push({
+            line: problem.rootLine,
+            message: inRoot ? problem.message : `${path.basename(problem.location.file)}:${problem.location.line}: ${problem.message}`,
+            isfatal: true,
+            source: inRoot ? undefined : problem.location
+        });
+    }
+
+    const expandedLines = source.text.split('\n');
+    const relocate = (item: { line?: number } & DeclarationSource, name: string) => {
+        const location = locate(item.line);
+        if (!location) return;
+        item.declaredName = findDeclaration(expandedLines[item.line - 1] ?? '', name)?.text;
+        item.line = location.line;
+        if (location.file !== rootFile) item.file = location.file;
+    };
+    (mapped.symbols ?? []).forEach(symbol => relocate(symbol, symbol.name));
+    (mapped.memories ?? []).forEach(memory => relocate(memory, memory.name));
+    for (const [name, info] of mapped.labels ?? []) relocate(info, name);
+
+    if (mapped.addressToLineMap) {
+        const addressToLineMap = new Map<number, number>();
+        mapped.addressToSourceMap = new Map();
+        for (const [addr, line] of mapped.addressToLineMap as Map<number, number>) {
+            const location = locate(line);
+            if (!location) continue;
+            addressToLineMap.set(addr, source.rootLines[line - 1]);
+            mapped.addressToSourceMap.set(addr, location);
+        }
+        mapped.addressToLineMap = addressToLineMap;
+    }
+
+    return mapped;
+}
+
+/**
+ * Read a source file from disk in any supported encoding, or undefined if it cannot be read
+ */
+export function readSourceFile(filePath: string): string | undefined {
+    try {
+        return loadSourceFile(filePath).text;
+    } catch {
+        return undefined;
+    }
+}
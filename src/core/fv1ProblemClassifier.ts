@@ -0,0 +1,138 @@
+/**
+ * FV-1 Problem Classifier
+ * The assembler reports problems per line with a free-form message.
+ * This works out which part of the line a problem refers to, and what kind of
+ * problem it is, so diagnostics get precise ranges and quick fixes can be offered.
+ */
+
+import { FV1_INSTRUCTIONS } from './fv1InstructionDocs.js';
+import { getOperandRange, type OperandRange } from './fv1Encoding.js';
+import { evaluateOperand, getLineIdentifiers, isReservedWord, parseLine, type ParsedLine, type SourceToken } from './fv1Syntax.js';
+import { parseIncludeDirective } from './fv1Preprocessor.js';
+
+export type ProblemCode = 'unknown-opcode' | 'undefined-symbol' | 'out-of-range' | 'delay-overflow';
+
+export interface ClassifiedProblem {
+    code?: ProblemCode;
+    start: number;
+    end: number;
+    /** The offending name, for unknown opcodes and undefined symbols */
+    name?: string;
+}
+
+export interface OutOfRangeOperand {
+    index: number;
+    token: SourceToken;
+    value: number;
+    range: OperandRange;
+}
+
+const MACRO_KEYWORDS = ['MACRO', 'ENDM', 'ENDMACRO'];
+
+/**
+ * Classify an assembler problem on a line of source
+ * @param knownNames Upper case names of all symbols, MEM blocks and labels in the program
+ * @param macroNames Upper case names of the macros the program defines, in its own file or an included one
+ */
+export function classifyProblem(
+    lineText: string,
+    message: string,
+    symbolValues: Map<string, number>,
+    knownNames: Set<string>,
+    macroNames: Set<string>
+): ClassifiedProblem {
+    const parsed = parseLine(lineText);
+    const codeText = parsed.comment ? lineText.substring(0, parsed.comment.start) : lineText;
+    const codeStart = codeText.length - codeText.trimStart().length;
+    const codeEnd = codeText.trimEnd().length;
+    const fallback: ClassifiedProblem = codeEnd > codeStart ? { start: codeStart, end: codeEnd } : { start: 0, end: lineText.length };
+
+    // Include directives and macros are expanded before assembly, so their problems are
+    // about the directive or invocation rather than an unknown instruction
+    const include = parseIncludeDirective(lineText);
+    if (include) {
+        return { start: include.start, end: include.end };
+    }
+    const opcode = parsed.opcode?.text.toUpperCase();
+    if (opcode && MACRO_KEYWORDS.includes(opcode)) {
+        return findQuotedName(codeText, message) ?? fallback;
+    }
+    if (opcode && !parsed.isDirective && macroNames.has(opcode)) {
+        return { start: parsed.opcode!.start, end: codeEnd };
+    }
+
+    if (parsed.opcode && !parsed.isDirective && !Object.hasOwn(FV1_INSTRUCTIONS, parsed.opcode.text.toLowerCase())) {
+        return { code: 'unknown-opcode', start: parsed.opcode.start, end: parsed.opcode.end, name: parsed.opcode.text };
+    }
+
+    if (parsed.isDirective && parsed.opcode!.text.toUpperCase() === 'MEM' && /memory/i.test(message)) {
+        const token = parsed.operands[0] ?? parsed.declaredName ?? parsed.opcode!;
+        return { code: 'delay-overflow', start: token.start, end: token.end };
+    }
+
+    const undefinedName = getLineIdentifiers(lineText).find(t =>
+        !t.isDeclaration && !knownNames.has(t.text.toUpperCase()) && !isReservedWord(t.text)
+    );
+    if (undefinedName) {
+        return { code: 'undefined-symbol', start: undefinedName.start, end: undefinedName.end, name: undefinedName.text };
+    }
+
+    const outOfRange = findOutOfRangeOperands(parsed, symbolValues);
+    if (outOfRange.length > 0) {
+        return { code: 'out-of-range', start: outOfRange[0].token.start, end: outOfRange[0].token.end };
+    }
+
+    // Otherwise narrow to a name quoted in the message, if it appears on the line
+    return findQuotedName(codeText, message) ?? fallback;
+}
+
+/**
+ * The span of a name quoted in a problem message, if it appears in the code
+ */
+function findQuotedName(codeText: string, message: string): ClassifiedProblem | undefined {
+    const quoted = /['"`]([^'"`]+)['"`]/.exec(message);
+    if (quoted) {
+        const index = codeText.toLowerCase().indexOf(quoted[1].toLowerCase());
+        if (index >= 0) {
+            return { start: index, end: index + quoted[1].length };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find operands whose value lies outside the legal range for their position
+ */
+export function findOutOfRangeOperands(parsed: ParsedLine, symbolValues: Map<string, number>): OutOfRangeOperand[] {
+    if (!parsed.opcode || parsed.isDirective) {
+        return [];
+    }
+
+    const operandTexts = parsed.operands.map(o => o.text);
+    const results: OutOfRangeOperand[] = [];
+    parsed.operands.forEach((token, index) => {
+        const range = getOperandRange(parsed.opcode!.text, operandTexts, index);
+        if (!range) return;
+
+        const value = evaluateOperand(token.text, symbolValues);
+        if (value === undefined) return;
+
+        const invalid = range.values ? !range.values.includes(value) : value < range.min || value > range.max;
+        if (invalid) {
+            results.push({ index, token, value, range });
+        }
+    });
+    return results;
+}
+
+/**
+ * The closest legal value to an out of range operand, formatted for source
+ */
+export function clampToRange(value: number, range: OperandRange): string {
+    if (range.values) {
+        const closest = range.values.reduce((best, v) => Math.abs(v - value) < Math.abs(best - value) ? v : best);
+        return closest.toString();
+    }
+    const clamped = Math.min(range.max, Math.max(range.min, value));
+    return range.format ? parseFloat(clamped.toFixed(5)).toString() : Math.round(clamped).toString();
+}
@@ -0,0 +1,78 @@
+/**
+ * FV-1 Source Encoding
+ * Loads assembly source files regardless of how they were saved. The original SpinASM IDE
+ * writes UTF-16 LE, often without a byte order mark, which reads as garbage when decoded
+ * as UTF-8.
+ */
+
+import * as fs from 'fs';
+
+export type SourceEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be';
+
+/**
+ * Decoded source text and the encoding it was stored in
+ */
+export interface DecodedSource {
+    text: string;
+    encoding: SourceEncoding;
+}
+
+// Number of leading bytes inspected when guessing the encoding of a file without a BOM
+const SAMPLE_SIZE = 1024;
+
+/**
+ * Detect the encoding of source file contents from its byte order mark, or for files
+ * without one, from the pattern of zero bytes that ASCII text has in UTF-16
+ */
+export function detectEncoding(bytes: Uint8Array): SourceEncoding {
+    if (bytes.length >= 3 && bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf8bom';
+    if (bytes.length >= 2 && bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf16le';
+    if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf16be';
+
+    const pairs = Math.floor(Math.min(bytes.length, SAMPLE_SIZE) / 2);
+    if (pairs === 0) return 'utf8';
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < pairs; i++) {
+        if (bytes[2 * i] === 0) evenZeros++;
+        if (bytes[2 * i + 1] === 0) oddZeros++;
+    }
+
+    // UTF-8 text never contains zero bytes; UTF-16 ASCII has one in every character
+    if (oddZeros >= pairs * 0.4 && evenZeros <= pairs * 0.1) return 'utf16le';
+    if (evenZeros >= pairs * 0.4 && oddZeros <= pairs * 0.1) return 'utf16be';
+    return 'utf8';
+}
+
+/**
+ * Decode source file contents, removing any byte order mark
+ */
+export function decodeSource(bytes: Uint8Array): DecodedSource {
+    const encoding = detectEncoding(bytes);
+    const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let text: string;
+
+    switch (encoding) {
+        case 'utf16le':
+            text = buffer.subarray(0, buffer.length & ~1).toString('utf16le');
+            break;
+        case 'utf16be': {
+            const swapped = Buffer.from(buffer.subarray(0, buffer.length & ~1));
+            text = swapped.swap16().toString('utf16le');
+            break;
+        }
+        default:
+            text = buffer.toString('utf8');
+    }
+
+    return { text: text.replace(/^﻿/, ''), encoding };
+}
+
+/**
+ * Read a source file from disk in whatever encoding it was saved in.
+ * Throws if the file cannot be read.
+ */
+export function loadSourceFile(filePath: string): DecodedSource {
+    return decodeSource(fs.readFileSync(filePath));
+}
@@ -0,0 +1,64 @@
+/**
+ * FV-1 Symbol References
+ * Locates user symbols (EQU, MEM, labels) under the cursor and every place they are used.
+ * Shared by the reference, highlight and rename providers.
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager, type FV1Symbol } from './fv1DocumentManager.js';
+import { getLineIdentifiers } from './fv1Syntax.js';
+
+export interface SymbolReference {
+    range: vscode.Range;
+    isDeclaration: boolean;
+}
+
+/**
+ * Resolve the user symbol at a position, along with the range of the name under the cursor.
+ * Suffixed forms ('name#', 'name^', 'name+10') resolve to the bare symbol.
+ */
+export function getSymbolAtPosition(
+    documentManager: FV1DocumentManager,
+    document: vscode.TextDocument,
+    position: vscode.Position
+): { symbol: FV1Symbol; range: vscode.Range } | undefined {
+    const lineText = document.lineAt(position.line).text;
+    const token = getLineIdentifiers(lineText).find(t => position.character >= t.start && position.character <= t.end);
+    if (!token) {
+        return undefined;
+    }
+
+    const name = token.text.toUpperCase();
+    // Predefined registers have no declaration line and are not user symbols
+    const symbol = documentManager.getSymbols(document).find(s => s.line !== undefined && s.name.toUpperCase() === name);
+    if (!symbol) {
+        return undefined;
+    }
+
+    return { symbol, range: new vscode.Range(position.line, token.start, position.line, token.end) };
+}
+
+/**
+ * Find every occurrence of a symbol in a document, including its declaration.
+ * Only the name itself is covered by each range, so MEM suffixes and offsets are left intact.
+ */
+export function findSymbolReferences(document: vscode.TextDocument, symbol: FV1Symbol): SymbolReference[] {
+    const name = symbol.name.toUpperCase();
+    // Symbols declared in an included file have no declaration in this document
+    const declarationLine = symbol.line !== undefined && !symbol.file ? symbol.line - 1 : -1;
+    const references: SymbolReference[] = [];
+
+    for (let line = 0; line < document.lineCount; line++) {
+        for (const token of getLineIdentifiers(document.lineAt(line).text)) {
+            if (token.text.toUpperCase() !== name) {
+                continue;
+            }
+            references.push({
+                range: new vscode.Range(line, token.start, line, token.end),
+                isDeclaration: token.isDeclaration && line === declarationLine
+            });
+        }
+    }
+
+    return references;
+}
@@ -0,0 +1,328 @@
+/**
+ * FV-1 Source Syntax
+ * Lightweight line tokenizer and operand tables for FV-1 assembly.
+ * Used by editor providers that need to know what sits at a given column
+ * without running the full assembler.
+ */
+
+import { FV1_INSTRUCTIONS } from './fv1InstructionDocs.js';
+
+/**
+ * Predefined hardware registers and their register file addresses
+ */
+export const HARDWARE_REGISTERS: Record<string, number> = {
+    SIN0_RATE: 0x00,
+    SIN0_RANGE: 0x01,
+    SIN1_RATE: 0x02,
+    SIN1_RANGE: 0x03,
+    RMP0_RATE: 0x04,
+    RMP0_RANGE: 0x05,
+    RMP1_RATE: 0x06,
+    RMP1_RANGE: 0x07,
+    POT0: 0x10,
+    POT1: 0x11,
+    POT2: 0x12,
+    ADCL: 0x14,
+    ADCR: 0x15,
+    DACL: 0x16,
+    DACR: 0x17,
+    ADDR_PTR: 0x18,
+    ...Object.fromEntries(Array.from({ length: 32 }, (_, i) => [`REG${i}`, 0x20 + i]))
+};
+
+export const SIN_LFOS = ['SIN0', 'SIN1'];
+export const RMP_LFOS = ['RMP0', 'RMP1'];
+export const CHO_LFOS = ['SIN0', 'SIN1', 'RMP0', 'RMP1', 'COS0', 'COS1'];
+export const CHO_TYPES = ['RDA', 'SOF', 'RDAL'];
+export const CHO_FLAGS = ['SIN', 'COS', 'REG', 'COMPC', 'COMPA', 'RPTR2', 'NA'];
+export const SKP_FLAGS = ['RUN', 'ZRC', 'ZRO', 'GEZ', 'NEG'];
+export const DIRECTIVES = ['EQU', 'MEM'];
+
+/**
+ * The kind of value expected in an operand position
+ */
+export type OperandKind =
+    | 'register'
+    | 'delay'
+    | 'coefficient'
+    | 'offset'
+    | 'mask'
+    | 'skipFlags'
+    | 'skipTarget'
+    | 'sinLfo'
+    | 'rmpLfo'
+    | 'lfo'
+    | 'frequency'
+    | 'amplitude'
+    | 'choType'
+    | 'choFlags';
+
+const OPERAND_KINDS: Record<string, OperandKind[]> = {
+    sof: ['coefficient', 'offset'],
+    and: ['mask'],
+    or: ['mask'],
+    xor: ['mask'],
+    log: ['coefficient', 'offset'],
+    exp: ['coefficient', 'offset'],
+    skp: ['skipFlags', 'skipTarget'],
+    jmp: ['skipTarget'],
+    rdax: ['register', 'coefficient'],
+    wrax: ['register', 'coefficient'],
+    maxx: ['register', 'coefficient'],
+    mulx: ['register'],
+    rdfx: ['register', 'coefficient'],
+    wrlx: ['register', 'coefficient'],
+    wrhx: ['register', 'coefficient'],
+    ldax: ['register'],
+    rda: ['delay', 'coefficient'],
+    rmpa: ['coefficient'],
+    wra: ['delay', 'coefficient'],
+    wrap: ['delay', 'coefficient'],
+    wlds: ['sinLfo', 'frequency', 'amplitude'],
+    wldr: ['rmpLfo', 'frequency', 'amplitude'],
+    jam: ['rmpLfo'],
+    clr: [],
+    not: [],
+    absa: [],
+    nop: []
+};
+
+/**
+ * Get the operand kinds expected by an opcode.
+ * CHO is resolved from its first operand (RDA, SOF or RDAL) when available.
+ */
+export function getOperandKinds(opcode: string, operands: string[] = []): OperandKind[] | undefined {
+    const op = opcode.toLowerCase();
+    if (op === 'cho') {
+        const type = (operands[0] ?? '').trim().toUpperCase();
+        if (type === 'SOF') return ['choType', 'lfo', 'choFlags', 'offset'];
+        if (type === 'RDAL') return ['choType', 'lfo', 'choFlags'];
+        return ['choType', 'lfo', 'choFlags', 'delay'];
+    }
+    return OPERAND_KINDS[op];
+}
+
+/**
+ * A piece of source text and its column span on the line
+ */
+export interface SourceToken {
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * A single line of FV-1 source split into its parts
+ */
+export interface ParsedLine {
+    label?: SourceToken;
+    /** Opcode or directive keyword (EQU/MEM) */
+    opcode?: SourceToken;
+    /** For EQU/MEM lines, the name being declared */
+    declaredName?: SourceToken;
+    operands: SourceToken[];
+    comment?: SourceToken;
+    isDirective: boolean;
+}
+
+/**
+ * An identifier on a line, and whether it declares a name or uses one
+ */
+export interface IdentifierToken extends SourceToken {
+    isDeclaration: boolean;
+}
+
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_.]*/y;
+// Identifiers inside operand expressions; the lookbehind skips the tails of numbers such as 0x06, $FF and 1e-3
+const OPERAND_IDENTIFIER_PATTERN = /(?<![A-Za-z0-9_.$%])[A-Za-z_][A-Za-z0-9_.]*/g;
+
+/**
+ * Split a line of FV-1 assembly into label, opcode, operands and comment.
+ * Operands are comma separated and returned trimmed, with their column spans.
+ */
+export function parseLine(text: string): ParsedLine {
+    const parsed: ParsedLine = { operands: [], isDirective: false };
+
+    const commentStart = text.indexOf(';');
+    const code = commentStart >= 0 ? text.substring(0, commentStart) : text;
+    if (commentStart >= 0) {
+        parsed.comment = { text: text.substring(commentStart), start: commentStart, end: text.length };
+    }
+
+    let pos = skipWhitespace(code, 0);
+
+    // Label (name followed by a colon)
+    const labelMatch = /^([A-Za-z_][A-Za-z0-9_.]*)\s*:/.exec(code.substring(pos));
+    if (labelMatch) {
+        parsed.label = { text: labelMatch[1], start: pos, end: pos + labelMatch[1].length };
+        pos = skipWhitespace(code, pos + labelMatch[0].length);
+    }
+
+    const first = readIdentifier(code, pos);
+    if (!first) {
+        return parsed;
+    }
+    pos = skipWhitespace(code, first.end);
+
+    // "name EQU value" / "name MEM size" form
+    const second = readIdentifier(code, pos);
+    if (second && isDirective(second.text) && !isDirective(first.text)) {
+        parsed.isDirective = true;
+        parsed.declaredName = first;
+        parsed.opcode = second;
+        parsed.operands = splitOperands(code, skipWhitespace(code, second.end));
+        return parsed;
+    }
+
+    parsed.opcode = first;
+    if (isDirective(first.text)) {
+        // "EQU name value" / "MEM name size" form
+        parsed.isDirective = true;
+        if (second) {
+            parsed.declaredName = second;
+            parsed.operands = splitOperands(code, skipWhitespace(code, second.end));
+        }
+        return parsed;
+    }
+
+    parsed.operands = splitOperands(code, pos);
+    return parsed;
+}
+
+/**
+ * Find the operand index that contains (or is being typed at) a column.
+ * Returns -1 when the column is on or before the opcode.
+ */
+export function getOperandIndexAt(parsed: ParsedLine, text: string, column: number): number {
+    if (!parsed.opcode || column <= parsed.opcode.end) {
+        return -1;
+    }
+    const start = parsed.declaredName && parsed.declaredName.start > parsed.opcode.start
+        ? parsed.declaredName.end
+        : parsed.opcode.end;
+    const end = parsed.comment ? Math.min(column, parsed.comment.start) : column;
+    let index = 0;
+    for (let i = start; i < end; i++) {
+        if (text[i] === ',') index++;
+    }
+    return index;
+}
+
+/**
+ * Get every identifier on a line other than the opcode itself:
+ * declared EQU/MEM names and labels, and names used inside operands.
+ * MEM suffixes ('#', '^') and '+offset' expressions are not part of the token.
+ */
+export function getLineIdentifiers(text: string): IdentifierToken[] {
+    const parsed = parseLine(text);
+    const identifiers: IdentifierToken[] = [];
+
+    if (parsed.label) identifiers.push({ ...parsed.label, isDeclaration: true });
+    if (parsed.declaredName) identifiers.push({ ...parsed.declaredName, isDeclaration: true });
+
+    for (const operand of parsed.operands) {
+        OPERAND_IDENTIFIER_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = OPERAND_IDENTIFIER_PATTERN.exec(operand.text)) !== null) {
+            const start = operand.start + match.index;
+            identifiers.push({ text: match[0], start, end: start + match[0].length, isDeclaration: false });
+        }
+    }
+
+    return identifiers;
+}
+
+/**
+ * Find the token declaring a name (EQU/MEM name or label) on a source line,
+ * preserving the case it was written in.
+ */
+export function findDeclaration(text: string, name: string): SourceToken | undefined {
+    const parsed = parseLine(text);
+    const upper = name.toUpperCase();
+    if (parsed.declaredName && parsed.declaredName.text.toUpperCase() === upper) return parsed.declaredName;
+    if (parsed.label && parsed.label.text.toUpperCase() === upper) return parsed.label;
+    return undefined;
+}
+
+/**
+ * Evaluate a numeric operand expression such as "0.5", "$FF", "%0101" or "krt * 0.9".
+ * Identifiers are looked up (case-insensitively) in the given symbol values.
+ * Returns undefined when the expression cannot be evaluated.
+ */
+export function evaluateOperand(text: string, symbolValues: Map<string, number>): number | undefined {
+    let unresolved = false;
+    const expression = text
+        .replace(/\$([0-9a-fA-F]+)/g, (_, hex) => parseInt(hex, 16).toString())
+        .replace(/%([01_]+)/g, (_, bin) => parseInt(bin.replace(/_/g, ''), 2).toString())
+        .replace(/\b0x([0-9a-fA-F]+)/gi, (_, hex) => parseInt(hex, 16).toString())
+        .replace(OPERAND_IDENTIFIER_PATTERN, name => {
+            const value = symbolValues.get(name.toUpperCase());
+            if (value === undefined) {
+                unresolved = true;
+                return '0';
+            }
+            return `(${value})`;
+        });
+
+    // Only allow plain arithmetic once symbols have been substituted
+    if (unresolved || !/^[\d+\-*/().\seE|&]+$/.test(expression)) {
+        return undefined;
+    }
+
+    try {
+        const result = Function(`"use strict"; return (${expression})`)();
+        return typeof result === 'number' && isFinite(result) ? result : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Check whether a word is an opcode, directive or predefined name and
+ * therefore cannot be used as a user symbol
+ */
+export function isReservedWord(word: string): boolean {
+    const upper = word.toUpperCase();
+    return upper in HARDWARE_REGISTERS
+        || Object.hasOwn(FV1_INSTRUCTIONS, word.toLowerCase())
+        || DIRECTIVES.includes(upper)
+        || CHO_LFOS.includes(upper)
+        || CHO_TYPES.includes(upper)
+        || CHO_FLAGS.includes(upper)
+        || SKP_FLAGS.includes(upper);
+}
+
+function isDirective(word: string): boolean {
+    return DIRECTIVES.includes(word.toUpperCase());
+}
+
+function skipWhitespace(text: string, pos: number): number {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+    return pos;
+}
+
+function readIdentifier(text: string, pos: number): SourceToken | undefined {
+    IDENTIFIER_PATTERN.lastIndex = pos;
+    const match = IDENTIFIER_PATTERN.exec(text);
+    if (!match) return undefined;
+    return { text: match[0], start: pos, end: pos + match[0].length };
+}
+
+function splitOperands(code: string, pos: number): SourceToken[] {
+    const operands: SourceToken[] = [];
+    if (pos >= code.length || code.substring(pos).trim() === '') {
+        return operands;
+    }
+
+    let segmentStart = pos;
+    for (let i = pos; i <= code.length; i++) {
+        if (i === code.length || code[i] === ',') {
+            const raw = code.substring(segmentStart, i);
+            const leading = raw.length - raw.trimStart().length;
+            const trimmed = raw.trim();
+            operands.push({ text: trimmed, start: segmentStart + leading, end: segmentStart + leading + trimmed.length });
+            segmentStart = i + 1;
+        }
+    }
+    return operands;
+}
@@ -3,6 +3,9 @@ import { OutputService } from './services/OutputService.js';
 import { AssemblyService } from './services/AssemblyService.js';
 import { ProgrammerService } from './services/ProgrammerService.js';
 import { StatusBarService } from './services/StatusBarService.js';
+import { ProgramCounterDecorationService } from './services/ProgramCounterDecorationService.js';
+import { UnreachableCodeDecorationService } from './services/UnreachableCodeDecorationService.js';
+import { MemoryLayoutService } from './services/MemoryLayoutService.js';
 import { CommandRegistry } from './services/CommandRegistry.js';
 import { FV1DocumentManager } from './core/fv1DocumentManager.js';
 import { BlockDiagramDocumentManager } from './blockDiagram/BlockDiagramDocumentManager.js';
@@ -13,7 +16,20 @@ import { SpnBankEditorProvider } from './providers/SpnBankEditorProvider.js';
 import { BlockDiagramEditorProvider } from './blockDiagram/editor/BlockDiagramEditorProvider.js';
 import { FV1HoverProvider } from './providers/fv1HoverProvider.js';
 import { FV1DefinitionProvider } from './providers/fv1DefinitionProvider.js';
+import { FV1CompletionProvider } from './providers/fv1CompletionProvider.js';
+import { FV1ReferenceProvider } from './providers/fv1ReferenceProvider.js';
+import { FV1RenameProvider } from './providers/fv1RenameProvider.js';
+import { FV1DocumentSymbolProvider } from './providers/fv1DocumentSymbolProvider.js';
+import { FV1SignatureHelpProvider } from './providers/fv1SignatureHelpProvider.js';
+import { FV1InlayHintsProvider } from './providers/fv1InlayHintsProvider.js';
+import { FV1CodeActionProvider } from './providers/fv1CodeActionProvider.js';
+import { FV1FormattingProvider } from './providers/fv1FormattingProvider.js';
+import { FV1SemanticTokensProvider } from './providers/fv1SemanticTokensProvider.js';
+import { FV1CodeLensProvider } from './providers/fv1CodeLensProvider.js';
+import { FV1WorkspaceSymbolProvider } from './providers/fv1WorkspaceSymbolProvider.js';
 import { IntelHexService } from './services/IntelHexService.js';
+import { DisassemblyService } from './services/DisassemblyService.js';
+import { RenderService } from './services/RenderService.js';
 import { FV1DebugSession } from './simulator/FV1DebugSession.js';
 import { FV1AudioEngine } from './simulator/FV1AudioEngine.js';
 import { FV1DebugConfigurationProvider } from './providers/FV1DebugConfigurationProvider.js';
@@ -44,13 +60,21 @@ export function activate(context: vscode.ExtensionContext) {
     const assemblyService = new AssemblyService(outputService, fv1DocumentManager, blockDiagramDocumentManager);
     const programmerService = new ProgrammerService(outputService, assemblyService);
     const intelHexService = new IntelHexService(outputService, programmerService, assemblyService);
+    const disassemblyService = new DisassemblyService(outputService, programmerService);
     const statusBarService = new StatusBarService(fv1DocumentManager, blockDiagramDocumentManager);
     context.subscriptions.push(statusBarService);
+    const programCounterDecorationService = new ProgramCounterDecorationService(fv1DocumentManager);
+    context.subscriptions.push(programCounterDecorationService);
+    const unreachableCodeDecorationService = new UnreachableCodeDecorationService(fv1DocumentManager);
+    context.subscriptions.push(unreachableCodeDecorationService);
+    const memoryLayoutService = new MemoryLayoutService(fv1DocumentManager, blockDiagramDocumentManager);
+    context.subscriptions.push(memoryLayoutService);
 
     const fv1AudioEngine = new FV1AudioEngine();
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider('fv1Monitor', fv1AudioEngine)
     );
+    const renderService = new RenderService(outputService, assemblyService, fv1AudioEngine);
 
     context.subscriptions.push(
         vscode.debug.registerDebugConfigurationProvider('fv1-debug', new FV1DebugConfigurationProvider(assemblyService))
@@ -79,6 +103,13 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.workspace.registerTextDocumentContentProvider('fv1-assembly', new AssemblyDocumentProvider(blockDiagramDocumentManager))
     );
 
+    // Register virtual document provider for "View Expanded Source" (includes and macros expanded)
+    const expandedSourceProvider = new ExpandedSourceDocumentProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        expandedSourceProvider,
+        vscode.workspace.registerTextDocumentContentProvider('fv1-expanded', expandedSourceProvider)
+    );
+
     const assemblerSelector = [
         { language: 'fv1-assembly', scheme: 'file' },
         { language: 'fv1-assembly', scheme: 'fv1-assembly' }
@@ -92,11 +123,72 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.languages.registerDefinitionProvider(assemblerSelector, new FV1DefinitionProvider(fv1DocumentManager))
     );
 
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(assemblerSelector, new FV1CompletionProvider(fv1DocumentManager), ',', ' ')
+    );
+
+    const referenceProvider = new FV1ReferenceProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        vscode.languages.registerReferenceProvider(assemblerSelector, referenceProvider),
+        vscode.languages.registerDocumentHighlightProvider(assemblerSelector, referenceProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerRenameProvider(assemblerSelector, new FV1RenameProvider(fv1DocumentManager))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider(assemblerSelector, new FV1DocumentSymbolProvider(fv1DocumentManager))
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerSignatureHelpProvider(assemblerSelector, new FV1SignatureHelpProvider(), {
+            triggerCharacters: [' ', ','],
+            retriggerCharacters: [',']
+        })
+    );
+
+    const inlayHintsProvider = new FV1InlayHintsProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        inlayHintsProvider,
+        vscode.languages.registerInlayHintsProvider(assemblerSelector, inlayHintsProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.languages.registerCodeActionsProvider(assemblerSelector, new FV1CodeActionProvider(fv1DocumentManager), {
+            providedCodeActionKinds: FV1CodeActionProvider.providedCodeActionKinds
+        })
+    );
+
+    const formattingProvider = new FV1FormattingProvider();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(assemblerSelector, formattingProvider),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(assemblerSelector, formattingProvider)
+    );
+
+    const semanticTokensProvider = new FV1SemanticTokensProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        semanticTokensProvider,
+        vscode.languages.registerDocumentSemanticTokensProvider(assemblerSelector, semanticTokensProvider, FV1SemanticTokensProvider.legend)
+    );
+
+    const codeLensProvider = new FV1CodeLensProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider(assemblerSelector, codeLensProvider)
+    );
+
+    const workspaceSymbolProvider = new FV1WorkspaceSymbolProvider(fv1DocumentManager);
+    context.subscriptions.push(
+        workspaceSymbolProvider,
+        vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider)
+    );
+
     context.subscriptions.push(SpnBankEditorProvider.register(context));
     context.subscriptions.push(BlockDiagramEditorProvider.register(context, blockDiagramDocumentManager));
 
     // 5. Register Commands
-    const commandRegistry = new CommandRegistry(context, outputService, assemblyService, programmerService, intelHexService, blockDiagramDocumentManager);
+    const commandRegistry = new CommandRegistry(context, outputService, assemblyService, programmerService, intelHexService, blockDiagramDocumentManager, memoryLayoutService, disassemblyService, renderService);
     commandRegistry.registerCommands();
 
     // 6. Handle Configuration Changes
@@ -110,6 +202,9 @@ export function activate(context: vscode.ExtensionContext) {
 
             fv1DocumentManager.refreshAll();
             statusBarService.update(vscode.window.activeTextEditor?.document);
+            programCounterDecorationService.updateAll();
+            unreachableCodeDecorationService.updateAll();
+            memoryLayoutService.update();
         }
     });
 
@@ -118,6 +213,22 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.workspace.onDidCloseTextDocument(doc => fv1DocumentManager.onDocumentClose(doc));
     vscode.workspace.onDidChangeTextDocument(e => fv1DocumentManager.onDocumentChange(e.document));
 
+    // UTF-16 files without a BOM (as saved by the SpinASM IDE) open as text full of NUL characters.
+    // Only files shown in an editor are checked (not those opened in the background), once each.
+    const utf16Warned = new Set<string>();
+    const warnIfUtf16 = (editors: readonly vscode.TextEditor[]) => {
+        for (const { document: doc } of editors) {
+            if (doc.languageId !== 'fv1-assembly' || doc.uri.scheme !== 'file' || utf16Warned.has(doc.uri.toString())) continue;
+            if (!doc.getText().includes('\u0000')) continue;
+            utf16Warned.add(doc.uri.toString());
+            vscode.window.showWarningMessage(`${vscode.workspace.asRelativePath(doc.uri)} appears to be UTF-16 encoded.`, 'Convert to UTF-8').then(choice => {
+                if (choice) vscode.commands.executeCommand('fv1.convertToUtf8', doc.uri);
+            });
+        }
+    };
+    vscode.window.onDidChangeVisibleTextEditors(warnIfUtf16);
+    warnIfUtf16(vscode.window.visibleTextEditors);
+
     // Initial status bar update
     statusBarService.update(vscode.window.activeTextEditor?.document);
 }
@@ -166,3 +277,38 @@ class AssemblyDocumentProvider implements vscode.TextDocumentContentProvider {
         return result?.assembly || '; No assembly available - please open the block diagram first';
     }
 }
+
+class ExpandedSourceDocumentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(private documentManager: FV1DocumentManager) {
+        // Refresh the expanded view whenever its program is re-assembled
+        this.subscriptions.push(
+            this.documentManager.addChangeListener((uri) => {
+                if (uri.scheme !== 'file') return;
+                // The virtual URI is fv1-expanded:path/to/program.spn.expanded.spn
+                this._onDidChange.fire(vscode.Uri.from({
+                    scheme: 'fv1-expanded',
+                    path: uri.fsPath + '.expanded.spn'
+                }));
+            })
+        );
+    }
+
+    dispose() {
+        this.subscriptions.forEach(s => s.dispose());
+        this._onDidChange.dispose();
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const sourceUri = vscode.Uri.file(uri.path.replace(/\.expanded\.spn$/, ''));
+        try {
+            const document = await vscode.workspace.openTextDocument(sourceUri);
+            return this.documentManager.getExpandedSource(document);
+        } catch {
+            return `; Cannot open ${sourceUri.fsPath}`;
+        }
+    }
+}
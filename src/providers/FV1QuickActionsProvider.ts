@@ -56,6 +56,16 @@ export class FV1QuickActionsProvider implements vscode.TreeDataProvider<QuickAct
                     title: 'Backup Pedal'
                 },
                 new vscode.ThemeIcon('cloud-download')
+            ),
+            new QuickAction(
+                'Import Pedal as Project',
+                'Disassemble every program on your pedal into a new bank',
+                vscode.TreeItemCollapsibleState.None,
+                {
+                    command: 'fv1.importPedalBackup',
+                    title: 'Import Pedal as Project'
+                },
+                new vscode.ThemeIcon('repo-pull')
             )
         ];
 
@@ -0,0 +1,209 @@
+/**
+ * FV-1 Assembly Code Action Provider
+ * Quick fixes for common assembler problems
+ */
+
+import * as vscode from 'vscode';
+import { decodeProgram } from '../core/fv1Decoder.js';
+import { FV1_INSTRUCTIONS } from '../core/fv1InstructionDocs.js';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import type { SourceMappedResult } from '../core/fv1Preprocessor.js';
+import { clampToRange, findOutOfRangeOperands, type ProblemCode } from '../core/fv1ProblemClassifier.js';
+import { DIRECTIVES, getOperandIndexAt, getOperandKinds, parseLine } from '../core/fv1Syntax.js';
+
+const DEFAULT_MEM_SIZE = 1024;
+
+export class FV1CodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private documentManager: FV1DocumentManager;
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    /**
+     * Provide quick fixes for the diagnostics in range, and for out of range operands on the current line
+     */
+    provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+        const result = this.documentManager.getAssemblyResult(document);
+        const symbolValues = this.documentManager.getSymbolValues(result);
+
+        // Out of range operands are fixable whether or not the assembler reported them (clampReals hides them)
+        const lineText = document.lineAt(range.start.line).text;
+        for (const operand of findOutOfRangeOperands(parseLine(lineText), symbolValues)) {
+            const replacement = clampToRange(operand.value, operand.range);
+            const action = new vscode.CodeAction(`Clamp ${operand.token.text} to ${replacement}`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, new vscode.Range(range.start.line, operand.token.start, range.start.line, operand.token.end), replacement);
+            action.diagnostics = context.diagnostics.filter(d => d.code === 'out-of-range' && d.range.start.line === range.start.line);
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'fv1-assembler') continue;
+
+            switch (diagnostic.code as ProblemCode) {
+                case 'unknown-opcode':
+                    actions.push(...this.createOpcodeFixes(document, diagnostic));
+                    break;
+                case 'undefined-symbol':
+                    actions.push(...this.createDeclarationFixes(document, diagnostic, result));
+                    break;
+                case 'delay-overflow': {
+                    const action = this.createShrinkMemFix(document, diagnostic, result);
+                    if (action) actions.push(action);
+                    break;
+                }
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * Replace a misspelled opcode with the closest known ones
+     */
+    private createOpcodeFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const typed = document.getText(diagnostic.range);
+        const upperCase = typed === typed.toUpperCase();
+        const candidates = [...Object.keys(FV1_INSTRUCTIONS), ...DIRECTIVES.map(d => d.toLowerCase())]
+            .map(opcode => ({ opcode, distance: levenshtein(typed.toLowerCase(), opcode) }))
+            .filter(c => c.distance <= Math.max(1, Math.floor(typed.length / 2)))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, 3);
+
+        return candidates.map((candidate, index) => {
+            const replacement = upperCase ? candidate.opcode.toUpperCase() : candidate.opcode;
+            const action = new vscode.CodeAction(`Change to '${replacement}'`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, diagnostic.range, replacement);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = index === 0;
+            return action;
+        });
+    }
+
+    /**
+     * Declare an undefined name as an EQU or MEM, depending on where it is used
+     */
+    private createDeclarationFixes(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, result: SourceMappedResult): vscode.CodeAction[] {
+        const name = document.getText(diagnostic.range);
+        const lineText = document.lineAt(diagnostic.range.start.line).text;
+        const parsed = parseLine(lineText);
+        const index = getOperandIndexAt(parsed, lineText, diagnostic.range.start.character);
+        const kind = parsed.opcode && !parsed.isDirective
+            ? getOperandKinds(parsed.opcode.text, parsed.operands.map(o => o.text))?.[index]
+            : undefined;
+
+        const actions: vscode.CodeAction[] = [];
+        const addDeclaration = (title: string, directive: string, value: string, preferred: boolean) => {
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            const line = this.findDeclarationInsertLine(document, directive);
+            action.edit.insert(document.uri, new vscode.Position(line, 0), `${directive}\t${name}\t${value}\n`);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = preferred;
+            actions.push(action);
+        };
+
+        if (kind === 'delay') {
+            addDeclaration(`Declare '${name}' as MEM (${DEFAULT_MEM_SIZE} samples)`, 'mem', DEFAULT_MEM_SIZE.toString(), true);
+        } else if (kind === 'register') {
+            const register = this.findFreeRegister(result);
+            if (register !== undefined) {
+                addDeclaration(`Declare '${name}' as EQU reg${register}`, 'equ', `reg${register}`, true);
+            }
+        } else if (kind !== 'skipTarget') {
+            addDeclaration(`Declare '${name}' as EQU constant`, 'equ', '0', true);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Reduce a MEM block so the program fits in the configured delay RAM
+     */
+    private createShrinkMemFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, result: SourceMappedResult): vscode.CodeAction | undefined {
+        const config = vscode.workspace.getConfiguration('fv1');
+        const delaySize = config.get<number>('hardware.delaySize') ?? 32768;
+        const memBug = config.get<boolean>('spinAsmMemBug') ?? true;
+
+        const memories = result.memories ?? [];
+        const used = memories.reduce((total, mem) => total + mem.size + (memBug ? 1 : 0), 0);
+        const overflow = used - delaySize;
+
+        const line = diagnostic.range.start.line;
+        const lineText = document.lineAt(line).text;
+        const parsed = parseLine(lineText);
+        const sizeToken = parsed.operands[0];
+        const memory = memories.find(m => m.line === line + 1 && !m.file);
+        if (overflow <= 0 || !sizeToken || !memory || memory.size - overflow < 1) {
+            return undefined;
+        }
+
+        const newSize = memory.size - overflow;
+        const action = new vscode.CodeAction(`Shrink '${parsed.declaredName?.text ?? memory.name}' to ${newSize} samples to fit delay RAM`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, new vscode.Range(line, sizeToken.start, line, sizeToken.end), newSize.toString());
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    /**
+     * Insert new declarations after the last existing declaration of the same kind
+     */
+    private findDeclarationInsertLine(document: vscode.TextDocument, directive: string): number {
+        let lastSame = -1;
+        let lastAny = -1;
+        for (let line = 0; line < document.lineCount; line++) {
+            const parsed = parseLine(document.lineAt(line).text);
+            if (!parsed.isDirective) continue;
+            lastAny = line;
+            if (parsed.opcode!.text.toLowerCase() === directive) lastSame = line;
+        }
+        return (lastSame >= 0 ? lastSame : lastAny) + 1;
+    }
+
+    /**
+     * Lowest REGn that the program neither uses directly nor aliases with an EQU
+     */
+    private findFreeRegister(result: SourceMappedResult): number | undefined {
+        const regCount = vscode.workspace.getConfiguration('fv1').get<number>('hardware.regCount') ?? 32;
+        const used = new Set<number>();
+        for (const instruction of decodeProgram(result.machineCode ?? [], result.addressToLineMap?.size ?? 0)) {
+            if (instruction.register !== undefined && instruction.register >= 0x20) used.add(instruction.register - 0x20);
+        }
+        for (const symbol of result.symbols ?? []) {
+            if (symbol.line === undefined) continue;
+            const match = /^REG(\d+)$/i.exec(String(symbol.original ?? symbol.value).trim());
+            if (match) used.add(parseInt(match[1], 10));
+        }
+        for (let i = 0; i < regCount; i++) {
+            if (!used.has(i)) return i;
+        }
+        return undefined;
+    }
+}
+
+function levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
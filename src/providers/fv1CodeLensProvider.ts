@@ -0,0 +1,59 @@
+/**
+ * FV-1 Assembly CodeLens Provider
+ * Shows the remaining program budget above each label and marks the instruction
+ * at which the program outgrows program memory
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+
+export class FV1CodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private documentManager: FV1DocumentManager;
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+        // Budgets change when a document is re-assembled with a different program size
+        this.subscriptions.push(this.documentManager.addChangeListener(() => this._onDidChangeCodeLenses.fire()));
+    }
+
+    dispose() {
+        this.subscriptions.forEach(s => s.dispose());
+        this._onDidChangeCodeLenses.dispose();
+    }
+
+    provideCodeLenses(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.CodeLens[]> {
+        const result = this.documentManager.getAssemblyResult(document);
+        if (!result.addressToLineMap) {
+            return undefined;
+        }
+
+        const progSize = vscode.workspace.getConfiguration('fv1').get<number>('hardware.progSize') ?? 128;
+        const lenses: vscode.CodeLens[] = [];
+
+        for (const [, info] of result.labels ?? []) {
+            if (info.line === undefined || info.file || info.line > document.lineCount) continue;
+            const pc: number = info.instructionLine;
+            const title = pc < progSize
+                ? `PC ${pc} · ${progSize - pc} of ${progSize} instructions left`
+                : `PC ${pc} · ${pc - progSize + 1} over the ${progSize}-instruction budget`;
+            lenses.push(new vscode.CodeLens(document.lineAt(info.line - 1).range, { title, command: '' }));
+        }
+
+        const firstOver = (result.addressToLineMap as Map<number, number>).get(progSize);
+        if (firstOver !== undefined && firstOver <= document.lineCount) {
+            const total = result.addressToLineMap.size;
+            lenses.push(new vscode.CodeLens(document.lineAt(firstOver - 1).range, {
+                title: `⚠ Program memory full: instructions from here on (PC ${progSize}-${total - 1}) exceed the ${progSize}-instruction budget`,
+                command: ''
+            }));
+        }
+
+        return lenses;
+    }
+}
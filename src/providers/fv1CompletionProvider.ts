@@ -0,0 +1,237 @@
+/**
+ * FV-1 Assembly Completion Provider
+ * Provides completions for opcodes, directives, registers and user symbols
+ */
+
+import * as vscode from 'vscode';
+import { FV1_INSTRUCTIONS, type InstructionDoc } from '../core/fv1InstructionDocs.js';
+import { FV1DocumentManager, type FV1Symbol } from '../core/fv1DocumentManager.js';
+import {
+    HARDWARE_REGISTERS, SIN_LFOS, RMP_LFOS, CHO_LFOS, CHO_TYPES, CHO_FLAGS, SKP_FLAGS,
+    getOperandKinds, getOperandIndexAt, parseLine, type OperandKind
+} from '../core/fv1Syntax.js';
+
+export class FV1CompletionProvider implements vscode.CompletionItemProvider {
+    private documentManager: FV1DocumentManager;
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    /**
+     * Provide completion items valid at the current position
+     */
+    provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.CompletionContext
+    ): vscode.ProviderResult<vscode.CompletionItem[]> {
+        const lineText = document.lineAt(position.line).text;
+        const parsed = parseLine(lineText);
+
+        // Nothing to offer inside comments
+        if (parsed.comment && position.character > parsed.comment.start) {
+            return undefined;
+        }
+
+        const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_][a-zA-Z0-9_]*/);
+        const typed = wordRange ? document.getText(wordRange.with({ end: position })) : '';
+        const upperCase = typed.length > 0 && typed === typed.toUpperCase() && /[A-Z]/.test(typed);
+
+        const operandIndex = getOperandIndexAt(parsed, lineText, position.character);
+        if (operandIndex < 0) {
+            // Typing a space in leading whitespace should not pop up the opcode list
+            if (context.triggerKind === vscode.CompletionTriggerKind.TriggerCharacter) {
+                return undefined;
+            }
+            return this.getOpcodeCompletions(upperCase);
+        }
+
+        if (parsed.isDirective) {
+            // Declared names are free-form; only the value can reference other symbols
+            if (parsed.declaredName && position.character <= parsed.declaredName.end) {
+                return undefined;
+            }
+            return this.getOperandCompletions('coefficient', document, upperCase);
+        }
+
+        const kinds = getOperandKinds(parsed.opcode!.text, parsed.operands.map(o => o.text));
+        if (!kinds || operandIndex >= kinds.length) {
+            return undefined;
+        }
+
+        return this.getOperandCompletions(kinds[operandIndex], document, upperCase);
+    }
+
+    /**
+     * Opcode and directive snippets, used at the start of a line
+     */
+    private getOpcodeCompletions(upperCase: boolean): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+
+        for (const [mnemonic, doc] of Object.entries(FV1_INSTRUCTIONS)) {
+            if (mnemonic === 'cho') {
+                for (const type of CHO_TYPES) {
+                    items.push(this.createChoCompletion(type, doc, upperCase));
+                }
+                continue;
+            }
+
+            const label = applyCase(mnemonic, upperCase);
+            const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Keyword);
+            item.detail = doc.syntax;
+            item.documentation = this.createDocumentation(doc);
+            item.insertText = new vscode.SnippetString(label + this.createOperandSnippet(mnemonic, doc, upperCase));
+            items.push(item);
+        }
+
+        for (const [directive, valueName] of [['equ', 'value'], ['mem', 'size']]) {
+            const label = applyCase(directive, upperCase);
+            const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Keyword);
+            item.detail = `${directive.toUpperCase()} name ${valueName}`;
+            item.insertText = new vscode.SnippetString(`${label}\t\${1:name}\t\${2:${valueName}}`);
+            items.push(item);
+        }
+
+        return items;
+    }
+
+    /**
+     * Build the operand part of an opcode snippet from the documented syntax
+     */
+    private createOperandSnippet(mnemonic: string, doc: InstructionDoc, upperCase: boolean): string {
+        const kinds = getOperandKinds(mnemonic) ?? [];
+        if (kinds.length === 0) {
+            return '';
+        }
+
+        const names = doc.syntax.replace(/^\S+\s*/, '').replace(/[\[\]]/g, '').split(',').map(n => n.trim());
+        const placeholders = kinds.map((kind, i) => createPlaceholder(i + 1, kind, names[i] ?? kind, upperCase));
+        return '\t' + placeholders.join(', ');
+    }
+
+    private createChoCompletion(type: string, doc: InstructionDoc, upperCase: boolean): vscode.CompletionItem {
+        const label = applyCase(`cho ${type.toLowerCase()}`, upperCase);
+        const kinds = getOperandKinds('cho', [type]).slice(1);
+        const names = ['lfo', 'flags', type === 'SOF' ? 'offset' : 'addr'];
+        const placeholders = kinds.map((kind, i) => createPlaceholder(i + 1, kind, names[i], upperCase));
+
+        const item = new vscode.CompletionItem(label, vscode.CompletionItemKind.Keyword);
+        item.detail = `CHO ${type}, ${names.slice(0, kinds.length).join(', ')}`;
+        item.documentation = this.createDocumentation(doc);
+        item.insertText = new vscode.SnippetString(label.replace(' ', '\t') + ', ' + placeholders.join(', '));
+        return item;
+    }
+
+    private createDocumentation(doc: InstructionDoc): vscode.MarkdownString {
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`${doc.description}\n\n`);
+        if (doc.operands) {
+            markdown.appendMarkdown(`**Operands:** ${doc.operands}`);
+        }
+        return markdown;
+    }
+
+    /**
+     * Completions valid for a particular operand kind
+     */
+    private getOperandCompletions(kind: OperandKind, document: vscode.TextDocument, upperCase: boolean): vscode.CompletionItem[] {
+        switch (kind) {
+            case 'register':
+                return [
+                    ...this.getSymbolCompletions(document, ['equ']),
+                    ...Object.keys(HARDWARE_REGISTERS).map(name => this.createConstantCompletion(name, upperCase, 'Hardware register', vscode.CompletionItemKind.Variable))
+                ];
+            case 'delay':
+                return [
+                    ...this.getMemoryCompletions(document),
+                    ...this.getSymbolCompletions(document, ['equ'])
+                ];
+            case 'coefficient':
+            case 'offset':
+            case 'mask':
+            case 'frequency':
+            case 'amplitude':
+                return this.getSymbolCompletions(document, ['equ']);
+            case 'skipTarget':
+                return this.getSymbolCompletions(document, ['label']);
+            case 'skipFlags':
+                return SKP_FLAGS.map(name => this.createConstantCompletion(name, upperCase, 'Skip condition'));
+            case 'sinLfo':
+                return SIN_LFOS.map(name => this.createConstantCompletion(name, upperCase, 'Sine LFO'));
+            case 'rmpLfo':
+                return RMP_LFOS.map(name => this.createConstantCompletion(name, upperCase, 'Ramp LFO'));
+            case 'lfo':
+                return CHO_LFOS.map(name => this.createConstantCompletion(name, upperCase, 'LFO'));
+            case 'choType':
+                return CHO_TYPES.map(name => this.createConstantCompletion(name, upperCase, 'CHO mode'));
+            case 'choFlags':
+                return CHO_FLAGS.map(name => this.createConstantCompletion(name, upperCase, 'CHO flag'));
+        }
+    }
+
+    private getUserSymbols(document: vscode.TextDocument): FV1Symbol[] {
+        // Predefined symbols have no source line; those are offered from HARDWARE_REGISTERS instead
+        return this.documentManager.getSymbols(document).filter(s => s.line !== undefined);
+    }
+
+    private getSymbolCompletions(document: vscode.TextDocument, kinds: FV1Symbol['kind'][]): vscode.CompletionItem[] {
+        return this.getUserSymbols(document)
+            .filter(symbol => kinds.includes(symbol.kind))
+            .map(symbol => {
+                const itemKind = symbol.kind === 'label' ? vscode.CompletionItemKind.Reference : vscode.CompletionItemKind.Constant;
+                const item = new vscode.CompletionItem(symbol.declaredName ?? symbol.name, itemKind);
+                item.detail = symbol.original ?? symbol.value;
+                return item;
+            });
+    }
+
+    /**
+     * MEM blocks, offered as the block start along with its '#' (end) and '^' (middle) forms
+     */
+    private getMemoryCompletions(document: vscode.TextDocument): vscode.CompletionItem[] {
+        const items: vscode.CompletionItem[] = [];
+        for (const symbol of this.getUserSymbols(document).filter(s => s.kind === 'mem')) {
+            const name = symbol.declaredName ?? symbol.name;
+            for (const [suffix, detail] of [['', 'start'], ['#', 'end'], ['^', 'middle']]) {
+                const item = new vscode.CompletionItem(name + suffix, vscode.CompletionItemKind.Field);
+                item.detail = `Delay memory ${detail} - ${symbol.value}`;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    private createConstantCompletion(
+        name: string,
+        upperCase: boolean,
+        detail: string,
+        kind: vscode.CompletionItemKind = vscode.CompletionItemKind.EnumMember
+    ): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(applyCase(name, upperCase), kind);
+        item.detail = detail;
+        return item;
+    }
+}
+
+/**
+ * Build a snippet placeholder, using a choice list where the operand is an enumeration
+ */
+function createPlaceholder(index: number, kind: OperandKind, name: string, upperCase: boolean): string {
+    const choices: Partial<Record<OperandKind, string[]>> = {
+        sinLfo: SIN_LFOS,
+        rmpLfo: RMP_LFOS,
+        lfo: CHO_LFOS,
+        skipFlags: SKP_FLAGS
+    };
+    const options = choices[kind];
+    if (options) {
+        return `\${${index}|${options.map(o => applyCase(o, upperCase)).join(',')}|}`;
+    }
+    return `\${${index}:${name}}`;
+}
+
+function applyCase(text: string, upperCase: boolean): string {
+    return upperCase ? text.toUpperCase() : text.toLowerCase();
+}
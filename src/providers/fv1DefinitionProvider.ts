@@ -5,6 +5,7 @@
 
 import * as vscode from 'vscode';
 import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { findMacroBlocks, parseIncludeDirective, resolveIncludePath } from '../core/fv1Preprocessor.js';
 
 export class FV1DefinitionProvider implements vscode.DefinitionProvider {
     private documentManager: FV1DocumentManager;
@@ -21,6 +22,13 @@ export class FV1DefinitionProvider implements vscode.DefinitionProvider {
         position: vscode.Position,
         token: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.Definition> {
+        // An include directive's path opens the included file
+        const include = parseIncludeDirective(document.lineAt(position.line).text);
+        if (include && position.character >= include.start && position.character <= include.end) {
+            const target = resolveIncludePath(include.path, document.uri.fsPath);
+            return new vscode.Location(vscode.Uri.file(target), new vscode.Position(0, 0));
+        }
+
         // Get the word at the current position
         const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_][a-zA-Z0-9_\\.^#]*/);
         if (!wordRange) {
@@ -30,6 +38,12 @@ export class FV1DefinitionProvider implements vscode.DefinitionProvider {
         const word = document.getText(wordRange);
         const wordLower = word.toLowerCase();
 
+        // A macro invocation goes to the macro definition
+        const macro = findMacroBlocks(document.getText()).find(m => m.name.toLowerCase() === wordLower);
+        if (macro) {
+            return new vscode.Location(document.uri, new vscode.Position(macro.startLine, 0));
+        }
+
         console.log(`[Definition] Looking up definition for: "${word}"`);
 
         // Get symbols from document manager
@@ -51,7 +65,8 @@ export class FV1DefinitionProvider implements vscode.DefinitionProvider {
             // Line numbers from assembler are 1-based, VS Code uses 0-based
             const line = Math.max(0, symbol.line - 1);
             const position = new vscode.Position(line, 0);
-            const location = new vscode.Location(document.uri, position);
+            const uri = symbol.file ? vscode.Uri.file(symbol.file) : document.uri;
+            const location = new vscode.Location(uri, position);
 
             return location;
         }
@@ -0,0 +1,170 @@
+/**
+ * FV-1 Assembly Document Symbol Provider
+ * Populates the Outline and breadcrumbs with EQUs, MEM blocks, macros, labels and skp-delimited code sections
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager, type FV1Symbol } from '../core/fv1DocumentManager.js';
+import { findMacroBlocks, parseIncludeDirective, type MacroBlock } from '../core/fv1Preprocessor.js';
+import { findDeclaration, parseLine } from '../core/fv1Syntax.js';
+
+export class FV1DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    private documentManager: FV1DocumentManager;
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    /**
+     * Provide the symbol tree for a document
+     */
+    provideDocumentSymbols(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+        const result = this.documentManager.getAssemblyResult(document);
+        // Only symbols declared in this document; included files have their own outline
+        const symbols = this.documentManager.getSymbols(document).filter(s => s.line !== undefined && !s.file);
+        const outline: vscode.DocumentSymbol[] = [];
+
+        const equs = symbols
+            .filter(s => s.kind === 'equ')
+            .map(s => this.createSymbol(document, s, vscode.SymbolKind.Constant, s.original && s.original !== s.value ? `${s.original} (${s.value})` : s.value));
+        if (equs.length > 0) {
+            outline.push(this.createGroup('EQU', `${equs.length} equates`, equs));
+        }
+
+        const mems = (result.memories ?? [])
+            .filter(m => m.line !== undefined && !m.file)
+            .map(m => this.createSymbol(
+                document,
+                { name: m.name, value: '', kind: 'mem', line: m.line },
+                vscode.SymbolKind.Array,
+                `size ${m.size}, ${m.start ?? 0}-${m.end ?? 0}`
+            ));
+        if (mems.length > 0) {
+            outline.push(this.createGroup('MEM', `${mems.length} delay blocks`, mems));
+        }
+
+        const macroBlocks = findMacroBlocks(document.getText());
+        const macros = macroBlocks.map(block => new vscode.DocumentSymbol(
+            block.name,
+            block.params.join(', '),
+            vscode.SymbolKind.Function,
+            new vscode.Range(block.startLine, 0, block.endLine, document.lineAt(block.endLine).text.length),
+            document.lineAt(block.startLine).range
+        ));
+        if (macros.length > 0) {
+            outline.push(this.createGroup('MACRO', `${macros.length} macros`, macros));
+        }
+
+        const labels = new Map<number, vscode.DocumentSymbol>();
+        if (result.labels) {
+            for (const [name, info] of result.labels.entries()) {
+                if (info.line === undefined || info.file) continue;
+                const symbol = this.createSymbol(document, { name, value: '', kind: 'label', line: info.line }, vscode.SymbolKind.Key, `PC ${info.instructionLine}`);
+                labels.set(info.line - 1, symbol);
+            }
+        }
+
+        outline.push(...this.createSections(document, labels, macroBlocks, result.addressToLineMap));
+        return outline;
+    }
+
+    /**
+     * Split the program into sections at each skp instruction.
+     * Labels become children of the section they fall in; macro definitions are not part of the program.
+     * PCs come from the assembled program, as macro invocations and includes expand to several instructions.
+     * @param addressToLineMap Program address to 1-based line, or undefined when the program did not assemble
+     */
+    private createSections(
+        document: vscode.TextDocument,
+        labels: Map<number, vscode.DocumentSymbol>,
+        macroBlocks: MacroBlock[],
+        addressToLineMap: Map<number, number> | undefined
+    ): vscode.DocumentSymbol[] {
+        interface Section { name: string; startLine: number; endLine: number; startPc: number; endPc: number; children: vscode.DocumentSymbol[] }
+
+        // First and last PC of the code each line (0-based) assembles to
+        const linePcs = new Map<number, { first: number; last: number }>();
+        for (const [addr, line] of addressToLineMap ?? []) {
+            const pcs = linePcs.get(line - 1);
+            if (pcs) {
+                pcs.first = Math.min(pcs.first, addr);
+                pcs.last = Math.max(pcs.last, addr);
+            } else {
+                linePcs.set(line - 1, { first: addr, last: addr });
+            }
+        }
+
+        const sections: Section[] = [];
+        let current: Section | undefined;
+        let pc = 0;
+
+        for (let line = 0; line < document.lineCount; line++) {
+            if (macroBlocks.some(block => line >= block.startLine && line <= block.endLine)) continue;
+            const text = document.lineAt(line).text;
+            const parsed = parseLine(text);
+            const pcs = addressToLineMap ? linePcs.get(line) : undefined;
+            const isInstruction = addressToLineMap
+                ? pcs !== undefined
+                : parsed.opcode !== undefined && !parsed.isDirective && !parseIncludeDirective(text);
+            const isSkip = isInstruction && parsed.opcode?.text.toLowerCase() === 'skp';
+            const startPc = pcs?.first ?? pc;
+            if (isInstruction && (!current || isSkip)) {
+                const name = isSkip ? text.substring(parsed.opcode!.start, parsed.comment?.start ?? text.length).trim().replace(/\s+/g, ' ') : 'Program start';
+                current = { name, startLine: line, endLine: line, startPc, endPc: startPc, children: [] };
+                sections.push(current);
+            }
+
+            const label = labels.get(line);
+            if (label) {
+                if (current) {
+                    current.children.push(label);
+                    current.endLine = line;
+                } else {
+                    // Label ahead of the first instruction starts the first section
+                    current = { name: 'Program start', startLine: line, endLine: line, startPc: pc, endPc: pc, children: [label] };
+                    sections.push(current);
+                }
+            }
+
+            if (isInstruction) {
+                current!.endLine = line;
+                current!.endPc = pcs?.last ?? pc;
+                pc = current!.endPc + 1;
+            }
+        }
+
+        return sections.map(section => {
+            const range = new vscode.Range(section.startLine, 0, section.endLine, document.lineAt(section.endLine).text.length);
+            const symbol = new vscode.DocumentSymbol(
+                section.name,
+                `PC ${section.startPc}-${section.endPc}`,
+                vscode.SymbolKind.Namespace,
+                range,
+                document.lineAt(section.startLine).range
+            );
+            symbol.children = section.children;
+            return symbol;
+        });
+    }
+
+    private createSymbol(document: vscode.TextDocument, symbol: FV1Symbol, kind: vscode.SymbolKind, detail: string): vscode.DocumentSymbol {
+        const line = Math.min(Math.max(0, symbol.line! - 1), document.lineCount - 1);
+        const lineRange = document.lineAt(line).range;
+        const declaration = findDeclaration(document.lineAt(line).text, symbol.name);
+        const selectionRange = declaration ? new vscode.Range(line, declaration.start, line, declaration.end) : lineRange;
+        return new vscode.DocumentSymbol(declaration?.text ?? symbol.name, detail, kind, lineRange, selectionRange);
+    }
+
+    /**
+     * Group a set of declarations under one parent spanning all of them
+     */
+    private createGroup(name: string, detail: string, children: vscode.DocumentSymbol[]): vscode.DocumentSymbol {
+        const range = children.reduce((r, c) => r.union(c.range), children[0].range);
+        const group = new vscode.DocumentSymbol(name, detail, vscode.SymbolKind.Namespace, range, children[0].selectionRange);
+        group.children = children;
+        return group;
+    }
+}
@@ -0,0 +1,59 @@
+/**
+ * FV-1 Assembly Formatting Provider
+ * Formats whole documents or selected lines using the fv1.format.* settings
+ */
+
+import * as vscode from 'vscode';
+import { formatLine, type CaseStyle, type FormatOptions } from '../core/fv1Formatter.js';
+
+export class FV1FormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return this.formatLines(document, 0, document.lineCount - 1, options);
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return this.formatLines(document, range.start.line, range.end.line, options);
+    }
+
+    /**
+     * Produce one edit per line that changes
+     */
+    private formatLines(document: vscode.TextDocument, startLine: number, endLine: number, options: vscode.FormattingOptions): vscode.TextEdit[] {
+        const formatOptions = this.getFormatOptions(options);
+        const edits: vscode.TextEdit[] = [];
+
+        for (let line = startLine; line <= endLine; line++) {
+            const textLine = document.lineAt(line);
+            const formatted = formatLine(textLine.text, formatOptions);
+            if (formatted !== textLine.text) {
+                edits.push(vscode.TextEdit.replace(textLine.range, formatted));
+            }
+        }
+
+        return edits;
+    }
+
+    private getFormatOptions(options: vscode.FormattingOptions): FormatOptions {
+        const config = vscode.workspace.getConfiguration('fv1');
+        return {
+            opcodeColumn: config.get<number>('format.opcodeColumn') ?? 0,
+            operandColumn: config.get<number>('format.operandColumn') ?? 8,
+            commentColumn: config.get<number>('format.commentColumn') ?? 40,
+            opcodeCase: config.get<CaseStyle>('format.opcodeCase') ?? 'lower',
+            registerCase: config.get<CaseStyle>('format.registerCase') ?? 'lower',
+            spaceAfterComma: config.get<boolean>('format.spaceAfterComma') ?? true,
+            useTabs: !options.insertSpaces,
+            tabSize: options.tabSize
+        };
+    }
+}
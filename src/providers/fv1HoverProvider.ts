@@ -1,11 +1,15 @@
 /**
  * FV-1 Assembly Hover Provider
- * Provides hover tooltips for instructions and symbols
+ * Provides hover tooltips for instructions and symbols. Hovering an instruction also shows
+ * the worst-case range of ACC at that line.
  */
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { getInstructionDoc } from '../core/fv1InstructionDocs.js';
 import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { analyzeAccumulator, formatInterval } from '../core/fv1AccAnalysis.js';
+import { decodeProgram } from '../core/fv1Decoder.js';
 
 export class FV1HoverProvider implements vscode.HoverProvider {
     private documentManager: FV1DocumentManager;
@@ -47,6 +51,11 @@ export class FV1HoverProvider implements vscode.HoverProvider {
                 markdown.appendCodeblock(instructionDoc.example, 'fv1-assembly');
             }
 
+            const accRange = this.getAccRange(document, position.line);
+            if (accRange) {
+                markdown.appendMarkdown(`\n\n**ACC:** ${accRange}`);
+            }
+
             return new vscode.Hover(markdown, wordRange);
         }
 
@@ -54,9 +63,9 @@ export class FV1HoverProvider implements vscode.HoverProvider {
         const symbols = this.documentManager.getSymbols(document);
 
         // Build symbol lookup map
-        const symbolMap = new Map<string, { value: string; original: string }>();
+        const symbolMap = new Map<string, { value: string; original: string; file?: string; line?: number }>();
         for (const symbol of symbols) {
-            symbolMap.set(symbol.name.toLowerCase(), { value: symbol.value, original: symbol.original });
+            symbolMap.set(symbol.name.toLowerCase(), { value: symbol.value, original: symbol.original, file: symbol.file, line: symbol.line });
         }
 
         // Check if it's a symbol
@@ -75,6 +84,10 @@ export class FV1HoverProvider implements vscode.HoverProvider {
                 markdown.appendMarkdown(`\n\n**Defined as:** \`${symbolValue.original}\``);
             }
             markdown.appendMarkdown(`\n\n**Value:** \`${symbolValue.value}\``);
+            if (symbolValue.file) {
+                const target = vscode.Uri.file(symbolValue.file).with({ fragment: `L${symbolValue.line}` });
+                markdown.appendMarkdown(`\n\n**Declared in:** [${path.basename(symbolValue.file)}:${symbolValue.line}](${target.toString()})`);
+            }
 
             // Try to evaluate numeric expressions
             try {
@@ -98,6 +111,35 @@ export class FV1HoverProvider implements vscode.HoverProvider {
         return undefined;
     }
 
+    /**
+     * The range of ACC going into and coming out of the instructions on a line, given
+     * ADC inputs in -1..1 and pots in 0..1
+     */
+    private getAccRange(document: vscode.TextDocument, line: number): string | undefined {
+        const result = this.documentManager.getAssemblyResult(document);
+        if (!result.machineCode || !result.addressToLineMap || result.problems?.some(p => p.isfatal)) {
+            return undefined;
+        }
+
+        // A macro invocation or include line can stand for several instructions
+        const addresses = [...(result.addressToLineMap as Map<number, number>)]
+            .filter(([, sourceLine]) => sourceLine === line + 1)
+            .map(([addr]) => addr);
+        if (addresses.length === 0) {
+            return undefined;
+        }
+
+        const ranges = analyzeAccumulator(decodeProgram(result.machineCode, result.addressToLineMap.size));
+        const first = ranges[addresses[0]];
+        const last = ranges[addresses[addresses.length - 1]];
+        if (!first || !last) {
+            return undefined;
+        }
+
+        const saturates = addresses.some(addr => ranges[addr].saturates);
+        return `${formatInterval(first.before)} → ${formatInterval(last.after)}${saturates ? ' ⚠ may saturate' : ''}`;
+    }
+
     /**
      * Simple expression evaluator for numeric values
      */
@@ -0,0 +1,133 @@
+/**
+ * FV-1 Assembly Inlay Hints Provider
+ * Shows resolved register indices, delay addresses and coefficients as they are actually encoded
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { decodeInstruction, type DecodedInstruction, type DecodedReal } from '../core/fv1Decoder.js';
+import { quantize } from '../core/fv1Encoding.js';
+import { HARDWARE_REGISTERS, evaluateOperand, getOperandKinds, parseLine, type OperandKind } from '../core/fv1Syntax.js';
+
+const REGISTER_NAMES = new Map(Object.entries(HARDWARE_REGISTERS).map(([name, addr]) => [addr, name]));
+
+export class FV1InlayHintsProvider implements vscode.InlayHintsProvider, vscode.Disposable {
+    private documentManager: FV1DocumentManager;
+    private _onDidChangeInlayHints = new vscode.EventEmitter<void>();
+    readonly onDidChangeInlayHints = this._onDidChangeInlayHints.event;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+        // Re-query hints when a document is re-assembled (e.g. after a configuration change)
+        this.subscriptions.push(this.documentManager.addChangeListener(() => this._onDidChangeInlayHints.fire()));
+    }
+
+    dispose() {
+        this.subscriptions.forEach(s => s.dispose());
+        this._onDidChangeInlayHints.dispose();
+    }
+
+    /**
+     * Provide one hint at the end of each instruction line in the visible range
+     */
+    provideInlayHints(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.InlayHint[]> {
+        const result = this.documentManager.getAssemblyResult(document);
+        if (!result.machineCode || !result.addressToLineMap || result.problems?.some(p => p.isfatal)) {
+            return undefined;
+        }
+
+        const symbolValues = this.documentManager.getSymbolValues(result);
+
+        const hints: vscode.InlayHint[] = [];
+        for (const [addr, sourceLine] of result.addressToLineMap as Map<number, number>) {
+            const line = sourceLine - 1;
+            // Instructions from included files and macros are mapped onto their include or invocation line;
+            // they have no operands here to annotate
+            const origin = result.addressToSourceMap?.get(addr);
+            if (origin && (origin.file !== document.uri.fsPath || origin.macro)) {
+                continue;
+            }
+            if (line < range.start.line || line > range.end.line || line >= document.lineCount) {
+                continue;
+            }
+
+            const lineText = document.lineAt(line).text;
+            const parsed = parseLine(lineText);
+            if (!parsed.opcode) {
+                continue;
+            }
+
+            const decoded = decodeInstruction(result.machineCode[addr]);
+            const { label, clampWarnings } = this.describe(decoded, addr, parsed.opcode.text, parsed.operands.map(o => o.text), symbolValues);
+            if (!label) {
+                continue;
+            }
+
+            const codeEnd = (parsed.comment ? lineText.substring(0, parsed.comment.start) : lineText).trimEnd().length;
+            const hint = new vscode.InlayHint(new vscode.Position(line, codeEnd), clampWarnings.length > 0 ? `${label} ⚠` : label);
+            hint.paddingLeft = true;
+
+            const tooltip = new vscode.MarkdownString(`PC ${addr} - \`0x${decoded.word.toString(16).toUpperCase().padStart(8, '0')}\``);
+            for (const warning of clampWarnings) {
+                tooltip.appendMarkdown(`\n\n⚠ ${warning}`);
+            }
+            hint.tooltip = tooltip;
+            hints.push(hint);
+        }
+
+        return hints;
+    }
+
+    /**
+     * Build the hint text for a decoded instruction, and note any operand that was clamped to fit its format
+     */
+    private describe(
+        decoded: DecodedInstruction,
+        addr: number,
+        opcode: string,
+        operands: string[],
+        symbolValues: Map<string, number>
+    ): { label: string; clampWarnings: string[] } {
+        const parts: string[] = [];
+        const clampWarnings: string[] = [];
+
+        if (decoded.register !== undefined) {
+            parts.push(`${REGISTER_NAMES.get(decoded.register) ?? `R${decoded.register}`} (0x${decoded.register.toString(16).toUpperCase().padStart(2, '0')})`);
+        }
+        if (decoded.address !== undefined) {
+            parts.push(`@${decoded.address}`);
+        }
+        if (decoded.mask !== undefined) {
+            parts.push(`$${decoded.mask.toString(16).toUpperCase().padStart(6, '0')}`);
+        }
+        if (decoded.skip !== undefined) {
+            parts.push(`→ PC ${addr + decoded.skip + 1}`);
+        }
+        if (decoded.frequency !== undefined) {
+            parts.push(`f=${decoded.frequency}, amp=${decoded.amplitude}`);
+        }
+
+        const kinds = getOperandKinds(opcode, operands) ?? [];
+        for (const [real, kind, name] of [[decoded.coefficient, 'coefficient', 'C'], [decoded.offset, 'offset', 'D']] as [DecodedReal | undefined, OperandKind, string][]) {
+            if (!real) continue;
+            parts.push(`${name}=${formatValue(real.value)} ${real.format}`);
+
+            const index = kinds.indexOf(kind);
+            const source = index >= 0 && index < operands.length ? evaluateOperand(operands[index], symbolValues) : undefined;
+            if (source !== undefined && quantize(source, real.format).clamped) {
+                clampWarnings.push(`${name} = ${formatValue(source)} is outside the ${real.format} range and was clamped to ${formatValue(real.value)}`);
+            }
+        }
+
+        return { label: parts.join(', '), clampWarnings };
+    }
+}
+
+function formatValue(value: number): string {
+    return parseFloat(value.toFixed(6)).toString();
+}
@@ -0,0 +1,55 @@
+/**
+ * FV-1 Assembly Reference Provider
+ * Provides "Find All References" and occurrence highlighting for EQU, MEM and label symbols
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { findSymbolReferences, getSymbolAtPosition } from '../core/fv1SymbolReferences.js';
+
+export class FV1ReferenceProvider implements vscode.ReferenceProvider, vscode.DocumentHighlightProvider {
+    private documentManager: FV1DocumentManager;
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    /**
+     * Provide every location a symbol is used
+     */
+    provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Location[]> {
+        const target = getSymbolAtPosition(this.documentManager, document, position);
+        if (!target) {
+            return undefined;
+        }
+
+        return findSymbolReferences(document, target.symbol)
+            .filter(ref => context.includeDeclaration || !ref.isDeclaration)
+            .map(ref => new vscode.Location(document.uri, ref.range));
+    }
+
+    /**
+     * Highlight all occurrences of the symbol under the cursor.
+     * The declaration is shown as a write, uses as reads.
+     */
+    provideDocumentHighlights(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.DocumentHighlight[]> {
+        const target = getSymbolAtPosition(this.documentManager, document, position);
+        if (!target) {
+            return undefined;
+        }
+
+        return findSymbolReferences(document, target.symbol).map(ref => new vscode.DocumentHighlight(
+            ref.range,
+            ref.isDeclaration ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read
+        ));
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * FV-1 Assembly Rename Provider
+ * Renames EQU, MEM and label symbols along with all of their uses
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { findSymbolReferences, getSymbolAtPosition } from '../core/fv1SymbolReferences.js';
+import { isReservedWord } from '../core/fv1Syntax.js';
+
+export class FV1RenameProvider implements vscode.RenameProvider {
+    private documentManager: FV1DocumentManager;
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+    }
+
+    /**
+     * Check that the cursor is on a renameable symbol and return the range to edit
+     */
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.Range | { range: vscode.Range; placeholder: string }> {
+        const target = getSymbolAtPosition(this.documentManager, document, position);
+        if (!target) {
+            throw new Error('Only EQU, MEM and label symbols can be renamed');
+        }
+        if (target.symbol.file) {
+            throw new Error(`'${target.symbol.name}' is declared in the included file ${path.basename(target.symbol.file)}; rename it there`);
+        }
+        const includers = this.documentManager.getIncludingDocuments(document);
+        if (includers.length > 0) {
+            const names = includers.map(d => path.basename(d.uri.fsPath)).join(', ');
+            throw new Error(`${path.basename(document.uri.fsPath)} is included by ${names}; renaming '${target.symbol.name}' here would break ${includers.length === 1 ? 'it' : 'them'}`);
+        }
+
+        return { range: target.range, placeholder: document.getText(target.range) };
+    }
+
+    /**
+     * Rename a symbol and every reference to it.
+     * Only the name is replaced, so '#', '^' and '+offset' forms keep their suffix.
+     */
+    provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.WorkspaceEdit> {
+        const target = getSymbolAtPosition(this.documentManager, document, position);
+        if (!target || target.symbol.file || this.documentManager.getIncludingDocuments(document).length > 0) {
+            return undefined;
+        }
+
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName)) {
+            throw new Error(`'${newName}' is not a valid symbol name`);
+        }
+        if (isReservedWord(newName)) {
+            throw new Error(`'${newName}' is a reserved opcode or register name`);
+        }
+
+        const newNameUpper = newName.toUpperCase();
+        const clash = this.documentManager.getSymbols(document).find(s =>
+            s.name.toUpperCase() === newNameUpper && s.name.toUpperCase() !== target.symbol.name.toUpperCase()
+        );
+        if (clash) {
+            throw new Error(`A symbol named '${clash.name}' already exists`);
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        for (const ref of findSymbolReferences(document, target.symbol)) {
+            edit.replace(document.uri, ref.range, newName);
+        }
+        return edit;
+    }
+}
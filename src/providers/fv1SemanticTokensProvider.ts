@@ -0,0 +1,170 @@
+/**
+ * FV-1 Assembly Semantic Tokens Provider
+ * Colors identifiers by what the assembler resolved them to: register aliases, constants,
+ * delay lines, labels, hardware registers and names that are not defined anywhere.
+ * Macro names and parameters are colored from the macro definitions in the document.
+ */
+
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { findMacroBlocks, parseIncludeDirective, type MacroBlock, type SourceMappedResult } from '../core/fv1Preprocessor.js';
+import { HARDWARE_REGISTERS, getLineIdentifiers, getOperandKinds, isReservedWord, parseLine } from '../core/fv1Syntax.js';
+
+const TOKEN_TYPES = ['register', 'variable', 'delayLine', 'label', 'unresolvedSymbol', 'macro', 'parameter'];
+const TOKEN_MODIFIERS = ['declaration', 'readonly', 'defaultLibrary'];
+
+export class FV1SemanticTokensProvider implements vscode.DocumentSemanticTokensProvider, vscode.Disposable {
+    public static readonly legend = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+    private documentManager: FV1DocumentManager;
+    private _onDidChangeSemanticTokens = new vscode.EventEmitter<void>();
+    readonly onDidChangeSemanticTokens = this._onDidChangeSemanticTokens.event;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+        // Symbols can change meaning when a document is re-assembled with different settings
+        this.subscriptions.push(this.documentManager.addChangeListener(() => this._onDidChangeSemanticTokens.fire()));
+    }
+
+    dispose() {
+        this.subscriptions.forEach(s => s.dispose());
+        this._onDidChangeSemanticTokens.dispose();
+    }
+
+    provideDocumentSemanticTokens(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.SemanticTokens> {
+        const result = this.documentManager.getAssemblyResult(document);
+        const labels = new Set<string>([...(result.labels?.keys() ?? [])].map(name => name.toUpperCase()));
+        const memories = new Set<string>((result.memories ?? []).map(m => m.name.toUpperCase()));
+        const registerAliases = this.findRegisterAliases(document, result.symbols ?? []);
+        const constants = new Set<string>((result.symbols ?? [])
+            .filter(s => s.line !== undefined && !registerAliases.has(s.name.toUpperCase()))
+            .map(s => s.name.toUpperCase()));
+
+        const macroBlocks = findMacroBlocks(document.getText());
+        const macroNames = new Set<string>(macroBlocks.map(block => block.name.toUpperCase()));
+
+        const builder = new vscode.SemanticTokensBuilder(FV1SemanticTokensProvider.legend);
+        for (let line = 0; line < document.lineCount; line++) {
+            const text = document.lineAt(line).text;
+            if (parseIncludeDirective(text)) continue;
+
+            const block = macroBlocks.find(b => line >= b.startLine && line <= b.endLine);
+            if (block && line === block.startLine) {
+                this.pushMacroDefinition(builder, line, text, block);
+                continue;
+            }
+            const params = new Set<string>((block?.params ?? []).map(p => p.toUpperCase()));
+            const localLabels = block ? this.findLocalLabels(document, block) : new Set<string>();
+
+            const parsed = parseLine(text);
+            if (parsed.opcode && macroNames.has(parsed.opcode.text.toUpperCase())) {
+                builder.push(new vscode.Range(line, parsed.opcode.start, line, parsed.opcode.end), 'macro', []);
+            }
+
+            for (const identifier of getLineIdentifiers(text)) {
+                const upper = identifier.text.toUpperCase();
+                const modifiers = identifier.isDeclaration ? ['declaration'] : [];
+                let end = identifier.end;
+                let type: string;
+
+                if (params.has(upper)) {
+                    type = 'parameter';
+                } else if (labels.has(upper) || localLabels.has(upper)) {
+                    type = 'label';
+                } else if (memories.has(upper)) {
+                    type = 'delayLine';
+                    // Include the '#' (end) or '^' (middle) suffix
+                    if (text[end] === '#' || text[end] === '^') end++;
+                } else if (registerAliases.has(upper)) {
+                    type = 'register';
+                } else if (constants.has(upper)) {
+                    type = 'variable';
+                    modifiers.push('readonly');
+                } else if (upper in HARDWARE_REGISTERS) {
+                    type = 'register';
+                    modifiers.push('defaultLibrary');
+                } else if (isReservedWord(identifier.text)) {
+                    // Flags, LFO names and CHO modes are left to the grammar
+                    continue;
+                } else {
+                    type = 'unresolvedSymbol';
+                }
+
+                builder.push(new vscode.Range(line, identifier.start, line, end), type, modifiers);
+            }
+        }
+
+        return builder.build();
+    }
+
+    /**
+     * Tokens for a `macro name param1, param2` line
+     */
+    private pushMacroDefinition(builder: vscode.SemanticTokensBuilder, line: number, text: string, block: MacroBlock) {
+        const code = text.split(';')[0];
+        const pattern = /[A-Za-z_][A-Za-z0-9_]*/g;
+        let match: RegExpExecArray | null;
+        let index = 0;
+        while ((match = pattern.exec(code)) !== null) {
+            // The first word is the macro keyword, then the macro name, then its parameters
+            if (index === 1) {
+                builder.push(new vscode.Range(line, match.index, line, match.index + match[0].length), 'macro', ['declaration']);
+            } else if (index > 1 && block.params.includes(match[0])) {
+                builder.push(new vscode.Range(line, match.index, line, match.index + match[0].length), 'parameter', ['declaration']);
+            }
+            index++;
+        }
+    }
+
+    /**
+     * Upper case names of the labels declared inside a macro body
+     */
+    private findLocalLabels(document: vscode.TextDocument, block: MacroBlock): Set<string> {
+        const labels = new Set<string>();
+        for (let line = block.startLine + 1; line < block.endLine; line++) {
+            const label = parseLine(document.lineAt(line).text).label;
+            if (label) labels.add(label.text.toUpperCase());
+        }
+        return labels;
+    }
+
+    /**
+     * Upper case names of EQUs that stand for registers: those defined as a register
+     * (directly or through another alias) and those used where a register is expected
+     */
+    private findRegisterAliases(document: vscode.TextDocument, symbols: SourceMappedResult['symbols']): Set<string> {
+        const definitions = new Map<string, string>();
+        for (const symbol of symbols) {
+            if (symbol.line !== undefined) {
+                definitions.set(symbol.name.toUpperCase(), String(symbol.original ?? symbol.value).trim().toUpperCase());
+            }
+        }
+
+        const aliases = new Set<string>();
+        const isRegister = (name: string, depth: number): boolean => {
+            if (name in HARDWARE_REGISTERS) return true;
+            const definition = definitions.get(name);
+            return definition !== undefined && depth < 8 && isRegister(definition, depth + 1);
+        };
+        for (const name of definitions.keys()) {
+            if (isRegister(name, 0)) aliases.add(name);
+        }
+
+        for (let line = 0; line < document.lineCount; line++) {
+            const parsed = parseLine(document.lineAt(line).text);
+            if (!parsed.opcode || parsed.isDirective) continue;
+
+            const kinds = getOperandKinds(parsed.opcode.text, parsed.operands.map(o => o.text)) ?? [];
+            parsed.operands.forEach((operand, index) => {
+                const upper = operand.text.toUpperCase();
+                if (kinds[index] === 'register' && definitions.has(upper)) aliases.add(upper);
+            });
+        }
+
+        return aliases;
+    }
+}
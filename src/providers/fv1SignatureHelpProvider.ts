@@ -0,0 +1,175 @@
+/**
+ * FV-1 Assembly Signature Help Provider
+ * Shows operand order and legal ranges while an instruction is being typed
+ */
+
+import * as vscode from 'vscode';
+import { getInstructionDoc, type InstructionDoc } from '../core/fv1InstructionDocs.js';
+import { describeRange, getOperandRange } from '../core/fv1Encoding.js';
+import { CHO_TYPES, getOperandIndexAt, parseLine } from '../core/fv1Syntax.js';
+
+const SKP_FLAG_DOCS = [
+    '`RUN` - skip on every sample except the first',
+    '`ZRC` - skip on a zero crossing (sign of ACC differs from PACC)',
+    '`ZRO` - skip if ACC is zero',
+    '`GEZ` - skip if ACC is greater than or equal to zero',
+    '`NEG` - skip if ACC is negative',
+    '',
+    'Combine flags with `|`, e.g. `RUN|GEZ`'
+].join('\n\n');
+
+const CHO_FLAG_DOCS = [
+    '`SIN` - use the sine output (default)',
+    '`COS` - use the cosine output',
+    '`REG` - latch the LFO value for the following CHO instructions',
+    '`COMPC` - complement the coefficient (1 - C)',
+    '`COMPA` - complement the address offset',
+    '`RPTR2` - use the second ramp pointer, half a cycle out of phase',
+    '`NA` - ignore the address offset and use the crossfade coefficient',
+    '',
+    'Combine flags with `|`; a typical chorus pair is `REG|COMPC` followed by `0`'
+].join('\n\n');
+
+const CHO_SIGNATURES: Record<string, { label: string; parameters: string[] }> = {
+    RDA: { label: 'CHO RDA, lfo, flags, addr', parameters: ['RDA', 'lfo', 'flags', 'addr'] },
+    SOF: { label: 'CHO SOF, lfo, flags, D', parameters: ['SOF', 'lfo', 'flags', 'D'] },
+    RDAL: { label: 'CHO RDAL, lfo, flags', parameters: ['RDAL', 'lfo', 'flags'] }
+};
+
+const CHO_PARAMETER_DOCS: Record<string, string> = {
+    lfo: 'LFO to use: `SIN0`, `SIN1`, `RMP0`, `RMP1` (or `COS0`/`COS1`)',
+    addr: 'Delay memory address, offset by the LFO',
+    D: 'Offset added after scaling ACC by the LFO value'
+};
+
+export class FV1SignatureHelpProvider implements vscode.SignatureHelpProvider {
+
+    /**
+     * Provide signature help for the instruction on the current line
+     */
+    provideSignatureHelp(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken,
+        context: vscode.SignatureHelpContext
+    ): vscode.ProviderResult<vscode.SignatureHelp> {
+        const lineText = document.lineAt(position.line).text;
+        const parsed = parseLine(lineText);
+        if (!parsed.opcode || parsed.isDirective) {
+            return undefined;
+        }
+        if (parsed.comment && position.character > parsed.comment.start) {
+            return undefined;
+        }
+
+        const activeParameter = getOperandIndexAt(parsed, lineText, position.character);
+        if (activeParameter < 0) {
+            return undefined;
+        }
+
+        const opcode = parsed.opcode.text.toLowerCase();
+        const doc = getInstructionDoc(opcode);
+        if (!doc) {
+            return undefined;
+        }
+
+        const operands = parsed.operands.map(o => o.text);
+        const help = new vscode.SignatureHelp();
+
+        if (opcode === 'cho') {
+            const type = (operands[0] ?? '').toUpperCase();
+            for (const choType of CHO_TYPES) {
+                help.signatures.push(this.createChoSignature(choType, doc));
+            }
+            help.activeSignature = Math.max(0, CHO_TYPES.indexOf(type));
+        } else {
+            help.signatures.push(this.createSignature(opcode, doc, operands));
+            help.activeSignature = 0;
+        }
+
+        help.activeParameter = activeParameter;
+        return help;
+    }
+
+    /**
+     * Build a signature from the documented syntax, e.g. "RDAX addr, C"
+     */
+    private createSignature(opcode: string, doc: InstructionDoc, operands: string[]): vscode.SignatureInformation {
+        const signature = new vscode.SignatureInformation(doc.syntax, new vscode.MarkdownString(doc.description));
+        const names = doc.syntax.replace(/^\S+\s*/, '').split(',').map(n => n.trim()).filter(n => n.length > 0);
+        const descriptions = parseOperandDescriptions(doc.operands);
+
+        let searchFrom = doc.syntax.indexOf(' ');
+        names.forEach((name, index) => {
+            const start = doc.syntax.indexOf(name, searchFrom);
+            searchFrom = start + name.length;
+
+            const markdown = new vscode.MarkdownString();
+            if (opcode === 'skp' && index === 0) {
+                markdown.appendMarkdown(SKP_FLAG_DOCS);
+            } else if (descriptions.has(name.toLowerCase())) {
+                markdown.appendMarkdown(descriptions.get(name.toLowerCase())!);
+            }
+
+            const range = getOperandRange(opcode, operands, index);
+            if (range) {
+                markdown.appendMarkdown(`\n\n**Range:** ${describeRange(range)}`);
+            }
+
+            signature.parameters.push(new vscode.ParameterInformation([start, start + name.length], markdown));
+        });
+
+        return signature;
+    }
+
+    /**
+     * Build one of the CHO RDA / SOF / RDAL signatures
+     */
+    private createChoSignature(type: string, doc: InstructionDoc): vscode.SignatureInformation {
+        const { label, parameters } = CHO_SIGNATURES[type];
+        const signature = new vscode.SignatureInformation(label, new vscode.MarkdownString(doc.description));
+
+        let searchFrom = label.indexOf(' ');
+        parameters.forEach((name, index) => {
+            const start = label.indexOf(name, searchFrom);
+            searchFrom = start + name.length;
+
+            const markdown = new vscode.MarkdownString();
+            if (index === 0) {
+                markdown.appendMarkdown('CHO mode: `RDA`, `SOF` or `RDAL`');
+            } else if (name === 'flags') {
+                markdown.appendMarkdown(CHO_FLAG_DOCS);
+            } else {
+                markdown.appendMarkdown(CHO_PARAMETER_DOCS[name]);
+            }
+
+            const range = index > 1 ? getOperandRange('cho', [type], index) : undefined;
+            if (range && name !== 'flags') {
+                markdown.appendMarkdown(`\n\n**Range:** ${describeRange(range)}`);
+            }
+
+            signature.parameters.push(new vscode.ParameterInformation([start, start + name.length], markdown));
+        });
+
+        return signature;
+    }
+}
+
+/**
+ * Split an InstructionDoc operands string ("addr: Register address; C: Coefficient")
+ * into a map of operand name to description
+ */
+function parseOperandDescriptions(operands: string | undefined): Map<string, string> {
+    const descriptions = new Map<string, string>();
+    if (!operands) {
+        return descriptions;
+    }
+
+    for (const segment of operands.split(/;\s*|,\s*(?=\w+:)/)) {
+        const match = /^\s*(\w+):\s*(.*)$/.exec(segment);
+        if (match) {
+            descriptions.set(match[1].toLowerCase(), match[2].trim());
+        }
+    }
+    return descriptions;
+}
@@ -0,0 +1,158 @@
+/**
+ * FV-1 Workspace Symbol Provider
+ * Indexes EQU, MEM and label symbols in every .spn file, and block types and names
+ * from .atl front-matter, so they can be found with Go to Symbol in Workspace
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import type { SourceMappedResult } from '../core/fv1Preprocessor.js';
+import { findDeclaration } from '../core/fv1Syntax.js';
+import { decodeSource } from '../core/fv1SourceEncoding.js';
+
+const FILE_PATTERN = '**/*.{spn,atl}';
+const EXCLUDE_PATTERN = '**/node_modules/**';
+
+export class FV1WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider, vscode.Disposable {
+    private documentManager: FV1DocumentManager;
+    private index: Map<string, vscode.SymbolInformation[]> = new Map();
+    private indexing: Promise<void> | undefined;
+    private subscriptions: vscode.Disposable[] = [];
+
+    constructor(documentManager: FV1DocumentManager) {
+        this.documentManager = documentManager;
+
+        const watcher = vscode.workspace.createFileSystemWatcher(FILE_PATTERN);
+        this.subscriptions.push(
+            watcher,
+            watcher.onDidCreate(uri => this.indexFile(uri)),
+            watcher.onDidChange(uri => this.indexFile(uri)),
+            watcher.onDidDelete(uri => this.index.delete(uri.toString())),
+            // Open documents are indexed from their (possibly unsaved) text each time they are re-assembled
+            this.documentManager.addChangeListener(uri => {
+                const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+                if (document && document.uri.scheme === 'file') {
+                    this.index.set(uri.toString(), this.indexAssembly(uri, document.getText(), this.documentManager.getAssemblyResult(document)));
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                // Assembler options affect which symbols a program defines
+                if (e.affectsConfiguration('fv1')) {
+                    this.index.clear();
+                    this.indexing = undefined;
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.subscriptions.forEach(s => s.dispose());
+    }
+
+    async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+        if (!this.indexing) {
+            this.indexing = this.indexWorkspace();
+        }
+        await this.indexing;
+
+        const symbols: vscode.SymbolInformation[] = [];
+        for (const fileSymbols of this.index.values()) {
+            symbols.push(...fileSymbols.filter(s => matchesQuery(s.name, query)));
+        }
+        return symbols;
+    }
+
+    private async indexWorkspace(): Promise<void> {
+        const files = await vscode.workspace.findFiles(FILE_PATTERN, EXCLUDE_PATTERN);
+        for (const uri of files) {
+            if (!this.index.has(uri.toString())) {
+                await this.indexFile(uri);
+            }
+        }
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        try {
+            const text = decodeSource(await vscode.workspace.fs.readFile(uri)).text;
+            const symbols = uri.path.toLowerCase().endsWith('.atl')
+                ? this.indexBlock(uri, text)
+                : this.indexAssembly(uri, text, this.documentManager.assembleSource(text, uri.fsPath));
+            this.index.set(uri.toString(), symbols);
+        } catch (error) {
+            this.index.delete(uri.toString());
+        }
+    }
+
+    /**
+     * EQU, MEM and label symbols defined by a program. Symbols from included files are
+     * left to the index entry of the file that declares them.
+     */
+    private indexAssembly(uri: vscode.Uri, text: string, result: SourceMappedResult): vscode.SymbolInformation[] {
+        const lines = text.split(/\r?\n/);
+        const container = path.basename(uri.fsPath);
+        const symbols: vscode.SymbolInformation[] = [];
+
+        const add = (item: { name: string; line?: number; file?: string }, kind: vscode.SymbolKind) => {
+            const { name, line } = item;
+            if (item.file || line === undefined || line < 1 || line > lines.length) return;
+            const declaration = findDeclaration(lines[line - 1], name);
+            const range = declaration
+                ? new vscode.Range(line - 1, declaration.start, line - 1, declaration.end)
+                : new vscode.Range(line - 1, 0, line - 1, lines[line - 1].length);
+            symbols.push(new vscode.SymbolInformation(declaration?.text ?? name, kind, container, new vscode.Location(uri, range)));
+        };
+
+        for (const symbol of result.symbols ?? []) add(symbol, vscode.SymbolKind.Constant);
+        for (const memory of result.memories ?? []) add(memory, vscode.SymbolKind.Array);
+        for (const [name, info] of result.labels ?? []) add({ ...info, name }, vscode.SymbolKind.Key);
+
+        return symbols;
+    }
+
+    /**
+     * Block type and display name from the JSON front-matter of an .atl file
+     */
+    private indexBlock(uri: vscode.Uri, text: string): vscode.SymbolInformation[] {
+        const match = /^---\s*\r?\n([\s\S]*?)\r?\n---/.exec(text);
+        if (!match) {
+            return [];
+        }
+
+        let frontMatter: { type?: string; name?: string; category?: string };
+        try {
+            frontMatter = JSON.parse(match[1]);
+        } catch {
+            return [];
+        }
+
+        const lines = text.split(/\r?\n/);
+        const locate = (key: string): vscode.Location => {
+            const line = lines.findIndex(l => new RegExp(`"${key}"\\s*:`).test(l));
+            return new vscode.Location(uri, new vscode.Position(Math.max(0, line), 0));
+        };
+
+        const symbols: vscode.SymbolInformation[] = [];
+        const container = frontMatter.category ? `${frontMatter.category} block` : 'block';
+        if (typeof frontMatter.name === 'string') {
+            symbols.push(new vscode.SymbolInformation(frontMatter.name, vscode.SymbolKind.Class, container, locate('name')));
+        }
+        if (typeof frontMatter.type === 'string' && frontMatter.type !== frontMatter.name) {
+            symbols.push(new vscode.SymbolInformation(frontMatter.type, vscode.SymbolKind.Class, container, locate('type')));
+        }
+        return symbols;
+    }
+}
+
+/**
+ * Case-insensitive subsequence match, as VS Code applies its own ranking afterwards
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const lowerName = name.toLowerCase();
+    let pos = 0;
+    for (const ch of query.toLowerCase()) {
+        pos = lowerName.indexOf(ch, pos) + 1;
+        if (pos === 0) return false;
+    }
+    return true;
+}
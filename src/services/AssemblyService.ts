@@ -2,9 +2,11 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { FV1Assembler, type FV1AssemblerResult } from '@audiofab-io/fv1-core';
 import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import type { SourceMappedResult } from '../core/fv1Preprocessor.js';
 import { BlockDiagramDocumentManager } from '../blockDiagram/BlockDiagramDocumentManager.js';
 import { OutputService } from './OutputService.js';
 import { getActiveDocumentUri, resolveToUri } from '../core/editor-utils.js';
+import { loadSourceFile } from '../core/fv1SourceEncoding.js';
 
 export class AssemblyService {
     constructor(
@@ -142,7 +144,7 @@ export class AssemblyService {
         return hasErrors;
     }
 
-    public async assembleFile(fsPath: string): Promise<FV1AssemblerResult | undefined> {
+    public async assembleFile(fsPath: string): Promise<SourceMappedResult | undefined> {
         try {
             if (fsPath.toLowerCase().endsWith('.spndiagram')) {
                 const assembly = await this.compileBlockDiagram(fsPath);
@@ -159,8 +161,17 @@ export class AssemblyService {
                 return assembler.assemble(assembly);
             } else {
                 const uri = resolveToUri(fsPath);
-                const document = await vscode.workspace.openTextDocument(uri);
-                return this.fv1DocumentManager.getAssemblyResult(document);
+                const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+                if (document) {
+                    return this.fv1DocumentManager.getAssemblyResult(document);
+                }
+
+                // Files saved by the SpinASM IDE are often UTF-16, which openTextDocument does not detect without a BOM
+                const source = loadSourceFile(uri.fsPath);
+                if (source.encoding === 'utf16le' || source.encoding === 'utf16be') {
+                    this.outputService.log(`[INFO] 📄 ${path.basename(uri.fsPath)} is ${source.encoding === 'utf16le' ? 'UTF-16 LE' : 'UTF-16 BE'} encoded`);
+                }
+                return this.fv1DocumentManager.assembleSource(source.text, uri.fsPath);
             }
         } catch (error) {
             this.outputService.log(`[ERROR] ❌ Error assembling file ${fsPath}: ${error}`);
@@ -6,7 +6,11 @@ import { AssemblyService } from '../services/AssemblyService.js';
 import { ProgrammerService } from '../services/ProgrammerService.js';
 import { BlockDiagramDocumentManager } from '../blockDiagram/BlockDiagramDocumentManager.js';
 import { IntelHexService } from './IntelHexService.js';
+import { MemoryLayoutService } from './MemoryLayoutService.js';
+import { DisassemblyService } from './DisassemblyService.js';
+import { RenderService } from './RenderService.js';
 import { getActiveDocumentUri, resolveToUri } from '../core/editor-utils.js';
+import { decodeSource } from '../core/fv1SourceEncoding.js';
 
 export class CommandRegistry {
     constructor(
@@ -15,7 +19,10 @@ export class CommandRegistry {
         private assemblyService: AssemblyService,
         private programmerService: ProgrammerService,
         private intelHexService: IntelHexService,
-        private blockDiagramDocMgr: BlockDiagramDocumentManager
+        private blockDiagramDocMgr: BlockDiagramDocumentManager,
+        private memoryLayoutService: MemoryLayoutService,
+        private disassemblyService: DisassemblyService,
+        private renderService: RenderService
     ) { }
 
     public registerCommands() {
@@ -49,6 +56,65 @@ export class CommandRegistry {
             }
         });
 
+        this.register('fv1.viewExpandedSource', async (uri?: vscode.Uri) => {
+            const sourceUri = uri ?? getActiveDocumentUri();
+            if (!sourceUri || !sourceUri.fsPath.toLowerCase().endsWith('.spn')) {
+                vscode.window.showErrorMessage('Open an FV-1 assembly (.spn) file to view its expanded source');
+                return;
+            }
+
+            // The virtual URI is fv1-expanded:path/to/program.spn.expanded.spn
+            const expandedUri = vscode.Uri.from({
+                scheme: 'fv1-expanded',
+                path: sourceUri.fsPath + '.expanded.spn'
+            });
+            const doc = await vscode.workspace.openTextDocument(expandedUri);
+            await vscode.window.showTextDocument(doc, {
+                viewColumn: vscode.ViewColumn.Beside,
+                preserveFocus: true,
+                preview: false
+            });
+        });
+
+        this.register('fv1.showMemoryLayout', async (uri?: vscode.Uri) => {
+            const programUri = uri ?? getActiveDocumentUri();
+            const fsPath = programUri?.fsPath.toLowerCase() ?? '';
+            if (!programUri || !(fsPath.endsWith('.spn') || fsPath.endsWith('.spndiagram'))) {
+                vscode.window.showErrorMessage('Open an FV-1 program (.spn or .spndiagram) to show its delay memory layout');
+                return;
+            }
+            await this.memoryLayoutService.show(programUri);
+        });
+
+        this.register('fv1.renderToWav', async (uri?: vscode.Uri) => {
+            await this.renderService.renderToWav(uri);
+        });
+
+        this.register('fv1.convertToUtf8', async (uri?: vscode.Uri) => {
+            const sourceUri = uri ?? getActiveDocumentUri();
+            if (!sourceUri) {
+                vscode.window.showErrorMessage('No file selected to convert');
+                return;
+            }
+
+            const fileName = path.basename(sourceUri.fsPath);
+            const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === sourceUri.toString());
+            if (openDocument?.isDirty) {
+                vscode.window.showWarningMessage(`Save or revert ${fileName} before converting it`);
+                return;
+            }
+
+            const source = decodeSource(await vscode.workspace.fs.readFile(sourceUri));
+            if (source.encoding === 'utf8' || source.encoding === 'utf8bom') {
+                vscode.window.showInformationMessage(`${fileName} is already UTF-8`);
+                return;
+            }
+
+            await vscode.workspace.fs.writeFile(sourceUri, Buffer.from(source.text, 'utf8'));
+            this.outputService.log(`[SUCCESS] ✅ Converted ${fileName} from ${source.encoding === 'utf16le' ? 'UTF-16 LE' : 'UTF-16 BE'} to UTF-8`);
+            vscode.window.showInformationMessage(`Converted ${fileName} to UTF-8`);
+        });
+
         this.register('fv1.createSpnBank', async () => {
             const uris = await vscode.window.showSaveDialog({ filters: { 'Easy Spin Bank': ['spnbank'] }, defaultUri: vscode.Uri.file(path.join(vscode.workspace.workspaceFolders?.[0].uri.fsPath || '.', 'new.spnbank')) });
             if (!uris) return;
@@ -116,6 +182,14 @@ export class CommandRegistry {
             await this.programmerService.loadHexToEeprom();
         });
 
+        this.register('fv1.disassembleHex', async (uri?: vscode.Uri) => {
+            await this.disassemblyService.disassembleHex(uri);
+        });
+
+        this.register('fv1.importPedalBackup', async (uri?: vscode.Uri) => {
+            await this.disassemblyService.importPedalBackup(uri);
+        });
+
         this.register('fv1.startSimulator', async (uriOrString?: vscode.Uri | string, options?: { stopOnEntry?: boolean }) => {
             let programUri: vscode.Uri | undefined;
             if (typeof uriOrString === 'string') {
@@ -0,0 +1,216 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IntelHexParser } from '@audiofab-io/fv1-core';
+import { OutputService } from './OutputService.js';
+import { ProgrammerService } from './ProgrammerService.js';
+import { getActiveDocumentUri } from '../core/editor-utils.js';
+import { disassemble, splitSlots, type HexSlot } from '../core/fv1Disassembler.js';
+
+const FV1_EEPROM_SLOTS = 8;
+
+export class DisassemblyService {
+    constructor(
+        private outputService: OutputService,
+        private programmerService: ProgrammerService
+    ) { }
+
+    /**
+     * Disassemble the programs in an Intel HEX file (a single program or a pedal backup)
+     * into .spn files next to it, one file per slot
+     */
+    public async disassembleHex(uri?: vscode.Uri): Promise<void> {
+        const hexUri = await this.resolveHexFile(uri);
+        if (!hexUri) return;
+
+        try {
+            const slots = this.readHexSlots(hexUri.fsPath);
+            if (!slots) return;
+
+            const programs = slots.filter(s => !s.empty);
+            if (programs.length === 0) {
+                vscode.window.showWarningMessage(`${path.basename(hexUri.fsPath)} contains no programs`);
+                return;
+            }
+
+            let selected = programs;
+            if (programs.length > 1) {
+                const picks = await vscode.window.showQuickPick(
+                    programs.map(s => ({ label: `Slot ${s.slot}`, description: `${countInstructions(s.machineCode)} instructions`, picked: true, slot: s })),
+                    { canPickMany: true, placeHolder: 'Select the slots to disassemble (one .spn file per slot)' }
+                );
+                if (!picks || picks.length === 0) return;
+                selected = picks.map(p => p.slot);
+            }
+
+            const baseName = path.basename(hexUri.fsPath, path.extname(hexUri.fsPath));
+            const outputs = selected.map(s => ({
+                slot: s,
+                fsPath: path.join(path.dirname(hexUri.fsPath), slots.length > 1 ? `${baseName}-slot${s.slot}.spn` : `${baseName}.spn`)
+            }));
+
+            const existing = outputs.filter(o => fs.existsSync(o.fsPath));
+            if (existing.length > 0) {
+                const choice = await vscode.window.showWarningMessage(
+                    `Overwrite ${existing.map(o => path.basename(o.fsPath)).join(', ')}?`,
+                    { modal: true },
+                    'Overwrite'
+                );
+                if (choice !== 'Overwrite') return;
+            }
+
+            for (const output of outputs) {
+                const origin = slots.length > 1 ? `slot ${output.slot.slot} of ${path.basename(hexUri.fsPath)}` : path.basename(hexUri.fsPath);
+                this.writeDisassembly(output.slot, output.fsPath, origin);
+            }
+
+            const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(outputs[0].fsPath));
+            await vscode.window.showTextDocument(doc, { preview: false });
+        } catch (error) {
+            this.outputService.log(`[ERROR] ❌ Error disassembling ${path.basename(hexUri.fsPath)}: ${error}`);
+            vscode.window.showErrorMessage(`Error disassembling HEX file: ${error}`);
+        }
+    }
+
+    /**
+     * Turn the eight slots of a pedal (read over the programmer, or from a backup .hex)
+     * into a project folder: one disassembled .spn per program and a .spnbank assigning
+     * them to their slots. Empty slots are left unassigned.
+     */
+    public async importPedalBackup(uri?: vscode.Uri): Promise<void> {
+        try {
+            let hexUri = uri;
+            if (!hexUri) {
+                const source = await vscode.window.showQuickPick(
+                    [
+                        { label: '$(plug) Read from pedal', description: 'Read the EEPROM through the USB programmer', fromPedal: true },
+                        { label: '$(file) Backup .hex file', description: 'A file saved by "Backup pedal"', fromPedal: false }
+                    ],
+                    { placeHolder: 'Import programs from' }
+                );
+                if (!source) return;
+                if (!source.fromPedal) {
+                    hexUri = await this.resolveHexFile(undefined, 'Import');
+                    if (!hexUri) return;
+                }
+            }
+
+            let slots: HexSlot[] | undefined;
+            let origin: string;
+            if (hexUri) {
+                slots = this.readHexSlots(hexUri.fsPath);
+                origin = path.basename(hexUri.fsPath);
+            } else {
+                this.outputService.log(`[INFO] 💾 Importing programs from pedal...`);
+                const bytes = await this.programmerService.readPedal();
+                slots = bytes ? splitSlots(bytes) : undefined;
+                origin = 'pedal';
+            }
+            if (!slots) return;
+
+            slots = Array.from({ length: FV1_EEPROM_SLOTS }, (_, i) => slots![i] ?? { slot: i + 1, machineCode: [], empty: true });
+            const programs = slots.filter(s => !s.empty);
+            if (programs.length === 0) {
+                vscode.window.showWarningMessage(`No programs found in ${origin === 'pedal' ? 'the pedal' : origin}: all slots are empty`);
+                return;
+            }
+
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const folders = await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: workspaceFolder,
+                openLabel: 'Create Project Here'
+            });
+            if (!folders) return;
+
+            const defaultName = hexUri ? path.basename(hexUri.fsPath, path.extname(hexUri.fsPath)) : 'pedal-import';
+            const name = await vscode.window.showInputBox({
+                prompt: 'Name of the project folder and bank',
+                value: defaultName,
+                validateInput: value => /^[^\\/:*?"<>|]+$/.test(value.trim()) ? undefined : 'Enter a valid folder name'
+            });
+            if (!name) return;
+
+            const projectDir = path.join(folders[0].fsPath, name.trim());
+            const bankPath = path.join(projectDir, `${name.trim()}.spnbank`);
+            if (fs.existsSync(projectDir) && fs.readdirSync(projectDir).length > 0) {
+                const choice = await vscode.window.showWarningMessage(
+                    `${name.trim()} already exists. Overwrite its slot files and bank?`,
+                    { modal: true },
+                    'Overwrite'
+                );
+                if (choice !== 'Overwrite') return;
+            }
+            fs.mkdirSync(projectDir, { recursive: true });
+
+            for (const program of programs) {
+                this.writeDisassembly(program, path.join(projectDir, `slot${program.slot}.spn`), `slot ${program.slot} of ${origin}`);
+            }
+
+            const bank = {
+                name: name.trim(),
+                slots: slots.map(s => ({ slot: s.slot, path: s.empty ? '' : `slot${s.slot}.spn` }))
+            };
+            fs.writeFileSync(bankPath, JSON.stringify(bank, null, 2), 'utf8');
+
+            const emptySlots = slots.filter(s => s.empty).map(s => s.slot);
+            this.outputService.log(`[SUCCESS] ✅ Imported ${programs.length} program(s) into ${path.basename(bankPath)}${emptySlots.length > 0 ? ` (empty slots left unassigned: ${emptySlots.join(', ')})` : ''}`);
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(bankPath));
+        } catch (error) {
+            this.outputService.log(`[ERROR] ❌ Error importing pedal backup: ${error}`);
+            vscode.window.showErrorMessage(`Error importing pedal backup: ${error}`);
+        }
+    }
+
+    /**
+     * Read an Intel HEX file and split it into 512-byte program slots.
+     * Returns undefined (after reporting why) when the file is not valid Intel HEX.
+     */
+    public readHexSlots(hexPath: string): HexSlot[] | undefined {
+        const hexContent = fs.readFileSync(hexPath, 'utf8');
+        const validation = IntelHexParser.validateHex(hexContent);
+        if (!validation.valid) {
+            this.outputService.log(`[ERROR] ❌ Invalid Intel HEX file ${path.basename(hexPath)}:`);
+            validation.errors.forEach((error: string) => this.outputService.log(`[ERROR] ❌   ${error}`));
+            vscode.window.showErrorMessage('Invalid Intel HEX file. Check Output panel for details.');
+            return undefined;
+        }
+
+        return splitSlots(new Uint8Array(IntelHexParser.parse(hexContent)));
+    }
+
+    private writeDisassembly(slot: HexSlot, fsPath: string, origin: string) {
+        const config = vscode.workspace.getConfiguration('fv1');
+        const source = disassemble(slot.machineCode, {
+            memBug: config.get<boolean>('spinAsmMemBug') ?? true,
+            delaySize: config.get<number>('hardware.delaySize') ?? 32768,
+            header: [`Disassembled from ${origin}`]
+        });
+        fs.writeFileSync(fsPath, source, 'utf8');
+        this.outputService.log(`[SUCCESS] ✅ Disassembled ${origin} to ${path.basename(fsPath)}`);
+    }
+
+    private async resolveHexFile(uri?: vscode.Uri, openLabel = 'Disassemble'): Promise<vscode.Uri | undefined> {
+        const candidate = uri ?? getActiveDocumentUri();
+        if (candidate && candidate.fsPath.toLowerCase().endsWith('.hex')) {
+            return candidate;
+        }
+
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Intel HEX files': ['hex'] },
+            openLabel
+        });
+        return picked?.[0];
+    }
+}
+
+function countInstructions(machineCode: number[]): number {
+    let count = 0;
+    machineCode.forEach((word, addr) => {
+        if (word !== 0x00000011 && word !== 0xFFFFFFFF) count = addr + 1;
+    });
+    return count;
+}
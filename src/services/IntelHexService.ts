@@ -109,33 +109,21 @@ export class IntelHexService {
                     continue;
                 }
 
-                let content: string;
-                const isBlockDiagram = fsPath.toLowerCase().endsWith('.spndiagram');
-
-                if (isBlockDiagram) {
-                    const assembly = await this.assemblyService.compileBlockDiagram(fsPath);
-                    if (!assembly) {
-                        this.outputService.log(`[ERROR] ❌ Skipping slot ${slot.slot}: failed to compile block diagram ${path.basename(fsPath)}`);
-                        continue;
-                    }
-                    content = assembly;
-                } else {
-                    content = fs.readFileSync(fsPath, 'utf8');
-                }
-
-                const assembler = new FV1Assembler({
-                    fv1AsmMemBug: vscode.workspace.getConfiguration('fv1').get<boolean>('spinAsmMemBug') ?? true,
-                    clampReals: vscode.workspace.getConfiguration('fv1').get<boolean>('clampReals') ?? true,
-                });
-
+                // Programs are assembled like the open editor would, with includes and macros expanded
+                // and the configured hardware limits; include and macro problems are fatal
                 this.outputService.log(`[INFO] 🔧 Assembling slot ${slot.slot}: ${path.basename(fsPath)}...`);
-                const result = assembler.assemble(content);
+                const result = await this.assemblyService.assembleFile(fsPath);
+                if (!result) {
+                    this.outputService.log(`[ERROR] ❌ Skipping slot ${slot.slot}: failed to assemble ${path.basename(fsPath)}`);
+                    continue;
+                }
 
-                if (result.problems.some((p: any) => p.isfatal)) {
+                if (result.problems.some(p => p.isfatal)) {
                     this.outputService.log(`[ERROR] ❌ Slot ${slot.slot} failed to assemble - skipping: ${path.basename(fsPath)}`);
-                    result.problems.forEach((p: any) => {
+                    result.problems.forEach(p => {
                         if (p.isfatal) {
-                            this.outputService.log(`[ERROR] ❌ ${p.message}`);
+                            const lineInfo = p.line > 0 ? ` (Line ${p.line})` : '';
+                            this.outputService.log(`[ERROR] ❌${lineInfo}: ${p.message}`);
                         }
                     });
                     continue;
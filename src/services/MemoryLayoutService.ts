@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { BlockDiagramDocumentManager } from '../blockDiagram/BlockDiagramDocumentManager.js';
+import { buildMemoryLayout, type MemoryLayout } from '../core/fv1MemoryLayout.js';
+import { decodeProgram } from '../core/fv1Decoder.js';
+import { getActiveDocumentUri } from '../core/editor-utils.js';
+import type { SourceMappedResult } from '../core/fv1Preprocessor.js';
+
+/**
+ * Shows the delay memory layout of the active program in a webview panel: every MEM block
+ * to scale, the taps that access it, SpinASM's wasted words and the free space. The panel
+ * follows the active .spn or .spndiagram and refreshes when the program is re-assembled.
+ */
+export class MemoryLayoutService implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private sourceUri: vscode.Uri | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private fv1DocumentManager: FV1DocumentManager,
+        private blockDiagramDocumentManager: BlockDiagramDocumentManager
+    ) {
+        this.disposables.push(
+            this.fv1DocumentManager.addChangeListener(uri => this.handleUriChange(uri)),
+            this.blockDiagramDocumentManager.onCompilationChange(uri => this.handleUriChange(uri)),
+            vscode.window.onDidChangeActiveTextEditor(() => this.followActiveDocument()),
+            vscode.window.tabGroups.onDidChangeTabs(() => this.followActiveDocument())
+        );
+    }
+
+    dispose() {
+        this.panel?.dispose();
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    /**
+     * Open the panel (or bring it to the front) for a program
+     */
+    public async show(uri: vscode.Uri) {
+        this.sourceUri = uri;
+        if (this.panel) {
+            this.panel.reveal(undefined, true);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                'fv1.memoryLayout',
+                'Delay Memory Layout',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+            this.panel.webview.html = this.getHtml(this.panel.webview);
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.sourceUri = undefined;
+            });
+            this.panel.webview.onDidReceiveMessage(async message => {
+                if (message.type === 'ready') {
+                    await this.update();
+                } else if (message.type === 'reveal') {
+                    await this.reveal(message.line, message.file);
+                }
+            });
+        }
+        await this.update();
+    }
+
+    private isProgram(uri: vscode.Uri): boolean {
+        const fsPath = uri.fsPath.toLowerCase();
+        return uri.scheme === 'file' && (fsPath.endsWith('.spn') || fsPath.endsWith('.spndiagram'));
+    }
+
+    private followActiveDocument() {
+        const uri = getActiveDocumentUri();
+        if (this.panel && uri && this.isProgram(uri) && uri.toString() !== this.sourceUri?.toString()) {
+            this.sourceUri = uri;
+            this.update();
+        }
+    }
+
+    private handleUriChange(uri: vscode.Uri) {
+        if (this.panel && uri.toString() === this.sourceUri?.toString()) {
+            this.update();
+        }
+    }
+
+    public async update() {
+        if (!this.panel || !this.sourceUri) return;
+        const uri = this.sourceUri;
+        const name = path.basename(uri.fsPath);
+        this.panel.title = `Memory: ${name}`;
+
+        try {
+            const result = await this.assemble(uri);
+            if (!result) {
+                this.panel.webview.postMessage({ type: 'update', name, error: 'The block diagram does not compile' });
+                return;
+            }
+
+            const config = vscode.workspace.getConfiguration('fv1');
+            const delaySize = config.get<number>('hardware.delaySize') ?? 32768;
+            const memBug = config.get<boolean>('spinAsmMemBug') ?? true;
+            const addressToLineMap = result.addressToLineMap as Map<number, number> | undefined;
+            const program = decodeProgram(result.machineCode ?? [], addressToLineMap?.size ?? 0);
+            const layout: MemoryLayout = buildMemoryLayout(result.memories ?? [], program, addressToLineMap, delaySize, memBug);
+            const hasErrors = result.problems?.some(p => p.isfatal) ?? false;
+            this.panel.webview.postMessage({ type: 'update', name, layout, memBug, hasErrors });
+        } catch (e) {
+            this.panel.webview.postMessage({ type: 'update', name, error: `Failed to assemble ${name}: ${e}` });
+        }
+    }
+
+    /**
+     * Assemble a program; block diagrams are assembled from their generated code
+     */
+    private async assemble(uri: vscode.Uri): Promise<SourceMappedResult | undefined> {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString())
+            ?? await vscode.workspace.openTextDocument(uri);
+
+        if (!uri.fsPath.toLowerCase().endsWith('.spndiagram')) {
+            return this.fv1DocumentManager.getAssemblyResult(document);
+        }
+
+        const compilation = this.blockDiagramDocumentManager.getCompilationResult(document);
+        if (!compilation.success || !compilation.assembly) {
+            return undefined;
+        }
+        return this.fv1DocumentManager.assembleSource(compilation.assembly, uri.fsPath + '.spn');
+    }
+
+    /**
+     * Show a line of the program, or of the file that includes it
+     */
+    private async reveal(line: number | undefined, file: string | undefined) {
+        if (!this.sourceUri || !line) return;
+
+        let target: vscode.Uri;
+        if (file) {
+            target = vscode.Uri.file(file);
+        } else if (this.sourceUri.fsPath.toLowerCase().endsWith('.spndiagram')) {
+            // The generated assembly of a diagram is shown as fv1-assembly:path/to/diagram.spndiagram.spn
+            target = vscode.Uri.from({ scheme: 'fv1-assembly', path: this.sourceUri.fsPath + '.spn' });
+        } else {
+            target = this.sourceUri;
+        }
+
+        const document = await vscode.workspace.openTextDocument(target);
+        const existing = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === target.toString());
+        const position = new vscode.Position(Math.min(line - 1, document.lineCount - 1), 0);
+        await vscode.window.showTextDocument(document, {
+            viewColumn: existing?.viewColumn ?? vscode.ViewColumn.One,
+            selection: new vscode.Range(position, position),
+            preview: false
+        });
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Delay Memory Layout</title>
+    <style>
+        body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); padding: 12px; }
+        h2 { font-size: 13px; margin: 0 0 4px 0; }
+        .summary { color: var(--vscode-descriptionForeground); margin-bottom: 12px; }
+        .error { color: var(--vscode-errorForeground); margin-bottom: 12px; }
+        .map { position: relative; height: 48px; background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-widget-border); border-radius: 2px; }
+        .segment { position: absolute; top: 0; bottom: 0; min-width: 1px; box-sizing: border-box; }
+        .block { background: rgba(79, 172, 254, 0.35); border-left: 1px solid #4facfe; border-right: 1px solid #4facfe; cursor: pointer; overflow: hidden; }
+        .block:hover { background: rgba(79, 172, 254, 0.55); }
+        .block span { font-size: 10px; padding: 2px; white-space: nowrap; }
+        .wasted { background: var(--vscode-editorWarning-foreground); min-width: 2px; }
+        .tap { position: absolute; top: 0; bottom: 0; width: 1px; pointer-events: none; }
+        .tap.read { background: #00ffff; }
+        .tap.write { background: #ff9f43; }
+        .scale { display: flex; justify-content: space-between; color: var(--vscode-descriptionForeground); font-size: 10px; margin: 2px 0 12px 0; }
+        .legend { display: flex; gap: 12px; font-size: 11px; margin-bottom: 12px; }
+        .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; vertical-align: middle; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-widget-border); vertical-align: top; }
+        th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+        a { color: var(--vscode-textLink-foreground); cursor: pointer; text-decoration: none; }
+        a:hover { text-decoration: underline; }
+        .taps a { margin-right: 8px; white-space: nowrap; }
+        .free td { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <h2 id="title">Delay Memory Layout</h2>
+    <div id="summary" class="summary"></div>
+    <div id="error" class="error"></div>
+    <div id="map" class="map"></div>
+    <div class="scale"><span>0</span><span id="scaleEnd"></span></div>
+    <div class="legend">
+        <span><span class="swatch" style="background: rgba(79, 172, 254, 0.55)"></span>MEM block</span>
+        <span><span class="swatch" style="background: #00ffff"></span>Read tap</span>
+        <span><span class="swatch" style="background: #ff9f43"></span>Write tap</span>
+        <span id="wastedLegend"><span class="swatch" style="background: var(--vscode-editorWarning-foreground)"></span>Wasted word (SpinASM MEM bug)</span>
+    </div>
+    <table>
+        <thead><tr><th>Block</th><th>Start</th><th>End</th><th>Size</th><th>Taps</th></tr></thead>
+        <tbody id="rows"></tbody>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const percent = (value, total) => (value / total * 100) + '%';
+
+        function link(text, line, file) {
+            const a = document.createElement('a');
+            a.textContent = text;
+            a.title = (file ? file + ':' : 'Line ') + line;
+            a.addEventListener('click', () => vscode.postMessage({ type: 'reveal', line, file }));
+            return a;
+        }
+
+        function cell(row, content) {
+            const td = document.createElement('td');
+            if (typeof content === 'string') td.textContent = content; else if (content) td.appendChild(content);
+            row.appendChild(td);
+            return td;
+        }
+
+        function tapLinks(taps) {
+            const span = document.createElement('span');
+            span.className = 'taps';
+            taps.forEach(tap => {
+                const text = tap.mnemonic + ' +' + tap.offset;
+                span.appendChild(tap.line ? link(text, tap.line) : document.createTextNode(text + ' '));
+            });
+            return span;
+        }
+
+        function render(message) {
+            document.getElementById('title').textContent = 'Delay Memory Layout: ' + message.name;
+            document.getElementById('error').textContent = message.error || (message.hasErrors ? 'The program has errors; the layout may be incomplete.' : '');
+            const map = document.getElementById('map');
+            const rows = document.getElementById('rows');
+            map.replaceChildren();
+            rows.replaceChildren();
+            const layout = message.layout;
+            if (!layout) {
+                document.getElementById('summary').textContent = '';
+                return;
+            }
+
+            const size = layout.delaySize;
+            const freeWords = layout.free.reduce((total, range) => total + range.size, 0);
+            document.getElementById('summary').textContent =
+                layout.used + ' / ' + size + ' words used (' + (layout.used / size * 100).toFixed(1) + '%), ' +
+                freeWords + ' free, ' + layout.blocks.length + ' blocks';
+            document.getElementById('scaleEnd').textContent = String(size - 1);
+            document.getElementById('wastedLegend').style.display = message.memBug ? '' : 'none';
+
+            layout.blocks.forEach(block => {
+                const segment = document.createElement('div');
+                segment.className = 'segment block';
+                segment.style.left = percent(block.start, size);
+                segment.style.width = percent(block.size, size);
+                segment.title = block.name + ': ' + block.start + '-' + (block.start + block.size - 1) + ' (' + block.size + ' words)';
+                const label = document.createElement('span');
+                label.textContent = block.name;
+                segment.appendChild(label);
+                segment.addEventListener('click', () => vscode.postMessage({ type: 'reveal', line: block.line, file: block.file }));
+                map.appendChild(segment);
+
+                if (block.wastedWord !== undefined) {
+                    const wasted = document.createElement('div');
+                    wasted.className = 'segment wasted';
+                    wasted.style.left = percent(block.wastedWord, size);
+                    wasted.title = 'Wasted word at ' + block.wastedWord + ' after ' + block.name;
+                    map.appendChild(wasted);
+                }
+
+                block.taps.forEach(tap => {
+                    const line = document.createElement('div');
+                    line.className = 'tap ' + (tap.write ? 'write' : 'read');
+                    line.style.left = percent(tap.address + 0.5, size);
+                    map.appendChild(line);
+                });
+
+                const row = document.createElement('tr');
+                cell(row, block.line ? link(block.name, block.line, block.file) : block.name);
+                cell(row, String(block.start));
+                cell(row, String(block.start + block.size - 1) + (block.wastedWord !== undefined ? ' (+1 wasted)' : ''));
+                cell(row, String(block.size));
+                cell(row, tapLinks(block.taps));
+                rows.appendChild(row);
+            });
+
+            layout.free.forEach(range => {
+                const row = document.createElement('tr');
+                row.className = 'free';
+                cell(row, 'free');
+                cell(row, String(range.start));
+                cell(row, String(range.start + range.size - 1));
+                cell(row, String(range.size));
+                cell(row, '');
+                rows.appendChild(row);
+            });
+
+            if (layout.strayTaps.length > 0) {
+                const row = document.createElement('tr');
+                cell(row, 'outside any block');
+                cell(row, '');
+                cell(row, '');
+                cell(row, '');
+                const span = document.createElement('span');
+                span.className = 'taps';
+                layout.strayTaps.forEach(tap => {
+                    const text = tap.mnemonic + ' @' + tap.address;
+                    span.appendChild(tap.line ? link(text, tap.line) : document.createTextNode(text + ' '));
+                });
+                cell(row, span);
+                rows.appendChild(row);
+            }
+        }
+
+        window.addEventListener('message', event => {
+            if (event.data.type === 'update') render(event.data);
+        });
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function getNonce() {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
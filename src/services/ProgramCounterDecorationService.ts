@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+
+/**
+ * Shows the program counter of each instruction in a narrow column to the left of
+ * the source, and highlights instructions that fall beyond the program size
+ */
+export class ProgramCounterDecorationService implements vscode.Disposable {
+    private pcDecoration: vscode.TextEditorDecorationType;
+    private overBudgetDecoration: vscode.TextEditorDecorationType;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private fv1DocumentManager: FV1DocumentManager) {
+        this.pcDecoration = vscode.window.createTextEditorDecorationType({
+            before: {
+                color: new vscode.ThemeColor('editorLineNumber.foreground'),
+                width: '4ch',
+                margin: '0 1ch 0 0'
+            }
+        });
+        this.overBudgetDecoration = vscode.window.createTextEditorDecorationType({
+            before: {
+                color: new vscode.ThemeColor('errorForeground'),
+                width: '4ch',
+                margin: '0 1ch 0 0'
+            },
+            backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+            overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.errorForeground'),
+            overviewRulerLane: vscode.OverviewRulerLane.Right,
+            isWholeLine: true
+        });
+
+        this.disposables.push(
+            this.pcDecoration,
+            this.overBudgetDecoration,
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.update(editor))),
+            this.fv1DocumentManager.addChangeListener(uri => this.handleUriChange(uri))
+        );
+
+        this.updateAll();
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    public updateAll() {
+        vscode.window.visibleTextEditors.forEach(editor => this.update(editor));
+    }
+
+    private handleUriChange(uri: vscode.Uri) {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() === uri.toString()) {
+                this.update(editor);
+            }
+        }
+    }
+
+    private update(editor: vscode.TextEditor) {
+        const document = editor.document;
+        if (document.languageId !== 'fv1-assembly') {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('fv1');
+        const result = this.fv1DocumentManager.getAssemblyResult(document);
+        if (!config.get<boolean>('editor.programCounter', false) || !result.addressToLineMap) {
+            editor.setDecorations(this.pcDecoration, []);
+            editor.setDecorations(this.overBudgetDecoration, []);
+            return;
+        }
+
+        const progSize = config.get<number>('hardware.progSize') ?? 128;
+        const pcByLine = new Map<number, number>();
+        for (const [addr, sourceLine] of result.addressToLineMap as Map<number, number>) {
+            if (!pcByLine.has(sourceLine - 1)) pcByLine.set(sourceLine - 1, addr);
+        }
+
+        // Every line gets an entry so that instruction text stays aligned with the lines around it
+        const inBudget: vscode.DecorationOptions[] = [];
+        const overBudget: vscode.DecorationOptions[] = [];
+        for (let line = 0; line < document.lineCount; line++) {
+            const pc = pcByLine.get(line);
+            const decoration: vscode.DecorationOptions = {
+                range: new vscode.Range(line, 0, line, 0),
+                renderOptions: { before: { contentText: pc !== undefined ? pc.toString().padStart(3, ' ') : ' ' } }
+            };
+            if (pc !== undefined && pc >= progSize) {
+                decoration.hoverMessage = `PC ${pc} is beyond the ${progSize}-instruction program memory`;
+                overBudget.push(decoration);
+            } else {
+                inBudget.push(decoration);
+            }
+        }
+
+        editor.setDecorations(this.pcDecoration, inBudget);
+        editor.setDecorations(this.overBudgetDecoration, overBudget);
+    }
+}
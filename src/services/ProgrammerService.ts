@@ -144,20 +144,29 @@ export class ProgrammerService {
         }
     }
 
-    public async backupPedal(): Promise<void> {
-        try {
-            this.outputService.log(`[INFO] 💾 Starting pedal backup...`);
+    /**
+     * Read all eight program slots from the pedal's EEPROM
+     */
+    public async readPedal(): Promise<Uint8Array | undefined> {
+        const eeprom = await this.getEepromConnection();
+        if (!eeprom) return undefined;
 
-            const eeprom = await this.getEepromConnection();
-            if (!eeprom) return;
+        const totalBytes = 8 * FV1_EEPROM_SLOT_SIZE_BYTES;
+        this.outputService.log(`[INFO] 📖 Reading ${totalBytes} bytes from EEPROM...`);
 
-            const totalBytes = 8 * FV1_EEPROM_SLOT_SIZE_BYTES;
-            this.outputService.log(`[INFO] 📖 Reading ${totalBytes} bytes from EEPROM...`);
+        const readBuffer = await eeprom.read(0, totalBytes);
+        const dataArray = new Uint8Array(readBuffer as any);
 
-            const readBuffer = await eeprom.read(0, totalBytes);
-            const dataArray = new Uint8Array(readBuffer as any);
+        this.outputService.log(`[SUCCESS] ✅ Successfully read ${dataArray.length} bytes`);
+        return dataArray;
+    }
+
+    public async backupPedal(): Promise<void> {
+        try {
+            this.outputService.log(`[INFO] 💾 Starting pedal backup...`);
 
-            this.outputService.log(`[SUCCESS] ✅ Successfully read ${dataArray.length} bytes`);
+            const dataArray = await this.readPedal();
+            if (!dataArray) return;
 
             const segments: Array<{ data: Buffer, address: number }> = [];
             for (let slot = 0; slot < 8; slot++) {
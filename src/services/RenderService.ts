@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FV1Simulator } from '@audiofab-io/fv1-core';
+import { OutputService } from './OutputService.js';
+import { AssemblyService } from './AssemblyService.js';
+import { FV1AudioEngine } from '../simulator/FV1AudioEngine.js';
+import { FV1AudioProcessor, type PotAutomation } from '../simulator/FV1AudioProcessor.js';
+import { readWavFile, writeWavFile, SIMULATION_SAMPLE_RATES } from '../simulator/FV1WavFile.js';
+import { describePotAutomation, loadPotAutomation, potAutomationSidecarPath, toPotAutomation, type PotAutomationConfig } from '../simulator/FV1PotAutomation.js';
+import { getPotModelOptions } from '../simulator/FV1PotModel.js';
+import { resolveCodecModelOptions } from '../simulator/FV1CodecModel.js';
+import { getActiveDocumentUri } from '../core/editor-utils.js';
+
+/**
+ * The fields of an fv1-debug launch configuration that renders follow
+ */
+interface RenderLaunchConfig {
+    type?: string;
+    sampleRate?: number;
+    codecModel?: unknown;
+}
+
+/**
+ * Renders audio files through a program offline, without starting a debug session
+ */
+export class RenderService {
+    constructor(
+        private outputService: OutputService,
+        private assemblyService: AssemblyService,
+        private audioEngine: FV1AudioEngine
+    ) { }
+
+    /**
+     * Assemble a program, run an input WAV through the simulator and write the result
+     * as a stereo WAV next to the program
+     */
+    public async renderToWav(uri?: vscode.Uri): Promise<void> {
+        const programUri = uri ?? getActiveDocumentUri();
+        const lowerPath = programUri?.fsPath.toLowerCase() ?? '';
+        if (!programUri || !(lowerPath.endsWith('.spn') || lowerPath.endsWith('.spndiagram'))) {
+            vscode.window.showErrorMessage('Open an FV-1 program (.spn or .spndiagram) to render');
+            return;
+        }
+        const programPath = programUri.fsPath;
+        const programName = path.basename(programPath);
+
+        try {
+            this.outputService.log(`[INFO] 🔧 Assembling ${programName} for rendering...`);
+            const result = await this.assemblyService.assembleFile(programPath);
+            if (!result || !result.machineCode || result.problems.some(p => p.isfatal)) {
+                this.outputService.log(`[ERROR] ❌ Cannot render ${programName}: program has errors`);
+                result?.problems.forEach(p => {
+                    if (p.isfatal) this.outputService.log(`[ERROR] ❌ ${p.message}`);
+                });
+                vscode.window.showErrorMessage(`Cannot render ${programName}: program has errors`);
+                return;
+            }
+
+            const inputs = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: vscode.Uri.file(path.dirname(programPath)),
+                filters: { 'WAV files': ['wav'] },
+                openLabel: 'Render'
+            });
+            if (!inputs) return;
+            const inputPath = inputs[0].fsPath;
+
+            // The same automation the simulator replays, when the program has a sidecar file
+            let automation: PotAutomationConfig | undefined;
+            const sidecar = potAutomationSidecarPath(programPath);
+            if (fs.existsSync(sidecar)) {
+                automation = loadPotAutomation(sidecar);
+                const source = await vscode.window.showQuickPick(
+                    [
+                        { label: `$(pulse) ${path.basename(sidecar)}`, description: describePotAutomation(automation) || 'no lanes', useAutomation: true },
+                        { label: '$(settings) Enter POT values', description: 'Fixed values or sweeps over the render', useAutomation: false }
+                    ],
+                    { placeHolder: 'POT settings for the render' }
+                );
+                if (!source) return;
+                if (!source.useAutomation) automation = undefined;
+            }
+
+            let potSpecs: { from: number; to: number }[] | undefined;
+            if (!automation) {
+                const potInput = await vscode.window.showInputBox({
+                    prompt: 'POT0, POT1, POT2 (0.0 - 1.0). Use "a->b" to sweep a POT from a to b over the render.',
+                    value: this.audioEngine.getPotValues().map(v => v.toFixed(2)).join(', '),
+                    validateInput: value => parsePots(value) ? undefined : 'Enter three values such as "0.5, 0.2->0.8, 1"'
+                });
+                if (potInput === undefined) return;
+                potSpecs = parsePots(potInput)!;
+            }
+
+            // Renders run at the sample rate and with the codec model of the workspace's FV-1 launch
+            // configuration, like a debug session would; the input is resampled to that rate
+            const launchConfigs = vscode.workspace.getConfiguration('launch', programUri).get<RenderLaunchConfig[]>('configurations') ?? [];
+            const launchConfig = launchConfigs.find(c => c.type === 'fv1-debug');
+            let sampleRate = SIMULATION_SAMPLE_RATES[0];
+            if (launchConfig?.sampleRate !== undefined) {
+                if (SIMULATION_SAMPLE_RATES.includes(launchConfig.sampleRate)) {
+                    sampleRate = launchConfig.sampleRate;
+                } else {
+                    this.outputService.log(`[WARNING] ⚠ The launch configuration sample rate ${launchConfig.sampleRate} Hz is not one of ${SIMULATION_SAMPLE_RATES.join(', ')} Hz; rendering at ${sampleRate} Hz`);
+                }
+            }
+            const codecModel = resolveCodecModelOptions(launchConfig?.codecModel);
+
+            const input = await readWavFile(inputPath, sampleRate);
+            const duration = input.left.length / input.sampleRate;
+            // POTs without an automation lane stay where the Audio Monitor sliders are
+            const pots = automation
+                ? toPotAutomation(automation, this.audioEngine.getPotValues())
+                : potSpecs!.map((spec): PotAutomation =>
+                    spec.from === spec.to ? spec.from : (time: number) => spec.from + (spec.to - spec.from) * (duration > 0 ? time / duration : 0));
+
+            const config = vscode.workspace.getConfiguration('fv1');
+            const simulator = new FV1Simulator();
+            simulator.setCapabilities(
+                config.get<number>('hardware.delaySize') ?? 32768,
+                config.get<number>('hardware.regCount') ?? 32,
+                config.get<number>('hardware.progSize') ?? 128
+            );
+            simulator.loadProgram(new Uint32Array(result.machineCode));
+            simulator.setSymbols(result.symbols, result.memories, config.get<boolean>('spinAsmMemBug') ?? true);
+
+            const outputPath = path.join(
+                path.dirname(programPath),
+                `${path.basename(programPath, path.extname(programPath))}-${path.basename(inputPath, path.extname(inputPath))}.wav`
+            );
+
+            this.outputService.log(`[INFO] 🎧 Rendering ${path.basename(inputPath)} (${duration.toFixed(1)} s at ${input.sampleRate} Hz) through ${programName}${codecModel ? ' with the codec model' : ''}...`);
+            const output = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Rendering ${programName}`,
+                cancellable: true
+            }, async (progress, token) => {
+                let reported = 0;
+                return new FV1AudioProcessor(simulator).render(input.left, input.right, {
+                    pots,
+                    sampleRate: input.sampleRate,
+                    potModel: getPotModelOptions(vscode.workspace.getConfiguration('fv1.simulation')),
+                    codecModel,
+                    onProgress: fraction => {
+                        const percent = Math.floor(fraction * 100);
+                        progress.report({ increment: percent - reported, message: `${percent}%` });
+                        reported = percent;
+                    },
+                    isCancelled: () => token.isCancellationRequested
+                });
+            });
+
+            if (!output) {
+                this.outputService.log(`[WARNING] ⚠ Rendering ${programName} cancelled`);
+                return;
+            }
+
+            await writeWavFile(outputPath, output);
+            this.outputService.log(`[SUCCESS] ✅ Rendered ${path.basename(inputPath)} through ${programName} to ${path.basename(outputPath)}`);
+
+            const choice = await vscode.window.showInformationMessage(`Rendered ${path.basename(outputPath)}`, 'Reveal');
+            if (choice === 'Reveal') {
+                await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputPath));
+            }
+        } catch (error) {
+            this.outputService.log(`[ERROR] ❌ Error rendering ${programName}: ${error}`);
+            vscode.window.showErrorMessage(`Error rendering ${programName}: ${error}`);
+        }
+    }
+}
+
+/**
+ * Parse "0.5, 0.2->0.8, 1" into a start and end value per POT
+ */
+function parsePots(value: string): { from: number; to: number }[] | undefined {
+    const parts = value.split(',').map(p => p.trim());
+    if (parts.length !== 3) return undefined;
+
+    const pots: { from: number; to: number }[] = [];
+    for (const part of parts) {
+        const ends = part.split('->').map(e => e.trim());
+        if (ends.length > 2 || ends.some(e => e === '')) return undefined;
+        const [from, to] = ends.map(Number);
+        if ([from, to ?? from].some(v => isNaN(v) || v < 0 || v > 1)) return undefined;
+        pots.push({ from, to: to ?? from });
+    }
+    return pots;
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { FV1DocumentManager } from '../core/fv1DocumentManager.js';
+import { findUnreachable } from '../core/fv1ControlFlow.js';
+import { decodeProgram } from '../core/fv1Decoder.js';
+
+/**
+ * Greys out source lines whose instructions can never execute because every path
+ * through the skip graph jumps over them
+ */
+export class UnreachableCodeDecorationService implements vscode.Disposable {
+    private unreachableDecoration: vscode.TextEditorDecorationType;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private fv1DocumentManager: FV1DocumentManager) {
+        this.unreachableDecoration = vscode.window.createTextEditorDecorationType({
+            opacity: '0.45',
+            isWholeLine: true
+        });
+
+        this.disposables.push(
+            this.unreachableDecoration,
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.update(editor))),
+            this.fv1DocumentManager.addChangeListener(uri => this.handleUriChange(uri))
+        );
+
+        this.updateAll();
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    public updateAll() {
+        vscode.window.visibleTextEditors.forEach(editor => this.update(editor));
+    }
+
+    private handleUriChange(uri: vscode.Uri) {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() === uri.toString()) {
+                this.update(editor);
+            }
+        }
+    }
+
+    private update(editor: vscode.TextEditor) {
+        const document = editor.document;
+        if (document.languageId !== 'fv1-assembly') {
+            return;
+        }
+
+        const enabled = vscode.workspace.getConfiguration('fv1').get<boolean>('editor.unreachableCode', true);
+        const result = this.fv1DocumentManager.getAssemblyResult(document);
+        if (!enabled || !result.machineCode || !result.addressToLineMap || result.problems?.some(p => p.isfatal)) {
+            editor.setDecorations(this.unreachableDecoration, []);
+            return;
+        }
+
+        const addressToLineMap = result.addressToLineMap as Map<number, number>;
+        const unreachable = findUnreachable(decodeProgram(result.machineCode, addressToLineMap.size));
+
+        // A line is greyed out only when none of its instructions (e.g. from a macro) can run
+        const lineReachable = new Map<number, boolean>();
+        for (const [addr, sourceLine] of addressToLineMap) {
+            lineReachable.set(sourceLine - 1, (lineReachable.get(sourceLine - 1) ?? false) || !unreachable[addr]);
+        }
+
+        const ranges: vscode.Range[] = [];
+        for (const [line, reachable] of lineReachable) {
+            if (!reachable && line < document.lineCount) {
+                ranges.push(document.lineAt(line).range);
+            }
+        }
+
+        editor.setDecorations(this.unreachableDecoration, ranges);
+    }
+}
@@ -198,6 +198,7 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
                         appearance: none;
                     }
                     .pot-slider:focus { outline: none; }
+                    .pot-slider:disabled { opacity: 0.6; cursor: default; }
 
                     /* Track Styling */
                     .pot-slider::-webkit-slider-runnable-track {
@@ -450,7 +451,10 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
                     <div class="controls-box">
                         <div class="section-header">
                             <div class="section-title">DSP Controls</div>
-                            <button id="bypassBtn">BYPASS</button>
+                            <div>
+                                <button id="recBtn" title="Record POT moves to the program's .pots.json automation file">REC</button>
+                                <button id="bypassBtn">BYPASS</button>
+                            </div>
                         </div>
                         <div class="pot-row">
                             <span class="pot-label">POT0</span>
@@ -487,6 +491,8 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
 
                     const overlay = document.getElementById('overlay');
                     const bypassBtn = document.getElementById('bypassBtn');
+                    const recBtn = document.getElementById('recBtn');
+                    let recording = false;
                     const stimulusSelect = document.getElementById('stimulusSelect');
                     const scopeBox = document.getElementById('scopeBox');
                     const memBox = document.getElementById('memBox');
@@ -551,6 +557,12 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
                         });
                     });
 
+                    recBtn.addEventListener('click', () => {
+                        recording = !recording;
+                        recBtn.className = recording ? 'active' : '';
+                        vscode.postMessage({ type: 'potRecord', active: recording });
+                    });
+
                     bypassBtn.addEventListener('click', () => {
                         bypassActive = !bypassActive;
                         bypassBtn.className = bypassActive ? 'active' : '';
@@ -889,6 +901,8 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
                             initHistory();
                             updateStatus('Ready');
                         } else if (message.type === 'reset') {
+                            recording = false;
+                            recBtn.className = '';
                             initHistory();
                             drawTraces();
                             lastMemories = [];
@@ -919,8 +933,19 @@ export class FV1AudioEngine implements vscode.WebviewViewProvider {
                                 updateZoomDisplay();
                                 initHistory();
                             }
+                            if (message.potAutomated) {
+                                // Automated POTs are driven by the simulator, not the slider
+                                message.potAutomated.forEach((automated, i) => {
+                                    const slider = document.getElementById('pot' + i);
+                                    if (slider) {
+                                        slider.disabled = automated;
+                                        slider.title = automated ? 'Automated' : '';
+                                    }
+                                });
+                            }
                             if (message.potValues) {
                                 message.potValues.forEach((val, i) => {
+                                    if (val === null || val === undefined) return;
                                     const slider = document.getElementById('pot' + i);
                                     const display = document.getElementById('p' + i + 'v');
                                     if (slider) slider.value = val;
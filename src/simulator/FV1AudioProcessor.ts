@@ -1,5 +1,29 @@
-import * as fs from 'fs';
 import { FV1Simulator } from '@audiofab-io/fv1-core';
+import { readWavFile, writeWavFile, SIMULATION_SAMPLE_RATES, type StereoAudio } from './FV1WavFile.js';
+import { FV1PotModel, type PotModelOptions } from './FV1PotModel.js';
+import { FV1CodecModel, type CodecModelOptions } from './FV1CodecModel.js';
+
+/**
+ * A POT setting for an offline render: a fixed value, or a value (0.0 - 1.0) at a time in seconds
+ */
+export type PotAutomation = number | ((time: number) => number);
+
+export interface RenderOptions {
+    /** POT0, POT1 and POT2 */
+    pots: PotAutomation[];
+    sampleRate: number;
+    /** Pass the POTs through the hardware POT model (ADC steps, hysteresis and smoothing) */
+    potModel?: PotModelOptions;
+    /** Pass the audio through the ADC/DAC codec model */
+    codecModel?: CodecModelOptions;
+    /** Called as the render advances, with the fraction done (0.0 - 1.0) */
+    onProgress?: (fraction: number) => void;
+    /** Polled between blocks; the render stops when it returns true */
+    isCancelled?: () => boolean;
+}
+
+// Yield to the event loop about once a second of audio so progress and cancellation are seen
+const SAMPLES_PER_YIELD = 32768;
 
 export class FV1AudioProcessor {
     private simulator: FV1Simulator;
@@ -10,82 +34,92 @@ export class FV1AudioProcessor {
 
     /**
      * Process a WAV file through the FV-1 simulator.
-     * Supports 16-bit PCM WAV files.
+     * The input is resampled to the simulation rate, and the output is written at that rate in the input's encoding.
      * 
      * @param inputPath Path to input WAV file
      * @param outputPath Path to output WAV file
      * @param pot0 POT0 value (0.0 - 1.0)
      * @param pot1 POT1 value (0.0 - 1.0)
      * @param pot2 POT2 value (0.0 - 1.0)
+     * @param sampleRate Simulation sample rate (Hz)
      */
-    public async processFile(inputPath: string, outputPath: string, pot0: number = 0.5, pot1: number = 0.5, pot2: number = 0.5): Promise<void> {
-        const inputBuffer = await fs.promises.readFile(inputPath);
-
-        // Parse WAV Header
-        const numChannels = inputBuffer.readUInt16LE(22);
-        const sampleRate = inputBuffer.readUInt32LE(24);
-        const bitsPerSample = inputBuffer.readUInt16LE(34);
-        const dataSize = inputBuffer.readUInt32LE(40); // Subchunk2Size
-        const dataOffset = 44; // Standard header size
-
-        if (bitsPerSample !== 16) {
-            throw new Error(`Unsupported bit depth: ${bitsPerSample}. Only 16-bit PCM is supported.`);
-        }
-
-        const numSamples = dataSize / (numChannels * 2);
-        const inputL = new Float32Array(numSamples);
-        const inputR = new Float32Array(numSamples);
+    public async processFile(inputPath: string, outputPath: string, pot0: number = 0.5, pot1: number = 0.5, pot2: number = 0.5, sampleRate: number = SIMULATION_SAMPLE_RATES[0]): Promise<void> {
+        const input = await readWavFile(inputPath, sampleRate);
+        const numSamples = input.left.length;
         const outputL = new Float32Array(numSamples);
         const outputR = new Float32Array(numSamples);
 
-        // De-interleave and convert to float (-1.0 to 1.0)
-        for (let i = 0; i < numSamples; i++) {
-            const offset = dataOffset + i * numChannels * 2;
-
-            // Read Left
-            const intL = inputBuffer.readInt16LE(offset);
-            inputL[i] = intL / 32768.0;
-
-            // Read Right (if stereo, otherwise duplicate Left)
-            if (numChannels === 2) {
-                const intR = inputBuffer.readInt16LE(offset + 2);
-                inputR[i] = intR / 32768.0;
-            } else {
-                inputR[i] = inputL[i];
-            }
-        }
-
         // Reset simulator state before processing
         this.simulator.reset();
 
         // Process Audio
-        console.log(`Processing ${numSamples} samples at ${sampleRate}Hz...`);
-        this.simulator.processBlock(inputL, inputR, outputL, outputR, pot0, pot1, pot2);
+        console.log(`Processing ${numSamples} samples at ${input.sampleRate}Hz...`);
+        this.simulator.processBlock(input.left, input.right, outputL, outputR, pot0, pot1, pot2);
 
-        // Interleave and convert back to 16-bit PCM
-        const outputBuffer = Buffer.alloc(dataOffset + dataSize);
+        await writeWavFile(outputPath, { left: outputL, right: outputR, sampleRate: input.sampleRate }, input.format);
+        console.log(`Processed audio saved to ${outputPath}`);
+    }
 
-        // Copy header from input
-        inputBuffer.copy(outputBuffer, 0, 0, dataOffset);
+    /**
+     * Run audio through the simulator, following automated POT values. Automated POTs, and
+     * POTs through the POT model, are updated every sample as in a debug session.
+     * The simulator is reset first.
+     * @returns The output, or undefined if the render was cancelled
+     */
+    public async render(inputL: Float32Array, inputR: Float32Array, options: RenderOptions): Promise<StereoAudio | undefined> {
+        const numSamples = inputL.length;
+        const outputL = new Float32Array(numSamples);
+        const outputR = new Float32Array(numSamples);
+        const potAt = (pot: PotAutomation, time: number) =>
+            Math.max(0, Math.min(1, typeof pot === 'number' ? pot : pot(time)));
+
+        const positions = options.pots.map(pot => potAt(pot, 0));
+        const potModel = options.potModel ? new FV1PotModel(options.potModel, options.sampleRate) : null;
+        potModel?.reset(positions);
+        const perSamplePots = potModel !== null || options.pots.some(pot => typeof pot !== 'number');
+
+        // The ADC does not depend on the program, so the whole input is converted up front
+        const codec = options.codecModel ? new FV1CodecModel(options.codecModel, options.sampleRate) : null;
+        if (codec) {
+            inputL = inputL.slice();
+            inputR = inputR.slice();
+            codec.processInputBuffers(inputL, inputR);
+        }
 
-        for (let i = 0; i < numSamples; i++) {
-            const offset = dataOffset + i * numChannels * 2;
-
-            // Clamp and convert Left
-            let valL = Math.max(-1.0, Math.min(1.0, outputL[i]));
-            let intL = Math.floor(valL * 32767);
-            outputBuffer.writeInt16LE(intL, offset);
-
-            // Clamp and convert Right
-            if (numChannels === 2) {
-                let valR = Math.max(-1.0, Math.min(1.0, outputR[i]));
-                let intR = Math.floor(valR * 32767);
-                outputBuffer.writeInt16LE(intR, offset + 2);
+        this.simulator.reset();
+
+        for (let start = 0; start < numSamples; start += SAMPLES_PER_YIELD) {
+            options.onProgress?.(start / numSamples);
+            await new Promise(resolve => setImmediate(resolve));
+            if (options.isCancelled?.()) {
+                return undefined;
+            }
+
+            const end = Math.min(start + SAMPLES_PER_YIELD, numSamples);
+            if (perSamplePots) {
+                for (let i = start; i < end; i++) {
+                    const time = i / options.sampleRate;
+                    for (let p = 0; p < positions.length; p++) {
+                        positions[p] = potAt(options.pots[p], time);
+                    }
+                    const [pot0, pot1, pot2] = potModel ? potModel.process(positions) : positions;
+                    const [dacL, dacR] = this.simulator.step(inputL[i], inputR[i], pot0, pot1, pot2, false);
+                    outputL[i] = dacL;
+                    outputR[i] = dacR;
+                }
+            } else {
+                const [pot0, pot1, pot2] = positions;
+                this.simulator.processBlock(
+                    inputL.subarray(start, end), inputR.subarray(start, end),
+                    outputL.subarray(start, end), outputR.subarray(start, end),
+                    pot0, pot1, pot2
+                );
             }
+            codec?.processOutputBuffers(outputL.subarray(start, end), outputR.subarray(start, end));
         }
 
-        await fs.promises.writeFile(outputPath, outputBuffer);
-        console.log(`Processed audio saved to ${outputPath}`);
+        options.onProgress?.(1);
+        return { left: outputL, right: outputR, sampleRate: options.sampleRate };
     }
 
     /**
@@ -110,28 +144,6 @@ export class FV1AudioProcessor {
         this.simulator.reset();
         this.simulator.processBlock(inputL, inputR, outputL, outputR, 0.5, 0.5, 0.5);
 
-        // Write WAV
-        const headerSize = 44;
-        const dataSize = numSamples * 2 * 2; // 2 channels * 2 bytes
-        const buffer = Buffer.alloc(headerSize + dataSize);
-
-        // WAV Header
-        buffer.write('RIFF', 0);
-        buffer.writeUInt32LE(36 + dataSize, 4);
-        buffer.write('WAVE', 8);
-        buffer.write('fmt ', 12);
-        buffer.writeUInt32LE(16, 16); // Subchunk1Size
-        buffer.writeUInt16LE(1, 20); // AudioFormat (PCM)
-        buffer.writeUInt16LE(2, 22); // NumChannels
-        buffer.writeUInt32LE(sampleRate, 24);
-        buffer.writeUInt32LE(sampleRate * 2 * 2, 28); // ByteRate
-        buffer.writeUInt16LE(4, 32); // BlockAlign
-        buffer.writeUInt16LE(16, 34); // BitsPerSample
-        buffer.write('data', 36);
-        buffer.writeUInt32LE(dataSize, 40);
-
-        // Write Data
-        // ... (Reuse write logic from processFile or extract helper)
-        // For brevity, assuming processFile logic is sufficient for user testing.
+        await writeWavFile(outputPath, { left: outputL, right: outputR, sampleRate });
     }
 }
\ No newline at end of file
@@ -1,15 +1,15 @@
 import * as fs from 'fs';
+import { readWavFile } from './FV1WavFile.js';
 
 /**
- * Handles streaming samples from a 16-bit PCM WAV file.
+ * Handles streaming samples from a WAV file, resampled to the simulation rate.
  */
 export class FV1AudioStreamer {
-    private buffer: Buffer | null = null;
+    private left: Float32Array | null = null;
+    private right: Float32Array | null = null;
     private sampleRate: number = 32768;
-    private numChannels: number = 2;
     private numSamples: number = 0;
     private currentSample: number = 0;
-    private dataOffset: number = 44;
     private lastL: number = 0;
     private lastR: number = 0;
     private noiseEnabled: boolean = false;
@@ -17,43 +17,22 @@ export class FV1AudioStreamer {
 
     /**
      * Loads a WAV file into memory.
+     * @param sampleRate The simulation rate to resample the file to (the file's own rate if omitted)
      */
-    public async loadWav(path: string): Promise<void> {
+    public async loadWav(path: string, sampleRate?: number): Promise<void> {
         if (!fs.existsSync(path)) {
             throw new Error(`WAV file not found: ${path}`);
         }
-        this.buffer = await fs.promises.readFile(path);
-
-        // Basic RIFF/WAV parsing
-        const riff = this.buffer.toString('ascii', 0, 4);
-        if (riff !== 'RIFF') throw new Error('Not a valid RIFF file');
-
-        const wave = this.buffer.toString('ascii', 8, 12);
-        if (wave !== 'WAVE') throw new Error('Not a valid WAVE file');
-
-        this.numChannels = this.buffer.readUInt16LE(22);
-        this.sampleRate = this.buffer.readUInt32LE(24);
-        const bitsPerSample = this.buffer.readUInt16LE(34);
-
-        if (bitsPerSample !== 16) {
-            throw new Error(`Only 16-bit PCM WAV files are supported. Found: ${bitsPerSample}-bit`);
-        }
-
-        // Find data chunk (it's not always at offset 44)
-        let offset = 12;
-        while (offset < this.buffer.length) {
-            const chunkId = this.buffer.toString('ascii', offset, offset + 4);
-            const chunkSize = this.buffer.readUInt32LE(offset + 4);
-            if (chunkId === 'data') {
-                this.dataOffset = offset + 8;
-                this.numSamples = chunkSize / (this.numChannels * 2);
-                break;
-            }
-            offset += 8 + chunkSize;
-        }
 
+        const wav = await readWavFile(path, sampleRate);
+        this.left = wav.left;
+        this.right = wav.right;
+        this.sampleRate = wav.sampleRate;
+        this.numSamples = wav.left.length;
         this.currentSample = 0;
-        console.log(`Loaded WAV: ${path}, ${this.sampleRate}Hz, ${this.numChannels} channels, ${this.numSamples} samples`);
+
+        const encoding = `${wav.format.bitsPerSample}-bit ${wav.format.float ? 'float' : 'PCM'}`;
+        console.log(`Loaded WAV: ${path}, ${encoding}, ${wav.numChannels} channels, ${this.numSamples} samples at ${this.sampleRate}Hz`);
     }
 
     /**
@@ -69,7 +48,7 @@ export class FV1AudioStreamer {
             return { l: this.lastL, r: this.lastR };
         }
 
-        if (!this.buffer || this.numSamples === 0) {
+        if (!this.left || this.numSamples === 0) {
             return { l: 0, r: 0 };
         }
 
@@ -77,20 +56,8 @@ export class FV1AudioStreamer {
             this.currentSample = 0; // Loop the audio
         }
 
-        const offset = this.dataOffset + this.currentSample * this.numChannels * 2;
-        if (offset + (this.numChannels * 2) > this.buffer.length) {
-            this.currentSample = 0;
-            return { l: 0, r: 0 };
-        }
-
-        const intL = this.buffer.readInt16LE(offset);
-        this.lastL = intL / 32768.0;
-
-        this.lastR = this.lastL;
-        if (this.numChannels === 2) {
-            const intR = this.buffer.readInt16LE(offset + 2);
-            this.lastR = intR / 32768.0;
-        }
+        this.lastL = this.left[this.currentSample];
+        this.lastR = this.right![this.currentSample];
 
         this.currentSample++;
         return { l: this.lastL, r: this.lastR };
@@ -109,7 +76,7 @@ export class FV1AudioStreamer {
     }
 
     public isLoaded(): boolean {
-        return this.buffer !== null;
+        return this.left !== null;
     }
 
     public getNumSamples(): number {
@@ -121,7 +88,8 @@ export class FV1AudioStreamer {
     }
 
     public unload() {
-        this.buffer = null;
+        this.left = null;
+        this.right = null;
         this.numSamples = 0;
         this.currentSample = 0;
         this.lastL = 0;
@@ -0,0 +1,203 @@
+/**
+ * Settings of the ADC/DAC codec model
+ */
+export interface CodecModelOptions {
+    /** Level (dBFS) at which the ADC input clips */
+    inputClipDb: number;
+    /** Level (dBFS) at which the analog output stage clips */
+    outputClipDb: number;
+    /** Corner of the DC-blocking high-pass on the ADC and DAC, in Hz (0 to disable) */
+    dcBlockHz: number;
+    /** Corner of the anti-alias and reconstruction low-pass filters, in Hz (0 to disable; defaults to 45% of the sample rate) */
+    filterHz?: number;
+    /** RMS level (dBFS) of the noise added by the ADC and DAC (null to disable) */
+    noiseFloorDb: number | null;
+}
+
+export const DEFAULT_CODEC_MODEL: CodecModelOptions = {
+    inputClipDb: 0,
+    outputClipDb: 0,
+    dcBlockHz: 5,
+    noiseFloorDb: -90
+};
+
+/**
+ * The codec settings of a launch configuration's codecModel attribute: true for the
+ * defaults, or an object overriding some of them. Returns undefined when the model is off.
+ */
+export function resolveCodecModelOptions(value: any): CodecModelOptions | undefined {
+    if (value === undefined || value === null || value === false) return undefined;
+    if (value === true) return { ...DEFAULT_CODEC_MODEL };
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('codecModel must be true, false or an object of codec settings');
+    }
+
+    const isNumber = (v: any) => typeof v === 'number' && isFinite(v);
+    for (const key of Object.keys(value)) {
+        const v = value[key];
+        switch (key) {
+            case 'inputClipDb':
+            case 'outputClipDb':
+                if (!isNumber(v)) throw new Error(`codecModel ${key} must be a level in dBFS`);
+                break;
+            case 'dcBlockHz':
+            case 'filterHz':
+                if (!isNumber(v) || v < 0) throw new Error(`codecModel ${key} must be a frequency in Hz (0 to disable)`);
+                break;
+            case 'noiseFloorDb':
+                if (v !== null && !isNumber(v)) throw new Error('codecModel noiseFloorDb must be a level in dBFS, or null to disable');
+                break;
+            default:
+                throw new Error(`codecModel: unknown setting "${key}"`);
+        }
+    }
+    return { ...DEFAULT_CODEC_MODEL, ...value };
+}
+
+/**
+ * A biquad section in transposed direct form II
+ */
+class Biquad {
+    private z1 = 0;
+    private z2 = 0;
+
+    constructor(private b0: number, private b1: number, private b2: number, private a1: number, private a2: number) { }
+
+    /**
+     * RBJ cookbook low-pass
+     */
+    public static lowPass(frequency: number, q: number, sampleRate: number): Biquad {
+        const w0 = 2 * Math.PI * frequency / sampleRate;
+        const alpha = Math.sin(w0) / (2 * q);
+        const cos = Math.cos(w0);
+        const a0 = 1 + alpha;
+        return new Biquad((1 - cos) / 2 / a0, (1 - cos) / a0, (1 - cos) / 2 / a0, -2 * cos / a0, (1 - alpha) / a0);
+    }
+
+    public process(x: number): number {
+        const y = this.b0 * x + this.z1;
+        this.z1 = this.b1 * x - this.a1 * y + this.z2;
+        this.z2 = this.b2 * x - this.a2 * y;
+        return y;
+    }
+
+    public reset() {
+        this.z1 = 0;
+        this.z2 = 0;
+    }
+}
+
+// Q of the two sections of a 4th-order Butterworth filter
+const BUTTERWORTH_4_Q = [0.5412, 1.3066];
+
+/**
+ * One channel of a converter: clipping, 4th-order low-pass, DC-blocking high-pass and noise
+ */
+class ConverterChannel {
+    private filters: Biquad[];
+    private dcCoefficient: number;
+    private dcIn = 0;
+    private dcOut = 0;
+
+    constructor(private clipLevel: number, filterHz: number, dcBlockHz: number, private noiseAmplitude: number, sampleRate: number, private clipFirst: boolean) {
+        this.filters = filterHz > 0 && filterHz < sampleRate / 2
+            ? BUTTERWORTH_4_Q.map(q => Biquad.lowPass(filterHz, q, sampleRate))
+            : [];
+        this.dcCoefficient = dcBlockHz > 0 ? Math.exp(-2 * Math.PI * dcBlockHz / sampleRate) : 0;
+    }
+
+    public process(x: number): number {
+        // The ADC overloads before it filters; the DAC's output stage clips after it
+        if (this.clipFirst) x = this.clip(x);
+        if (this.noiseAmplitude > 0) {
+            // Uniform noise with the requested RMS level
+            x += (Math.random() * 2 - 1) * this.noiseAmplitude;
+        }
+        for (const filter of this.filters) {
+            x = filter.process(x);
+        }
+        if (this.dcCoefficient > 0) {
+            const y = x - this.dcIn + this.dcCoefficient * this.dcOut;
+            this.dcIn = x;
+            this.dcOut = y;
+            x = y;
+        }
+        return this.clipFirst ? x : this.clip(x);
+    }
+
+    public reset() {
+        this.filters.forEach(f => f.reset());
+        this.dcIn = 0;
+        this.dcOut = 0;
+    }
+
+    private clip(x: number): number {
+        return x > this.clipLevel ? this.clipLevel : x < -this.clipLevel ? -this.clipLevel : x;
+    }
+}
+
+/**
+ * Models the stereo codec around the FV-1: the ADC feeding ADCL/ADCR and the DAC
+ * driven by DACL/DACR. Without it, WAV samples reach the program and the output
+ * unchanged, which sounds cleaner than the pedal.
+ */
+export class FV1CodecModel {
+    private adc: ConverterChannel[];
+    private dac: ConverterChannel[];
+    private result = new Float64Array(2);
+
+    constructor(options: CodecModelOptions, sampleRate: number) {
+        const level = (db: number) => Math.pow(10, db / 20);
+        const filterHz = options.filterHz ?? sampleRate * 0.45;
+        // Uniform noise in [-a, a] has an RMS of a / sqrt(3)
+        const noise = options.noiseFloorDb === null ? 0 : level(options.noiseFloorDb) * Math.sqrt(3);
+        const channel = (clipDb: number, clipFirst: boolean) =>
+            new ConverterChannel(level(clipDb), filterHz, options.dcBlockHz, noise, sampleRate, clipFirst);
+        this.adc = [channel(options.inputClipDb, true), channel(options.inputClipDb, true)];
+        this.dac = [channel(options.outputClipDb, false), channel(options.outputClipDb, false)];
+    }
+
+    /**
+     * Convert an input sample pair as the ADC would
+     * @returns ADCL and ADCR (reused between calls)
+     */
+    public processInput(l: number, r: number): Float64Array {
+        this.result[0] = this.adc[0].process(l);
+        this.result[1] = this.adc[1].process(r);
+        return this.result;
+    }
+
+    /**
+     * Convert an output sample pair as the DAC would
+     * @returns The left and right outputs (reused between calls)
+     */
+    public processOutput(l: number, r: number): Float64Array {
+        this.result[0] = this.dac[0].process(l);
+        this.result[1] = this.dac[1].process(r);
+        return this.result;
+    }
+
+    /**
+     * Run buffers through the ADC in place
+     */
+    public processInputBuffers(l: Float32Array, r: Float32Array) {
+        for (let i = 0; i < l.length; i++) {
+            l[i] = this.adc[0].process(l[i]);
+            r[i] = this.adc[1].process(r[i]);
+        }
+    }
+
+    /**
+     * Run buffers through the DAC in place
+     */
+    public processOutputBuffers(l: Float32Array, r: Float32Array) {
+        for (let i = 0; i < l.length; i++) {
+            l[i] = this.dac[0].process(l[i]);
+            r[i] = this.dac[1].process(r[i]);
+        }
+    }
+
+    public reset() {
+        [...this.adc, ...this.dac].forEach(c => c.reset());
+    }
+}
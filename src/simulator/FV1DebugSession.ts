@@ -4,8 +4,15 @@ import * as path from 'path';
 import { FV1Simulator, type FV1AssemblerResult } from '@audiofab-io/fv1-core';
 import { FV1AudioStreamer } from './FV1AudioStreamer.js';
 import { FV1AudioEngine } from './FV1AudioEngine.js';
+import {
+    describePotAutomation, evaluatePotLane, loadPotAutomation, potAutomationSidecarPath, potLanes, validatePotAutomation,
+    POT_KEYS, type PotAutomationConfig, type PotLane
+} from './FV1PotAutomation.js';
+import { FV1PotModel, getPotModelOptions } from './FV1PotModel.js';
+import { FV1CodecModel, resolveCodecModelOptions } from './FV1CodecModel.js';
 import { AssemblyService } from '../services/AssemblyService.js';
 import { resolveToUri, isUri } from '../core/editor-utils.js';
+import type { SourceLocation } from '../core/fv1Preprocessor.js';
 
 export class FV1DebugSession implements vscode.DebugAdapter {
     private simulator: FV1Simulator;
@@ -14,10 +21,11 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
     private sourcePath: string = '';
     private addressToLineMap = new Map<number, number>();
-    private lineToAddressMap = new Map<number, number>();
+    private addressToSourceMap = new Map<number, SourceLocation>(); // Exact origin, including instructions from included files
+    private lineToAddressMap = new Map<string, Map<number, number>>(); // Per source path
     private maxMappedAddr = -1;
     private breakpoints = new Set<number>();
-    private rawBreakpoints: any[] = []; // Store raw breakpoint info from client
+    private rawBreakpoints = new Map<string, any[]>(); // Store raw breakpoint info from client, per source path
     private isRunning = false;
     private stopOnEntry = false;
     private oscilloscopeEnabled: boolean = true;
@@ -40,6 +48,14 @@ export class FV1DebugSession implements vscode.DebugAdapter {
     private bypassActive: boolean = false;
     private potValues: number[] = [0.5, 0.5, 0.5];
 
+    // POT automation, evaluated against the simulated time since launch or restart
+    private potAutomationLanes: (PotLane | undefined)[] = [];
+    private potAutomationPath: string | null = null; // Where recorded moves are saved
+    private samplesRun = 0;
+    private potRecording: { startSample: number, points: [number, number][][] } | null = null;
+    private potModel: FV1PotModel | null = null; // Hardware POT ADC and smoothing, when enabled
+    private codecModel: FV1CodecModel | null = null; // ADC/DAC model around the simulator, from the launch configuration
+
     // Variables storage
     private nextVarHandle = 1;
     private varHandles = new Map<number, { type: string, getter: () => any[] }>();
@@ -67,6 +83,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
                 const updatedConfig = vscode.workspace.getConfiguration('fv1.simulation');
                 this.oscilloscopeEnabled = updatedConfig.get<boolean>('visualizationsEnabled') ?? true;
                 this.oscilloscopeRefreshRate = updatedConfig.get<number>('oscilloscopeRefreshRate') ?? 1;
+                this.createPotModel();
                 this.pushConfig();
             }
         });
@@ -184,8 +201,11 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
                 case 'restart':
                     this.simulator.reset();
+                    this.samplesRun = 0;
+                    this.codecModel?.reset();
                     // Re-apply current potentiometer values after reset
                     this.potValues.forEach((val, i) => this.simulator.setRegister(0x10 + i, val));
+                    this.createPotModel();
                     if (this.stopOnEntry) {
                         this.sendEvent('stopped', { reason: 'entry', threadId: 1 });
                     } else {
@@ -345,6 +365,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
         this.sourcePath = args.program;
         this.stopOnEntry = !!args.stopOnEntry;
         this.sampleRate = args.sampleRate || 32768;
+        this.samplesRun = 0;
 
         if (!this.sourcePath) {
             response.success = false;
@@ -376,7 +397,21 @@ export class FV1DebugSession implements vscode.DebugAdapter {
                     case 'potChange':
                         if (m.pot >= 0 && m.pot <= 2) {
                             this.potValues[m.pot] = m.value;
-                            this.simulator.setRegister(0x10 + m.pot, m.value);
+                            // With the POT model on, the register follows the knob through the model
+                            if (!this.potModel) {
+                                this.simulator.setRegister(0x10 + m.pot, m.value);
+                            }
+                            if (this.potRecording) {
+                                const time = (this.samplesRun - this.potRecording.startSample) / this.sampleRate;
+                                this.potRecording.points[m.pot].push([time, m.value]);
+                            }
+                        }
+                        break;
+                    case 'potRecord':
+                        if (m.active) {
+                            this.startPotRecording();
+                        } else {
+                            this.stopPotRecording();
                         }
                         break;
                     case 'stimulusChange':
@@ -427,7 +462,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
         const resolvedPath = wavToLoad ? this.resolveWavPath(wavToLoad, args.cwd) : null;
         if (resolvedPath) {
             try {
-                await this.audioStreamer.loadWav(resolvedPath);
+                await this.audioStreamer.loadWav(resolvedPath, this.sampleRate);
                 const msg = `WAV file loaded: ${resolvedPath} (${this.audioStreamer.getNumSamples()} samples)`;
                 console.log(msg);
                 this.sendEvent('output', { category: 'console', output: msg + '\n' });
@@ -446,6 +481,22 @@ export class FV1DebugSession implements vscode.DebugAdapter {
             }
         }
 
+        // POT automation from the launch configuration, or the program's .pots.json sidecar
+        this.loadPotAutomation(args);
+
+        // Optional ADC/DAC model
+        this.codecModel = null;
+        try {
+            const codecOptions = resolveCodecModelOptions(args.codecModel);
+            if (codecOptions) {
+                this.codecModel = new FV1CodecModel(codecOptions, this.sampleRate);
+                this.sendEvent('output', { category: 'console', output: `Codec model: clip ${codecOptions.inputClipDb}/${codecOptions.outputClipDb} dBFS, noise floor ${codecOptions.noiseFloorDb ?? 'off'}${codecOptions.noiseFloorDb === null ? '' : ' dBFS'}\n` });
+            }
+        } catch (e: any) {
+            this.sendEvent('output', { category: 'stderr', output: `${e.message}\n` });
+            vscode.window.showErrorMessage(e.message);
+        }
+
         // Send initial heartbeat to Monitor UI
         if (this.audioEngine) {
             const lastSample = this.audioStreamer.getLastSample();
@@ -468,6 +519,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
         this.simulator.loadProgram(new Uint32Array(result.machineCode));
         this.addressToLineMap = result.addressToLineMap;
+        this.addressToSourceMap = result.addressToSourceMap ?? new Map();
         this.symbols = result.symbols;
         this.memories = result.memories;
         this.symbolsChanged = true;
@@ -479,7 +531,10 @@ export class FV1DebugSession implements vscode.DebugAdapter {
         this.lineToAddressMap.clear();
         this.maxMappedAddr = -1;
         for (const [addr, line] of this.addressToLineMap) {
-            this.lineToAddressMap.set(line, addr);
+            // Breakpoints can be set in included files as well as on the include line itself
+            this.mapLineToAddress(this.sourcePath, line, addr);
+            const origin = this.addressToSourceMap.get(addr);
+            if (origin) this.mapLineToAddress(origin.file, origin.line, addr);
             if (addr > this.maxMappedAddr) this.maxMappedAddr = addr;
         }
 
@@ -492,6 +547,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
             // Apply to simulator registers
             this.potValues.forEach((val, i) => this.simulator.setRegister(0x10 + i, val));
         }
+        this.createPotModel();
 
         // Re-verify breakpoints now that we have the line map
         this.verifyBreakpoints();
@@ -512,6 +568,128 @@ export class FV1DebugSession implements vscode.DebugAdapter {
         this.registerTraceCommands();
     }
 
+    private loadPotAutomation(args: any) {
+        this.potAutomationLanes = [];
+        this.potAutomationPath = null;
+
+        let programPath: string | null = null;
+        try {
+            programPath = resolveToUri(this.sourcePath).fsPath;
+        } catch {
+            // Virtual documents have no sidecar
+        }
+        const sidecar = programPath ? potAutomationSidecarPath(programPath) : null;
+
+        let automation: PotAutomationConfig | null = null;
+        try {
+            if (typeof args.potAutomation === 'string') {
+                const automationPath = path.resolve(args.cwd || (programPath ? path.dirname(programPath) : ''), args.potAutomation);
+                automation = loadPotAutomation(automationPath);
+                this.potAutomationPath = automationPath;
+            } else if (args.potAutomation) {
+                automation = validatePotAutomation(args.potAutomation);
+            } else if (sidecar && fs.existsSync(sidecar)) {
+                automation = loadPotAutomation(sidecar);
+                this.potAutomationPath = sidecar;
+            }
+        } catch (e: any) {
+            this.sendEvent('output', { category: 'stderr', output: `${e.message}\n` });
+            vscode.window.showErrorMessage(e.message);
+        }
+
+        // Recordings go to the automation file in use, or the sidecar (not into an inline launch config)
+        this.potAutomationPath = this.potAutomationPath ?? (args.potAutomation ? null : sidecar);
+
+        if (automation) {
+            this.potAutomationLanes = potLanes(automation);
+            const described = describePotAutomation(automation);
+            if (described) {
+                this.sendEvent('output', { category: 'console', output: `POT automation: ${described}\n` });
+            }
+        }
+        this.pushPotAutomationState();
+    }
+
+    /**
+     * The POT values for the sample about to run: automated POTs follow their lane,
+     * the others the register values set from the sliders
+     */
+    private potsForSample(manual: number[]): number[] {
+        if (this.potAutomationLanes.length === 0) return manual;
+        const time = this.samplesRun / this.sampleRate;
+        return this.potAutomationLanes.map((lane, i) => lane ? evaluatePotLane(lane, time) : manual[i]);
+    }
+
+    /**
+     * The POT register values for the next sample: the slider or automation position,
+     * passed through the hardware POT model when it is enabled
+     */
+    private nextPots(manual: number[]): number[] {
+        const positions = this.potsForSample(manual);
+        return this.potModel ? this.potModel.process(positions) : positions;
+    }
+
+    private createPotModel() {
+        const options = getPotModelOptions(vscode.workspace.getConfiguration('fv1.simulation'));
+        this.potModel = options ? new FV1PotModel(options, this.sampleRate) : null;
+        // Start settled at the current positions rather than gliding up from zero
+        this.potModel?.reset(this.potsForSample(this.potValues));
+    }
+
+    /**
+     * Show automated POT positions on the Audio Monitor sliders, which are locked while automated
+     */
+    private pushPotAutomationState(values?: (number | null)[]) {
+        if (!this.audioEngine) return;
+        this.audioEngine.playBuffer(new Float32Array(0), new Float32Array(0), 0, 0, {
+            type: 'config',
+            potAutomated: [0, 1, 2].map(i => !!this.potAutomationLanes[i]),
+            potValues: values
+        });
+    }
+
+    private startPotRecording() {
+        // Every lane starts from where its slider is when recording begins
+        this.potRecording = {
+            startSample: this.samplesRun,
+            points: this.potValues.map((value): [number, number][] => [[0, value]])
+        };
+        this.sendEvent('output', { category: 'console', output: `Recording POT moves...\n` });
+    }
+
+    private stopPotRecording() {
+        const recording = this.potRecording;
+        this.potRecording = null;
+        if (!recording) return;
+
+        const moved = recording.points.map((points, i) => points.length > 1 ? i : -1).filter(i => i >= 0);
+        if (moved.length === 0) {
+            this.sendEvent('output', { category: 'console', output: `POT recording stopped: no POTs were moved\n` });
+            return;
+        }
+        if (!this.potAutomationPath) {
+            vscode.window.showWarningMessage('POT automation is set inline in the launch configuration, so recorded moves cannot be saved. Set "potAutomation" to a file path instead.');
+            return;
+        }
+
+        try {
+            // Keep the lanes of POTs that were not moved
+            const automation: PotAutomationConfig = fs.existsSync(this.potAutomationPath)
+                ? loadPotAutomation(this.potAutomationPath)
+                : {};
+            for (const i of moved) {
+                automation[POT_KEYS[i]] = { type: 'recorded', points: recording.points[i].map(([t, v]): [number, number] => [Number(t.toFixed(4)), Number(v.toFixed(4))]) };
+            }
+            fs.writeFileSync(this.potAutomationPath, JSON.stringify(automation, null, 2), 'utf8');
+
+            const msg = `Saved recorded moves of ${moved.map(i => `POT${i}`).join(', ')} to ${path.basename(this.potAutomationPath)}. They replay on the next run or render.`;
+            this.sendEvent('output', { category: 'console', output: msg + '\n' });
+            vscode.window.showInformationMessage(msg);
+        } catch (e: any) {
+            this.sendEvent('output', { category: 'stderr', output: `Failed to save POT recording: ${e.message}\n` });
+        }
+    }
+
     private resolveWavPath(wavPath: string, cwd?: string): string | null {
         if (path.isAbsolute(wavPath) && fs.existsSync(wavPath)) {
             return wavPath;
@@ -573,21 +751,7 @@ export class FV1DebugSession implements vscode.DebugAdapter {
     }
 
     private verifyBreakpoints() {
-        this.breakpoints.clear();
-        const actualBps: any[] = [];
-
-        for (const bp of this.rawBreakpoints) {
-            const line = bp.line;
-            const addr = this.lineToAddressMap.get(line);
-            if (addr !== undefined) {
-                this.breakpoints.add(addr);
-                actualBps.push({ verified: true, line: line });
-            } else {
-                actualBps.push({ verified: false, line: line });
-            }
-        }
-
-        this.simulator.setBreakpoints(this.breakpoints);
+        const actualBps = [...this.resolveBreakpoints().values()].flat();
 
         // Send breakpoint events to update the UI
         for (const bp of actualBps) {
@@ -599,33 +763,54 @@ export class FV1DebugSession implements vscode.DebugAdapter {
     }
 
     private setBreakpoints(args: any, response: any) {
-        this.rawBreakpoints = args.breakpoints || [];
-        const actualBps: any[] = [];
+        const sourcePath = args.source?.path ?? this.sourcePath;
+        this.rawBreakpoints.set(this.normalizeSourcePath(sourcePath), args.breakpoints || []);
+        response.body = { breakpoints: this.resolveBreakpoints().get(this.normalizeSourcePath(sourcePath)) ?? [] };
+    }
+
+    /**
+     * Convert the client's breakpoints in every source into program addresses,
+     * returning the verified state of each per source path
+     */
+    private resolveBreakpoints(): Map<string, any[]> {
+        const actualBps = new Map<string, any[]>();
         this.breakpoints.clear();
 
-        for (const bp of this.rawBreakpoints) {
-            const line = bp.line;
-            const addr = this.lineToAddressMap.get(line);
-            if (addr !== undefined) {
-                this.breakpoints.add(addr);
-                actualBps.push({ verified: true, line: line });
-            } else {
-                actualBps.push({ verified: false, line: line });
-            }
+        for (const [sourcePath, bps] of this.rawBreakpoints) {
+            // Sources that are not part of the program (e.g. the generated assembly of a block diagram) use the program's own line map
+            const lines = this.lineToAddressMap.get(sourcePath) ?? this.lineToAddressMap.get(this.normalizeSourcePath(this.sourcePath));
+            actualBps.set(sourcePath, bps.map(bp => {
+                const addr = lines?.get(bp.line);
+                if (addr !== undefined) this.breakpoints.add(addr);
+                return { verified: addr !== undefined, line: bp.line };
+            }));
         }
 
         this.simulator.setBreakpoints(this.breakpoints);
-        response.body = { breakpoints: actualBps };
+        return actualBps;
+    }
+
+    private mapLineToAddress(sourcePath: string, line: number, addr: number) {
+        const key = this.normalizeSourcePath(sourcePath);
+        if (!this.lineToAddressMap.has(key)) this.lineToAddressMap.set(key, new Map());
+        const lines = this.lineToAddressMap.get(key)!;
+        // An include line maps to the first instruction it pulls in
+        if (!lines.has(line)) lines.set(line, addr);
+    }
+
+    private normalizeSourcePath(sourcePath: string): string {
+        return isUri(sourcePath) ? sourcePath : vscode.Uri.file(sourcePath).fsPath;
     }
 
     private stackTrace(_args: any, response: any) {
         const pc = this.simulator.getPC();
-        const line = this.addressToLineMap.get(pc) || 1;
+        const origin = this.addressToSourceMap.get(pc);
+        const line = origin?.line || this.addressToLineMap.get(pc) || 1;
 
         // Determine if we should show the source location.
         // If it's a block diagram, we only show source if the virtual assembly file is actually open/visible.
         let showSource = true;
-        let effectiveSourcePath = this.sourcePath;
+        let effectiveSourcePath = origin?.file ?? this.sourcePath;
 
         if (this.sourcePath.endsWith('.spndiagram')) {
             const virtualPath = this.sourcePath + '.spn';
@@ -890,7 +1075,10 @@ export class FV1DebugSession implements vscode.DebugAdapter {
             this.simulator.endFrame();
             const sample = this.audioStreamer.isLoaded() ? this.audioStreamer.getNextSample() : { l: 0, r: 0 };
             const regs = this.simulator.getRegisters();
-            this.simulator.beginFrame(sample.l, sample.r, regs[16], regs[17], regs[18]);
+            const [pot0, pot1, pot2] = this.nextPots(this.potModel ? this.potValues : [regs[16], regs[17], regs[18]]);
+            const adc = this.codecModel ? this.codecModel.processInput(sample.l, sample.r) : [sample.l, sample.r];
+            this.simulator.beginFrame(adc[0], adc[1], pot0, pot1, pot2);
+            this.samplesRun++;
         }
         this.simulator.stepInstruction();
     }
@@ -918,9 +1106,11 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
         // Snapshot state BEFORE processing the block for more accurate visualization
         const regs = this.simulator.getRegisters();
-        const pot0 = regs[16];
-        const pot1 = regs[17];
-        const pot2 = regs[18];
+        // The POT model reads the sliders; otherwise the registers already hold the slider values
+        const manualPots = this.potModel ? [...this.potValues] : [regs[16], regs[17], regs[18]];
+        const automated = this.potAutomationLanes.some(lane => lane);
+        const perSamplePots = automated || this.potModel !== null;
+        let [pot0, pot1, pot2] = manualPots;
         const snapshotDelayPtr = this.simulator.getDelayPointer();
         const snapshotAddrPtr = regs[24];
 
@@ -935,7 +1125,21 @@ export class FV1DebugSession implements vscode.DebugAdapter {
         for (let i = 0; i < samplesToProcess; i++) {
             const inSample = this.audioStreamer.getNextSample();
             const skip = isFirstStep && i === 0;
-            const [oL, oR, breakpointHit] = this.simulator.step(inSample.l, inSample.r, pot0, pot1, pot2, skip);
+            if (perSamplePots) {
+                [pot0, pot1, pot2] = this.nextPots(manualPots);
+            }
+            let adcL = inSample.l;
+            let adcR = inSample.r;
+            if (this.codecModel) {
+                const adc = this.codecModel.processInput(adcL, adcR);
+                adcL = adc[0];
+                adcR = adc[1];
+            }
+            const [dacL, dacR, breakpointHit] = this.simulator.step(adcL, adcR, pot0, pot1, pot2, skip);
+            const dac = this.codecModel ? this.codecModel.processOutput(dacL, dacR) : [dacL, dacR];
+            const oL = dac[0];
+            const oR = dac[1];
+            this.samplesRun++;
 
             // Sample all 64 registers at the configured refresh rate
             if (this.oscilloscopeEnabled && i % this.oscilloscopeRefreshRate === 0 && traceIdx < numSamplesPerTrace) {
@@ -992,6 +1196,11 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
             this.audioEngine.playBuffer(outL, outR, lastSample.l, lastSample.r, metadata);
             this.symbolsChanged = false;
+
+            if (automated) {
+                const values = [pot0, pot1, pot2];
+                this.pushPotAutomationState(values.map((value, i) => this.potAutomationLanes[i] ? value : null));
+            }
         }
 
         const elapsed = Date.now() - startTime;
@@ -1027,6 +1236,9 @@ export class FV1DebugSession implements vscode.DebugAdapter {
 
     public dispose() {
         this.isRunning = false;
+        this.stopPotRecording();
+        this.potAutomationLanes = [];
+        this.pushPotAutomationState();
         if (this.timerHandle) {
             clearTimeout(this.timerHandle);
             this.timerHandle = null;
@@ -1054,13 +1266,13 @@ export class FV1DebugSession implements vscode.DebugAdapter {
             const wavFile = `src/simulator/wav/${m.value}-32kHz.wav`;
             const resolved = this.resolveWavPath(wavFile, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
             if (resolved) {
-                await this.audioStreamer.loadWav(resolved);
+                await this.audioStreamer.loadWav(resolved, this.sampleRate);
                 this.sendEvent('output', { category: 'console', output: `Input stimulus: ${m.value}\n` });
             }
         } else if (m.value === 'custom' && m.filePath) {
             this.audioStreamer.unload();
             try {
-                await this.audioStreamer.loadWav(m.filePath);
+                await this.audioStreamer.loadWav(m.filePath, this.sampleRate);
                 this.sendEvent('output', { category: 'console', output: `Input stimulus: ${path.basename(m.filePath)}\n` });
             } catch (e: any) {
                 this.sendEvent('output', { category: 'stderr', output: `Failed to load ${m.filePath}: ${e.message}\n` });
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PotAutomation } from './FV1AudioProcessor.js';
+
+/**
+ * Sweeps from one value to another over a duration, then holds (or starts again when looped)
+ */
+export interface RampLane {
+    type: 'ramp';
+    from: number;
+    to: number;
+    /** Seconds */
+    duration: number;
+    /** Seconds to hold the start value before the ramp begins */
+    delay?: number;
+    loop?: boolean;
+}
+
+/**
+ * Periodic movement between a minimum and maximum value
+ */
+export interface LfoLane {
+    type: 'lfo';
+    /** Hz */
+    rate: number;
+    shape?: 'sine' | 'triangle' | 'square' | 'saw';
+    min?: number;
+    max?: number;
+    /** Starting phase, 0.0 - 1.0 of a cycle */
+    phase?: number;
+}
+
+/**
+ * A sequence of values, each held for the same time. The last value holds (or the sequence starts again when looped).
+ */
+export interface StepLane {
+    type: 'steps';
+    values: number[];
+    /** Seconds per step */
+    stepDuration: number;
+    loop?: boolean;
+}
+
+/**
+ * Slider moves captured from the Audio Monitor, as [seconds, value] pairs in time order.
+ * Each value is held until the next move (or the moves start again after the last one when looped).
+ */
+export interface RecordedLane {
+    type: 'recorded';
+    points: [number, number][];
+    loop?: boolean;
+}
+
+export type PotLane = RampLane | LfoLane | StepLane | RecordedLane;
+
+/**
+ * Automation for POT0-POT2, as stored in a launch configuration or a .pots.json sidecar file.
+ * POTs without a lane keep following the Audio Monitor sliders.
+ */
+export interface PotAutomationConfig {
+    pot0?: PotLane;
+    pot1?: PotLane;
+    pot2?: PotLane;
+}
+
+export const POT_KEYS = ['pot0', 'pot1', 'pot2'] as const;
+
+/**
+ * The sidecar automation file of a program: program.spn -> program.pots.json
+ */
+export function potAutomationSidecarPath(programPath: string): string {
+    return path.join(path.dirname(programPath), `${path.basename(programPath, path.extname(programPath))}.pots.json`);
+}
+
+/**
+ * The lanes of an automation config in POT order
+ */
+export function potLanes(config: PotAutomationConfig): (PotLane | undefined)[] {
+    return POT_KEYS.map(key => config[key]);
+}
+
+/**
+ * The value (0.0 - 1.0) of a lane at a time in seconds. Lanes with an end play once unless `loop` is set.
+ */
+export function evaluatePotLane(lane: PotLane, time: number): number {
+    let value: number;
+    switch (lane.type) {
+        case 'ramp': {
+            let t = time - (lane.delay ?? 0);
+            if (lane.loop && lane.duration > 0 && t > 0) t %= lane.duration;
+            const progress = lane.duration > 0 ? Math.max(0, Math.min(1, t / lane.duration)) : (t >= 0 ? 1 : 0);
+            value = lane.from + (lane.to - lane.from) * progress;
+            break;
+        }
+        case 'lfo': {
+            const min = lane.min ?? 0;
+            const max = lane.max ?? 1;
+            const phase = ((time * lane.rate + (lane.phase ?? 0)) % 1 + 1) % 1;
+            let unit: number; // 0.0 - 1.0 over a cycle
+            switch (lane.shape ?? 'sine') {
+                case 'triangle': unit = phase < 0.5 ? phase * 2 : 2 - phase * 2; break;
+                case 'square': unit = phase < 0.5 ? 1 : 0; break;
+                case 'saw': unit = phase; break;
+                default: unit = 0.5 - 0.5 * Math.cos(2 * Math.PI * phase); break;
+            }
+            value = min + (max - min) * unit;
+            break;
+        }
+        case 'steps': {
+            let index = Math.floor(time / lane.stepDuration);
+            index = lane.loop ? index % lane.values.length : Math.min(index, lane.values.length - 1);
+            value = lane.values[Math.max(0, index)];
+            break;
+        }
+        case 'recorded': {
+            const points = lane.points;
+            const end = points[points.length - 1][0];
+            const t = lane.loop && end > 0 ? time % end : time;
+            // Last point at or before t
+            let lo = 0;
+            let hi = points.length - 1;
+            while (lo < hi) {
+                const mid = (lo + hi + 1) >> 1;
+                if (points[mid][0] <= t) lo = mid; else hi = mid - 1;
+            }
+            value = points[lo][1];
+            break;
+        }
+    }
+    return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * POT values for an offline render: automated POTs follow their lane, the others stay fixed
+ * @param fixed Values for POTs without a lane
+ */
+export function toPotAutomation(config: PotAutomationConfig, fixed: number[]): PotAutomation[] {
+    return potLanes(config).map((lane, i): PotAutomation => lane ? (time: number) => evaluatePotLane(lane, time) : fixed[i]);
+}
+
+/**
+ * Check the shape of an automation config (parsed JSON), throwing an Error that names the problem
+ */
+export function validatePotAutomation(config: any): PotAutomationConfig {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error('POT automation must be an object with pot0, pot1 and/or pot2 lanes');
+    }
+
+    const isNumber = (v: any) => typeof v === 'number' && isFinite(v);
+    const isLevel = (v: any) => isNumber(v) && v >= 0 && v <= 1;
+    const check = (ok: boolean, key: string, message: string) => {
+        if (!ok) throw new Error(`POT automation ${key}: ${message}`);
+    };
+
+    for (const key of Object.keys(config)) {
+        check((POT_KEYS as readonly string[]).includes(key), key, 'unknown POT (expected pot0, pot1 or pot2)');
+        const lane = config[key];
+        check(lane && typeof lane === 'object', key, 'lane must be an object');
+        switch (lane.type) {
+            case 'ramp':
+                check(isLevel(lane.from) && isLevel(lane.to), key, 'ramp "from" and "to" must be between 0 and 1');
+                check(isNumber(lane.duration) && lane.duration >= 0, key, 'ramp "duration" must be a number of seconds');
+                check(lane.delay === undefined || (isNumber(lane.delay) && lane.delay >= 0), key, 'ramp "delay" must be a number of seconds');
+                break;
+            case 'lfo':
+                check(isNumber(lane.rate) && lane.rate >= 0, key, 'lfo "rate" must be a frequency in Hz');
+                check(lane.shape === undefined || ['sine', 'triangle', 'square', 'saw'].includes(lane.shape), key, 'lfo "shape" must be sine, triangle, square or saw');
+                check((lane.min === undefined || isLevel(lane.min)) && (lane.max === undefined || isLevel(lane.max)), key, 'lfo "min" and "max" must be between 0 and 1');
+                check(lane.phase === undefined || isNumber(lane.phase), key, 'lfo "phase" must be a number');
+                break;
+            case 'steps':
+                check(Array.isArray(lane.values) && lane.values.length > 0 && lane.values.every(isLevel), key, 'steps "values" must be a list of values between 0 and 1');
+                check(isNumber(lane.stepDuration) && lane.stepDuration > 0, key, 'steps "stepDuration" must be a positive number of seconds');
+                break;
+            case 'recorded':
+                check(Array.isArray(lane.points) && lane.points.length > 0, key, 'recorded "points" must be a list of [seconds, value] pairs');
+                lane.points.forEach((p: any, i: number) => {
+                    check(Array.isArray(p) && p.length === 2 && isNumber(p[0]) && isLevel(p[1]), key, `recorded point ${i} must be [seconds, value between 0 and 1]`);
+                    check(i === 0 || p[0] >= lane.points[i - 1][0], key, 'recorded points must be in time order');
+                });
+                break;
+            default:
+                check(false, key, `unknown lane type "${lane.type}" (expected ramp, lfo, steps or recorded)`);
+        }
+    }
+    return config as PotAutomationConfig;
+}
+
+/**
+ * Read and validate a .pots.json file
+ */
+export function loadPotAutomation(filePath: string): PotAutomationConfig {
+    let json: any;
+    try {
+        json = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e: any) {
+        throw new Error(`Cannot read ${path.basename(filePath)}: ${e.message}`);
+    }
+    return validatePotAutomation(json);
+}
+
+/**
+ * A one-line description of the automated POTs, e.g. "POT0 lfo, POT2 recorded"
+ */
+export function describePotAutomation(config: PotAutomationConfig): string {
+    return potLanes(config)
+        .map((lane, i) => lane ? `POT${i} ${lane.type}` : undefined)
+        .filter(Boolean)
+        .join(', ');
+}
@@ -0,0 +1,91 @@
+import type * as vscode from 'vscode';
+
+/**
+ * Settings of the POT hardware model
+ */
+export interface PotModelOptions {
+    /** ADC levels across the POT range (the FV-1 resolves about 512) */
+    levels: number;
+    /** Time constant of the smoothing filter applied after the ADC, in milliseconds */
+    smoothingMs: number;
+    /** How many levels past the current reading a POT must move before the reading changes */
+    hysteresis: number;
+}
+
+export const DEFAULT_POT_MODEL: PotModelOptions = { levels: 512, smoothingMs: 30, hysteresis: 1 };
+
+/**
+ * The POT model settings from fv1.simulation.potModel.*, or undefined when the model is off
+ * and POT values go straight into the registers
+ * @param config The fv1.simulation configuration (passed in so the model has no runtime dependency on vscode)
+ */
+export function getPotModelOptions(config: vscode.WorkspaceConfiguration): PotModelOptions | undefined {
+    if (!(config.get<boolean>('potModel.enabled') ?? false)) {
+        return undefined;
+    }
+    return {
+        levels: config.get<number>('potModel.levels') ?? DEFAULT_POT_MODEL.levels,
+        smoothingMs: config.get<number>('potModel.smoothingMs') ?? DEFAULT_POT_MODEL.smoothingMs,
+        hysteresis: config.get<number>('potModel.hysteresis') ?? DEFAULT_POT_MODEL.hysteresis
+    };
+}
+
+/**
+ * Models the path from a POT to registers 0x10-0x12 on the FV-1: the POT voltage is
+ * read by a coarse ADC with hysteresis against jitter, and the reading is then smoothed
+ * by a one-pole low-pass filter. Slow moves are heard as small steps (zipper noise), fast
+ * moves lag behind the knob.
+ */
+export class FV1PotModel {
+    private codes: number[] = [0, 0, 0];
+    private smoothed: number[] = [0, 0, 0];
+    private output: number[] = [0, 0, 0];
+    private coefficient: number;
+
+    constructor(private options: PotModelOptions, sampleRate: number) {
+        this.coefficient = options.smoothingMs > 0
+            ? 1 - Math.exp(-1000 / (options.smoothingMs * sampleRate))
+            : 1;
+    }
+
+    /**
+     * Settle the model at the given POT positions, as after power-up
+     */
+    public reset(values: number[]) {
+        for (let i = 0; i < 3; i++) {
+            this.codes[i] = this.toCode(values[i]);
+            this.smoothed[i] = this.codes[i] / this.options.levels;
+        }
+    }
+
+    /**
+     * Advance the model by a number of samples with the POTs held at the given positions
+     * @returns The register values of POT0-POT2 (reused between calls)
+     */
+    public process(values: number[], samples: number = 1): number[] {
+        // A one-pole filter with a constant input decays geometrically
+        const coefficient = samples === 1 ? this.coefficient : 1 - Math.pow(1 - this.coefficient, samples);
+        for (let i = 0; i < 3; i++) {
+            const position = Math.max(0, Math.min(1, values[i])) * (this.options.levels - 1);
+            const hysteresis = this.options.hysteresis;
+            const nearest = Math.round(position);
+            // The reading trails the knob by the hysteresis, so it moves in single steps but
+            // ignores small reversals. The ends of travel are always reached.
+            if (nearest === 0 || nearest === this.options.levels - 1) {
+                this.codes[i] = nearest;
+            } else if (position > this.codes[i] + 0.5 + hysteresis) {
+                this.codes[i] = Math.round(position - hysteresis);
+            } else if (position < this.codes[i] - 0.5 - hysteresis) {
+                this.codes[i] = Math.round(position + hysteresis);
+            }
+            // The register never reaches 1.0: the top code reads as (levels - 1) / levels
+            this.smoothed[i] += coefficient * (this.codes[i] / this.options.levels - this.smoothed[i]);
+            this.output[i] = this.smoothed[i];
+        }
+        return this.output;
+    }
+
+    private toCode(value: number): number {
+        return Math.round(Math.max(0, Math.min(1, value)) * (this.options.levels - 1));
+    }
+}
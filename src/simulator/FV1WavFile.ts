@@ -0,0 +1,234 @@
+import * as fs from 'fs';
+
+/**
+ * Stereo audio as floats in -1.0 to 1.0
+ */
+export interface StereoAudio {
+    left: Float32Array;
+    right: Float32Array;
+    sampleRate: number;
+}
+
+/**
+ * Sample encoding of a WAV file
+ */
+export interface WavFormat {
+    /** 8, 16, 24 or 32 for integer PCM; 32 or 64 for float */
+    bitsPerSample: number;
+    float: boolean;
+}
+
+/**
+ * A decoded WAV file. Mono files are copied to both channels and channels past
+ * the second are dropped.
+ */
+export interface WavFile extends StereoAudio {
+    format: WavFormat;
+    numChannels: number;
+}
+
+/** Sample rates the simulator runs at */
+export const SIMULATION_SAMPLE_RATES = [32768, 44100, 48000];
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// Zero crossings of the resampling kernel on each side of a sample
+const RESAMPLE_ZERO_CROSSINGS = 16;
+// Kernel table entries per input sample
+const RESAMPLE_TABLE_RESOLUTION = 256;
+
+/**
+ * Decode a RIFF/WAVE file. Chunks may come in any order; unknown chunks are skipped.
+ */
+export function decodeWav(data: Uint8Array): WavFile {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const fourCC = (offset: number) => String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+    if (data.length < 12 || fourCC(0) !== 'RIFF' || fourCC(8) !== 'WAVE') {
+        throw new Error('Not a valid RIFF/WAVE file');
+    }
+
+    // Streaming writers leave the data size at 0 or 0xFFFFFFFF, and don't finalize the RIFF size either
+    const finalized = view.getUint32(4, true) === data.length - 8;
+    let fmtOffset = -1;
+    let dataOffset = -1;
+    let dataSize = 0;
+    for (let offset = 12; offset + 8 <= data.length;) {
+        const chunkId = fourCC(offset);
+        const chunkSize = view.getUint32(offset + 4, true);
+        if (chunkId === 'fmt ') {
+            fmtOffset = offset + 8;
+        } else if (chunkId === 'data') {
+            dataOffset = offset + 8;
+            if (chunkSize === 0xFFFFFFFF || (chunkSize === 0 && !finalized)) {
+                // The rest of the file is audio, so there are no more chunk headers to read
+                dataSize = data.length - dataOffset;
+                break;
+            }
+            dataSize = Math.min(chunkSize, data.length - dataOffset);
+        }
+        // Chunks are padded to an even length
+        offset += 8 + chunkSize + (chunkSize & 1);
+    }
+
+    if (fmtOffset < 0) throw new Error('WAV file has no fmt chunk');
+    if (dataOffset < 0) throw new Error('WAV file has no data chunk');
+
+    let formatTag = view.getUint16(fmtOffset, true);
+    const numChannels = view.getUint16(fmtOffset + 2, true);
+    const sampleRate = view.getUint32(fmtOffset + 4, true);
+    const blockAlign = view.getUint16(fmtOffset + 12, true);
+    const bitsPerSample = view.getUint16(fmtOffset + 14, true);
+    if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+        // The sub-format GUID starts with the real format tag
+        formatTag = view.getUint16(fmtOffset + 24, true);
+    }
+
+    const float = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+    if (formatTag !== WAVE_FORMAT_PCM && !float) {
+        throw new Error(`Unsupported WAV encoding (format tag 0x${formatTag.toString(16)}). Only PCM and IEEE float are supported.`);
+    }
+    if (numChannels < 1) throw new Error('WAV file has no channels');
+    if (float ? bitsPerSample !== 32 && bitsPerSample !== 64 : ![8, 16, 24, 32].includes(bitsPerSample)) {
+        throw new Error(`Unsupported bit depth: ${bitsPerSample}-bit ${float ? 'float' : 'PCM'}`);
+    }
+
+    const read = sampleReader(view, bitsPerSample, float);
+    const bytesPerSample = bitsPerSample / 8;
+    const frameSize = Math.max(blockAlign, numChannels * bytesPerSample);
+    const numSamples = Math.floor(dataSize / frameSize);
+    const left = new Float32Array(numSamples);
+    const right = new Float32Array(numSamples);
+    for (let i = 0; i < numSamples; i++) {
+        const offset = dataOffset + i * frameSize;
+        left[i] = read(offset);
+        right[i] = numChannels >= 2 ? read(offset + bytesPerSample) : left[i];
+    }
+
+    return { left, right, sampleRate, numChannels, format: { bitsPerSample, float } };
+}
+
+/**
+ * Encode stereo audio as a WAV file, clamping integer samples to full scale
+ */
+export function encodeWav(audio: StereoAudio, format: WavFormat = { bitsPerSample: 16, float: false }): Buffer {
+    const numSamples = audio.left.length;
+    const bytesPerSample = format.bitsPerSample / 8;
+    const blockAlign = 2 * bytesPerSample;
+    const dataSize = numSamples * blockAlign;
+    const headerSize = 44;
+    const buffer = Buffer.alloc(headerSize + dataSize);
+
+    buffer.write('RIFF', 0);
+    buffer.writeUInt32LE(36 + dataSize, 4);
+    buffer.write('WAVE', 8);
+    buffer.write('fmt ', 12);
+    buffer.writeUInt32LE(16, 16); // Subchunk1Size
+    buffer.writeUInt16LE(format.float ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, 20);
+    buffer.writeUInt16LE(2, 22); // NumChannels
+    buffer.writeUInt32LE(audio.sampleRate, 24);
+    buffer.writeUInt32LE(audio.sampleRate * blockAlign, 28); // ByteRate
+    buffer.writeUInt16LE(blockAlign, 32);
+    buffer.writeUInt16LE(format.bitsPerSample, 34);
+    buffer.write('data', 36);
+    buffer.writeUInt32LE(dataSize, 40);
+
+    const write = sampleWriter(buffer, format.bitsPerSample, format.float);
+    for (let i = 0; i < numSamples; i++) {
+        const offset = headerSize + i * blockAlign;
+        write(audio.left[i], offset);
+        write(audio.right[i], offset + bytesPerSample);
+    }
+    return buffer;
+}
+
+/**
+ * Read a WAV file, resampling it when a sample rate is given
+ */
+export async function readWavFile(path: string, sampleRate?: number): Promise<WavFile> {
+    const wav = decodeWav(await fs.promises.readFile(path));
+    if (!sampleRate || sampleRate === wav.sampleRate) {
+        return wav;
+    }
+    return {
+        ...wav,
+        left: resample(wav.left, wav.sampleRate, sampleRate),
+        right: resample(wav.right, wav.sampleRate, sampleRate),
+        sampleRate
+    };
+}
+
+/**
+ * Write stereo audio as a WAV file (16-bit PCM unless another format is given)
+ */
+export async function writeWavFile(path: string, audio: StereoAudio, format?: WavFormat): Promise<void> {
+    await fs.promises.writeFile(path, encodeWav(audio, format));
+}
+
+/**
+ * Convert samples to another rate with a windowed-sinc interpolator. When reducing the rate
+ * the kernel is widened to filter out everything above the new Nyquist frequency.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate || input.length === 0) {
+        return input.slice();
+    }
+
+    const ratio = fromRate / toRate;
+    const cutoff = Math.min(1, toRate / fromRate);
+    const halfWidth = Math.ceil(RESAMPLE_ZERO_CROSSINGS / cutoff);
+
+    // Blackman-windowed sinc, tabulated over one side in input sample units
+    const table = new Float32Array(halfWidth * RESAMPLE_TABLE_RESOLUTION + 2);
+    for (let i = 0; i < table.length; i++) {
+        const x = i / RESAMPLE_TABLE_RESOLUTION;
+        if (x >= halfWidth) break;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+        const w = 0.42 + 0.5 * Math.cos(Math.PI * x / halfWidth) + 0.08 * Math.cos(2 * Math.PI * x / halfWidth);
+        table[i] = cutoff * sinc * w;
+    }
+
+    const output = new Float32Array(Math.floor(input.length / ratio));
+    for (let n = 0; n < output.length; n++) {
+        const t = n * ratio;
+        const center = Math.floor(t);
+        const first = Math.max(0, center - halfWidth + 1);
+        const last = Math.min(input.length - 1, center + halfWidth);
+        let sum = 0;
+        for (let k = first; k <= last; k++) {
+            const pos = Math.abs(t - k) * RESAMPLE_TABLE_RESOLUTION;
+            const index = Math.floor(pos);
+            const frac = pos - index;
+            sum += input[k] * (table[index] + (table[index + 1] - table[index]) * frac);
+        }
+        output[n] = sum;
+    }
+    return output;
+}
+
+function sampleReader(view: DataView, bitsPerSample: number, float: boolean): (offset: number) => number {
+    if (float) {
+        return bitsPerSample === 64 ? offset => view.getFloat64(offset, true) : offset => view.getFloat32(offset, true);
+    }
+    switch (bitsPerSample) {
+        case 8: return offset => (view.getUint8(offset) - 128) / 128.0; // 8-bit WAV is unsigned
+        case 16: return offset => view.getInt16(offset, true) / 32768.0;
+        case 24: return offset => ((view.getUint8(offset + 2) << 24 | view.getUint8(offset + 1) << 16 | view.getUint8(offset) << 8) >> 8) / 8388608.0;
+        default: return offset => view.getInt32(offset, true) / 2147483648.0;
+    }
+}
+
+function sampleWriter(buffer: Buffer, bitsPerSample: number, float: boolean): (value: number, offset: number) => void {
+    if (float) {
+        return bitsPerSample === 64 ? (value, offset) => buffer.writeDoubleLE(value, offset) : (value, offset) => buffer.writeFloatLE(value, offset);
+    }
+    const clamp = (value: number) => Math.max(-1.0, Math.min(1.0, value));
+    switch (bitsPerSample) {
+        case 8: return (value, offset) => buffer.writeUInt8(Math.round(clamp(value) * 127) + 128, offset);
+        case 16: return (value, offset) => buffer.writeInt16LE(Math.floor(clamp(value) * 32767), offset);
+        case 24: return (value, offset) => buffer.writeIntLE(Math.floor(clamp(value) * 8388607), offset, 3);
+        default: return (value, offset) => buffer.writeInt32LE(Math.floor(clamp(value) * 2147483647), offset);
+    }
+}
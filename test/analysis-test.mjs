@@ -0,0 +1,153 @@
+import { analyzeAccumulator, formatInterval } from '../out/core/fv1AccAnalysis.js';
+import { findUnreachable } from '../out/core/fv1ControlFlow.js';
+import { decodeInstruction } from '../out/core/fv1Decoder.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function assertInterval(actual, min, max, message) {
+    const close = (a, b) => Math.abs(a - b) < 1e-3;
+    if (!close(actual.min, min) || !close(actual.max, max)) {
+        throw new Error(`${message}\nExpected: ${min} … ${max}\nActual: ${formatInterval(actual)}`);
+    }
+}
+
+// Registers and SKP flags, as numbered in the FV-1 datasheet
+const POT0 = 0x10;
+const ADCL = 0x14;
+const ADCR = 0x15;
+const DACL = 0x16;
+const REG0 = 0x20;
+const RUN = 0x10;
+const ZRO = 0x04;
+const GEZ = 0x02;
+const NEG = 0x01;
+
+/**
+ * Encode the instructions the tests use, with the field layouts of the datasheet
+ */
+const fixed = (value, fractionBits, width) => Math.round(value * 2 ** fractionBits) & (2 ** width - 1);
+const registerOp = opcode => (register, c) => (fixed(c, 14, 16) * 2 ** 16 + register * 2 ** 5 + opcode) >>> 0;
+const rdax = registerOp(0x04);
+const wrax = registerOp(0x06);
+const sof = (c, d) => (fixed(c, 14, 16) * 2 ** 16 + fixed(d, 10, 11) * 2 ** 5 + 0x0D) >>> 0;
+const skp = (flags, skip) => (flags * 2 ** 27 + skip * 2 ** 21 + 0x11) >>> 0;
+const jmp = skip => skp(0, skip);
+const clr = () => 0x0000000E;
+
+function decode(words) {
+    return words.map(word => decodeInstruction(word));
+}
+
+function testAccumulator() {
+    console.log(`  Validating straight-line ranges...`);
+    let ranges = analyzeAccumulator(decode([rdax(ADCL, 0.5), rdax(POT0, 0.25), wrax(DACL, 0)]));
+    assertInterval(ranges[0].after, -0.5, 0.5, 'ADC read range mismatch');
+    assertInterval(ranges[1].before, -0.5, 0.5, 'Range should carry to the next instruction');
+    assertInterval(ranges[1].after, -0.5, 0.75, 'POT read range mismatch');
+    assertInterval(ranges[2].after, 0, 0, 'WRAX with 0 should clear ACC');
+    assert(ranges.every(r => !r.saturates), 'Nothing should saturate');
+
+    console.log(`  Validating saturation...`);
+    ranges = analyzeAccumulator(decode([rdax(ADCL, 1.0), rdax(ADCR, 1.0), wrax(DACL, 0)]));
+    assert(!ranges[0].saturates, 'One full-scale input should not saturate');
+    assert(ranges[1].saturates, 'Two full-scale inputs should saturate');
+    assertInterval(ranges[1].after, -2, 2, 'Saturating range mismatch');
+    assertInterval(ranges[2].before, -1, 1, 'ACC should be clamped after saturating');
+
+    console.log(`  Validating SOF...`);
+    ranges = analyzeAccumulator(decode([rdax(POT0, 1.0), sof(-1.0, 0.5), wrax(DACL, 0)]));
+    assertInterval(ranges[1].after, -0.5, 0.5, 'SOF range mismatch');
+
+    console.log(`  Validating skips merge ranges...`);
+    ranges = analyzeAccumulator(decode([clr(), skp(RUN, 1), sof(0, 0.5), wrax(DACL, 0)]));
+    assertInterval(ranges[3].before, 0, 0.5, 'Ranges from both paths should be merged');
+
+    console.log(`  Validating registers carried between samples...`);
+    ranges = analyzeAccumulator(decode([rdax(REG0, 1.0), rdax(ADCL, 0.5), wrax(REG0, 1.0), wrax(DACL, 0)]));
+    assertInterval(ranges[0].after, -1, 1, 'A feedback register should widen to full scale');
+    assert(ranges[1].saturates, 'Unbounded feedback should saturate');
+
+    console.log(`  Validating ACC carried between samples...`);
+    ranges = analyzeAccumulator(decode([sof(1.0, 0.5)]));
+    assert(ranges[0].saturates, 'ACC left at the end should feed the next sample');
+
+    console.log(`  Validating unreached instructions...`);
+    ranges = analyzeAccumulator(decode([jmp(1), sof(0, 0.5), clr()]));
+    assertInterval(ranges[1].after, 0, 0, 'Unreached instruction should have an empty range');
+    assert(!ranges[1].saturates, 'Unreached instruction should not saturate');
+
+    console.log(`  Validating formatInterval...`);
+    assertEqual(formatInterval({ min: -0.5, max: 1.25 }), '-0.500 … 1.250', 'Interval format mismatch');
+}
+
+function testControlFlow() {
+    const unreachable = words => findUnreachable(decode(words)).map((u, addr) => u ? addr : -1).filter(addr => addr >= 0).join(',');
+
+    console.log(`  Validating straight-line code...`);
+    assertEqual(unreachable([rdax(ADCL, 1.0), wrax(DACL, 0)]), '', 'Straight-line code is reachable');
+    assertEqual(findUnreachable([]).length, 0, 'Empty program should have no flags');
+
+    console.log(`  Validating JMP...`);
+    assertEqual(unreachable([jmp(2), clr(), clr(), wrax(DACL, 0)]), '1,2', 'Instructions jumped over are unreachable');
+
+    console.log(`  Validating SKP RUN...`);
+    assertEqual(unreachable([skp(RUN, 1), clr(), wrax(DACL, 0)]), '', 'Either outcome of SKP RUN is possible');
+
+    console.log(`  Validating SKP on the sign of ACC...`);
+    assertEqual(unreachable([rdax(POT0, 1.0), skp(GEZ, 1), clr(), wrax(DACL, 0)]), '2', 'POTs are never negative, so SKP GEZ is always taken');
+    assertEqual(unreachable([rdax(ADCL, 1.0), skp(GEZ, 1), clr(), wrax(DACL, 0)]), '', 'An ADC can be negative');
+    assertEqual(unreachable([clr(), skp(ZRO, 1), sof(0, 0.5), wrax(DACL, 0)]), '2', 'ACC is zero after CLR, so SKP ZRO is always taken');
+
+    console.log(`  Validating chained skips...`);
+    // ACC is known to be negative on the fall-through path of SKP GEZ, so SKP NEG after it is always taken
+    assertEqual(unreachable([rdax(ADCL, 1.0), skp(GEZ, 3), skp(NEG, 1), clr(), wrax(DACL, 0), clr()]), '3', 'SKP NEG after a failed SKP GEZ is always taken');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Analysis Tests ===`);
+
+    const tests = [
+        ['accumulator ranges', testAccumulator],
+        ['control flow', testControlFlow]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,189 @@
+import { FV1CodecModel, DEFAULT_CODEC_MODEL, resolveCodecModelOptions } from '../out/simulator/FV1CodecModel.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function assertClose(actual, expected, tolerance, message) {
+    if (Math.abs(actual - expected) > tolerance) {
+        throw new Error(`${message}\nExpected: ${expected} ± ${tolerance}\nActual: ${actual}`);
+    }
+}
+
+const SAMPLE_RATE = 48000;
+
+// Clipping only: no filters, no DC blocking and no noise
+const CLIP_ONLY = { inputClipDb: 0, outputClipDb: 0, dcBlockHz: 0, filterHz: 0, noiseFloorDb: null };
+
+/**
+ * Peak level of a sine run through the ADC, ignoring the filter settling time
+ */
+function sinePeak(model, frequency, seconds = 0.2) {
+    const length = Math.round(SAMPLE_RATE * seconds);
+    let peak = 0;
+    for (let i = 0; i < length; i++) {
+        const x = 0.5 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+        const y = model.processInput(x, x)[0];
+        if (i > length / 2) peak = Math.max(peak, Math.abs(y));
+    }
+    return peak / 0.5;
+}
+
+function testOptions() {
+    console.log(`  Validating off values...`);
+    for (const value of [undefined, null, false]) {
+        assertEqual(resolveCodecModelOptions(value), undefined, `${value} should turn the model off`);
+    }
+
+    console.log(`  Validating defaults...`);
+    const defaults = resolveCodecModelOptions(true);
+    assertEqual(JSON.stringify(defaults), JSON.stringify(DEFAULT_CODEC_MODEL), 'true should give the defaults');
+    assert(defaults !== DEFAULT_CODEC_MODEL, 'The defaults should be copied');
+
+    console.log(`  Validating overrides...`);
+    const custom = resolveCodecModelOptions({ inputClipDb: -3, noiseFloorDb: null, filterHz: 15000 });
+    assertEqual(custom.inputClipDb, -3, 'Input clip override mismatch');
+    assertEqual(custom.noiseFloorDb, null, 'Noise floor override mismatch');
+    assertEqual(custom.filterHz, 15000, 'Filter override mismatch');
+    assertEqual(custom.outputClipDb, DEFAULT_CODEC_MODEL.outputClipDb, 'Unset settings should keep their default');
+
+    const cases = [
+        ['not an object', 'on', 'codecModel must be true, false or an object of codec settings'],
+        ['array', [], 'codecModel must be true, false or an object of codec settings'],
+        ['unknown setting', { gain: 1 }, 'codecModel: unknown setting "gain"'],
+        ['clip level', { outputClipDb: 'loud' }, 'codecModel outputClipDb must be a level in dBFS'],
+        ['negative frequency', { dcBlockHz: -1 }, 'codecModel dcBlockHz must be a frequency in Hz (0 to disable)'],
+        ['noise floor', { noiseFloorDb: 'off' }, 'codecModel noiseFloorDb must be a level in dBFS, or null to disable']
+    ];
+    for (const [name, value, message] of cases) {
+        console.log(`  Validating ${name}...`);
+        let error;
+        try {
+            resolveCodecModelOptions(value);
+        } catch (e) {
+            error = e;
+        }
+        assert(error, `${name}: expected an error`);
+        assertEqual(error.message, message, `${name}: error message mismatch`);
+    }
+}
+
+function testClipping() {
+    console.log(`  Validating full-scale clipping...`);
+    let model = new FV1CodecModel(CLIP_ONLY, SAMPLE_RATE);
+    let [l, r] = model.processInput(2, -2);
+    assertEqual(l, 1, 'ADC should clip positive overloads');
+    assertEqual(r, -1, 'ADC should clip negative overloads');
+    [l, r] = model.processInput(0.5, -0.25);
+    assertEqual(l, 0.5, 'Levels below the clip point should pass unchanged');
+    assertEqual(r, -0.25, 'Levels below the clip point should pass unchanged');
+
+    console.log(`  Validating clip levels...`);
+    model = new FV1CodecModel({ ...CLIP_ONLY, inputClipDb: -6, outputClipDb: -12 }, SAMPLE_RATE);
+    assertClose(model.processInput(1, 1)[0], Math.pow(10, -6 / 20), 1e-12, 'Input clip level mismatch');
+    assertClose(model.processOutput(1, 1)[0], Math.pow(10, -12 / 20), 1e-12, 'Output clip level mismatch');
+}
+
+function testFilters() {
+    const options = { ...CLIP_ONLY, filterHz: 1000 };
+
+    console.log(`  Validating the passband...`);
+    assertClose(sinePeak(new FV1CodecModel(options, SAMPLE_RATE), 100), 1, 0.01, 'A tone well below the corner should pass');
+
+    console.log(`  Validating the stopband...`);
+    // A 4th-order low-pass is down about 80 dB a decade above the corner
+    assert(sinePeak(new FV1CodecModel(options, SAMPLE_RATE), 10000) < 1e-3, 'A tone a decade above the corner should be removed');
+
+    console.log(`  Validating DC blocking...`);
+    const model = new FV1CodecModel({ ...CLIP_ONLY, dcBlockHz: 5 }, SAMPLE_RATE);
+    let y = 0;
+    for (let i = 0; i < SAMPLE_RATE; i++) y = model.processInput(0.5, 0.5)[0];
+    assert(Math.abs(y) < 0.001, `DC should decay to zero after a second, got ${y}`);
+
+    console.log(`  Validating reset...`);
+    model.reset();
+    assertClose(model.processInput(0.5, 0.5)[0], 0.5, 1e-9, 'Reset should clear the filter state');
+}
+
+function testNoise() {
+    const model = new FV1CodecModel({ ...CLIP_ONLY, noiseFloorDb: -60 }, SAMPLE_RATE);
+    let sum = 0;
+    const length = SAMPLE_RATE;
+    for (let i = 0; i < length; i++) {
+        const [l] = model.processInput(0, 0);
+        sum += l * l;
+    }
+    const rms = Math.sqrt(sum / length);
+    assertClose(20 * Math.log10(rms), -60, 0.5, 'Noise floor RMS level mismatch');
+}
+
+function testBuffers() {
+    console.log(`  Validating input buffers...`);
+    const options = { ...DEFAULT_CODEC_MODEL, noiseFloorDb: null };
+    const input = Float32Array.from({ length: 256 }, (_, i) => 1.2 * Math.sin(i / 5));
+
+    const single = new FV1CodecModel(options, SAMPLE_RATE);
+    const expected = Array.from(input, x => single.processInput(x, -x)[0]);
+
+    const buffered = new FV1CodecModel(options, SAMPLE_RATE);
+    const left = input.slice();
+    const right = input.map(x => -x);
+    buffered.processInputBuffers(left, right);
+    left.forEach((y, i) => assertClose(y, expected[i], 1e-6, `Buffered sample ${i} mismatch`));
+
+    console.log(`  Validating output buffers...`);
+    const outputModel = new FV1CodecModel(CLIP_ONLY, SAMPLE_RATE);
+    const out = Float32Array.from([2, -2, 0.5]);
+    outputModel.processOutputBuffers(out, out.slice());
+    assertEqual(out.join(','), '1,-1,0.5', 'Output buffers should be clipped in place');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== Codec Model Tests ===`);
+
+    const tests = [
+        ['settings', testOptions],
+        ['clipping', testClipping],
+        ['filters', testFilters],
+        ['noise', testNoise],
+        ['buffers', testBuffers]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
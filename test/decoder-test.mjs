@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { decodeInstruction, decodeProgram, formatChoFlags, formatSkipFlags } from '../out/core/fv1Decoder.js';
+import { HARDWARE_REGISTERS } from '../out/core/fv1Syntax.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+/**
+ * Robustly read a file, detecting UTF-16 LE or UTF-8
+ */
+function readFileSync(filePath) {
+    const buffer = fs.readFileSync(filePath);
+    // BOM or simple heuristic for UTF-16 LE
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) return buffer.toString('utf16le');
+    if (buffer.length >= 4 && buffer[1] === 0x00 && buffer[3] === 0x00) return buffer.toString('utf16le');
+    return buffer.toString('utf8');
+}
+
+function hex(word) {
+    return `0x${word.toString(16).toUpperCase().padStart(8, '0')}`;
+}
+
+/**
+ * Instructions and labels from a SpinASM listing (.spnasm)
+ */
+function parseListing(content) {
+    const instructions = [];
+    const labels = new Map();
+
+    for (const line of content.split('\n')) {
+        const trimmed = line.trim();
+        const label = /^(\d+)\s+([A-Za-z_][A-Za-z0-9_]*):$/.exec(trimmed);
+        if (label) {
+            labels.set(label[2].toUpperCase(), parseInt(label[1], 10));
+            continue;
+        }
+        const instruction = /^(\d+)\s+([0-9A-F]{8})\s+:\s*([A-Za-z]+)\s*([^;]*)/i.exec(trimmed);
+        if (instruction) {
+            instructions.push({
+                address: parseInt(instruction[1], 10),
+                word: parseInt(instruction[2], 16),
+                mnemonic: instruction[3].toLowerCase(),
+                operands: instruction[4].split(',').map(o => o.trim()).filter(o => o !== '')
+            });
+        }
+    }
+
+    return { instructions, labels };
+}
+
+/**
+ * Decode every instruction SpinASM assembled for a reference program and check it
+ * against the source line in the listing
+ */
+function testListing(testName, refDir) {
+    const listing = parseListing(readFileSync(path.join(refDir, `${testName}.spnasm`)));
+    assert(listing.instructions.length > 0, `${testName}: listing has no instructions`);
+
+    for (const { address, word, mnemonic, operands } of listing.instructions) {
+        const decoded = decodeInstruction(word);
+        const where = `${testName}: instruction ${address} (${hex(word)})`;
+        assertEqual(decoded.word, word, `${where} word mismatch`);
+        assertEqual(decoded.mnemonic, mnemonic, `${where} mnemonic mismatch`);
+
+        // Registers written by their hardware name
+        if (decoded.register !== undefined && operands[0]?.toUpperCase() in HARDWARE_REGISTERS) {
+            assertEqual(decoded.register, HARDWARE_REGISTERS[operands[0].toUpperCase()], `${where} register mismatch`);
+        }
+
+        if (mnemonic === 'skp' || mnemonic === 'jmp') {
+            const target = operands[operands.length - 1];
+            const labelAddress = listing.labels.get(target.toUpperCase());
+            if (labelAddress !== undefined) {
+                assertEqual(address + 1 + decoded.skip, labelAddress, `${where} skip target mismatch`);
+            } else if (/^\d+$/.test(target)) {
+                assertEqual(decoded.skip, parseInt(target, 10), `${where} skip count mismatch`);
+            }
+            if (mnemonic === 'skp' && /^[a-z|]+$/i.test(operands[0])) {
+                const flags = operands[0].toUpperCase().split('|').sort().join('|');
+                assertEqual(formatSkipFlags(decoded.flags).split('|').sort().join('|'), flags, `${where} skip flags mismatch`);
+            }
+        }
+    }
+
+    return listing.instructions.length;
+}
+
+/**
+ * Each case is a word and the fields it should decode to
+ */
+const FIELD_CASES = [
+    ['rdax', 0x200002A4, { mnemonic: 'rdax', register: 0x15, coefficient: 0.5 }],
+    ['sof', 0x3FFE000D, { mnemonic: 'sof', coefficient: 0.99987793, offset: 0 }],
+    ['sof with offset', 0x40000CCD, { mnemonic: 'sof', coefficient: 1.0, offset: 0.099609375 }],
+    ['skp', 0x80A00011, { mnemonic: 'skp', flags: 0x10, skip: 5 }],
+    ['jmp', 0x01C00011, { mnemonic: 'jmp', skip: 14 }],
+    ['nop', 0x00000011, { mnemonic: 'nop' }],
+    ['clr', 0x0000000E, { mnemonic: 'clr' }],
+    ['and', 0xFFFF000E, { mnemonic: 'and', mask: 0xFFFF00 }],
+    ['not', 0xFFFFFF10, { mnemonic: 'not' }],
+    ['xor', 0x00FF0010, { mnemonic: 'xor', mask: 0x00FF00 }],
+    ['ldax', 0x00000405, { mnemonic: 'ldax', register: 0x20 }],
+    ['rdfx', 0x40000405, { mnemonic: 'rdfx', register: 0x20, coefficient: 1.0 }],
+    ['absa', 0x00000009, { mnemonic: 'absa' }],
+    ['maxx', 0x40000409, { mnemonic: 'maxx', register: 0x20, coefficient: 1.0 }],
+    ['wldr', 0x6079C032, { mnemonic: 'wldr', lfo: 1, frequency: 974, amplitude: 2048 }],
+    ['cho rda', 0x064A5654, { mnemonic: 'cho', choType: 'RDA', lfo: 2, flags: 0x06 }],
+    ['invalid opcode', 0x0000001F, { mnemonic: 'nop' }]
+];
+
+function testFields(name, word, expected) {
+    const decoded = decodeInstruction(word);
+    for (const [field, value] of Object.entries(expected)) {
+        const actual = decoded[field] !== null && typeof decoded[field] === 'object' ? decoded[field].value : decoded[field];
+        if (typeof value === 'number' && !Number.isInteger(value)) {
+            assert(Math.abs(actual - value) < 1e-6, `${name}: ${field} mismatch\nExpected: ${value}\nActual: ${actual}`);
+        } else {
+            assertEqual(actual, value, `${name}: ${field} mismatch`);
+        }
+    }
+}
+
+function testHelpers() {
+    console.log(`  Validating flag names...`);
+    assertEqual(formatSkipFlags(0x12), 'RUN|GEZ', 'Skip flags mismatch');
+    assertEqual(formatSkipFlags(0), '0', 'Empty skip flags mismatch');
+    assertEqual(formatChoFlags(0x06), 'REG|COMPC', 'CHO flags mismatch');
+    assertEqual(formatChoFlags(0), 'SIN', 'Empty CHO flags mismatch');
+
+    console.log(`  Validating decodeProgram...`);
+    const program = decodeProgram([0x0000000E, 0x200002A4], 3);
+    assertEqual(program.length, 3, 'Program length mismatch');
+    assertEqual(program[1].mnemonic, 'rdax', 'Program instruction mismatch');
+    assertEqual(program[2].word, 0, 'Missing words should decode as 0');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    const refDir = path.join(__dirname, 'ref');
+    const testCases = fs.readdirSync(refDir)
+        .filter(f => f.endsWith('.spnasm'))
+        .map(f => path.basename(f, '.spnasm'));
+
+    console.log(`\n=== FV1 Decoder Tests ===`);
+    console.log(`Found ${testCases.length} listing(s)\n`);
+
+    const tests = [
+        ...testCases.map(name => [name, () => console.log(`  Decoded ${testListing(name, refDir)} instructions`)]),
+        ...FIELD_CASES.map(([name, word, expected]) => [name, () => testFields(name, word, expected)]),
+        ['helpers', testHelpers]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { FV1Assembler } from '@audiofab-io/fv1-core';
+import { bytesToMachineCode, disassemble, isEmptyProgram, FV1_PROGRAM_WORDS } from '../out/core/fv1Disassembler.js';
+import { decodeSource } from '../out/core/fv1SourceEncoding.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function hex(word) {
+    return `0x${word.toString(16).toUpperCase().padStart(8, '0')}`;
+}
+
+function assemble(testName, source) {
+    const assembler = new FV1Assembler({ fv1AsmMemBug: true, clampReals: true });
+    const result = assembler.assemble(source);
+    const fatalErrors = result.problems.filter(p => p.isfatal);
+    assert(fatalErrors.length === 0,
+        `${testName}: Assembler reported fatal errors:\n${fatalErrors.map(e => `Line ${e.line}: ${e.message}`).join('\n')}`);
+    assertEqual(result.machineCode.length, FV1_PROGRAM_WORDS, `${testName}: Machine code should be 128 instructions`);
+    return result.machineCode;
+}
+
+/**
+ * Assemble a reference program, disassemble the words and assemble the disassembly again:
+ * every word must come back unchanged
+ */
+function testRoundTrip(testName, refDir) {
+    const source = decodeSource(fs.readFileSync(path.join(refDir, `${testName}.spn`))).text;
+
+    const original = assemble(testName, source);
+
+    console.log(`  Disassembling...`);
+    const disassembly = disassemble(original, { memBug: true, header: [`Disassembled from ${testName}`] });
+    assert(disassembly.startsWith(`; Disassembled from ${testName}\n`), `${testName}: header missing`);
+
+    console.log(`  Reassembling...`);
+    let reassembled;
+    try {
+        reassembled = assemble(`${testName} (disassembled)`, disassembly);
+    } catch (error) {
+        throw new Error(`${error.message}\n--- DISASSEMBLY ---\n${disassembly}`);
+    }
+
+    console.log(`  Validating machine code...`);
+    for (let addr = 0; addr < FV1_PROGRAM_WORDS; addr++) {
+        assertEqual(reassembled[addr], original[addr],
+            `${testName}: Instruction ${addr} mismatch: expected ${hex(original[addr])}, got ${hex(reassembled[addr])}`);
+    }
+}
+
+function testStructure() {
+    const program = [
+        0x80400011, // skp run, 2
+        0x0000000E, // clr
+        0x00000011, // nop
+        0x200002A4, // rdax adcr, 0.5
+        0x00000406, // wrax reg0, 0
+        0x00020002, // wra 4096, 0
+        0x00000405  // ldax reg0
+    ];
+
+    const text = disassemble(program);
+    const lines = text.split('\n');
+
+    console.log(`  Validating declarations...`);
+    assert(lines.some(l => /^equ\s+temp0\s+reg0$/.test(l)), `REG0 should be named as a temporary:\n${text}`);
+    assert(lines.some(l => /^mem\s+delay0\s+\d+/.test(l)), `Delay write should start a MEM block:\n${text}`);
+
+    console.log(`  Validating instructions...`);
+    assert(lines.some(l => /^skp\s+run, label0$/.test(l)), `Skip target should be labelled:\n${text}`);
+    assertEqual(lines[lines.indexOf('label0:') + 1], 'rdax    adcr, 0.5', 'Label should be on the skip target');
+    assert(lines.some(l => /^wra\s+delay0, 0\.0$/.test(l)), `Delay address should use the block name:\n${text}`);
+    assert(lines.some(l => /^ldax\s+temp0$/.test(l)), `Alias should be used:\n${text}`);
+    assert(text.endsWith('ldax    temp0\n'), `Trailing NOPs should be dropped:\n${text}`);
+}
+
+function testHelpers() {
+    console.log(`  Validating bytesToMachineCode...`);
+    const words = bytesToMachineCode(new Uint8Array([0x20, 0x00, 0x02, 0xA4, 0x00, 0x00, 0x00, 0x11, 0xFF]));
+    assertEqual(words.length, 2, 'Partial words should be ignored');
+    assertEqual(words[0], 0x200002A4, 'Words are big-endian');
+    assertEqual(words[1], 0x00000011, 'Second word mismatch');
+
+    console.log(`  Validating isEmptyProgram...`);
+    assert(isEmptyProgram(new Array(128).fill(0xFFFFFFFF)), 'Erased EEPROM is empty');
+    assert(isEmptyProgram(new Array(128).fill(0)), 'Unwritten HEX gap is empty');
+    assert(isEmptyProgram(new Array(128).fill(0x00000011)), 'All NOPs is empty');
+    assert(!isEmptyProgram([0x0000000E, ...new Array(127).fill(0x00000011)]), 'A program is not empty');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    const refDir = path.join(__dirname, 'ref');
+    const testCases = fs.readdirSync(refDir)
+        .filter(f => f.endsWith('.spn'))
+        .map(f => path.basename(f, '.spn'));
+
+    console.log(`\n=== FV1 Disassembler Tests ===`);
+    console.log(`Found ${testCases.length} test case(s)\n`);
+
+    const tests = [
+        ...testCases.map(name => [name, () => testRoundTrip(name, refDir)]),
+        ['structure', testStructure],
+        ['helpers', testHelpers]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
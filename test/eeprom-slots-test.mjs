@@ -0,0 +1,122 @@
+import { isEmptyProgram, splitSlots, FV1_PROGRAM_WORDS } from '../out/core/fv1Disassembler.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+const SLOT_BYTES = FV1_PROGRAM_WORDS * 4;
+const NOP = 0x00000011;
+const WRAX_DACL = 0x000002C6;
+
+/**
+ * One slot of EEPROM bytes holding the given words, big-endian, padded with a fill word
+ */
+function slot(words, fill = NOP) {
+    const bytes = new Uint8Array(SLOT_BYTES);
+    const view = new DataView(bytes.buffer);
+    for (let addr = 0; addr < FV1_PROGRAM_WORDS; addr++) {
+        view.setUint32(addr * 4, words[addr] ?? fill);
+    }
+    return bytes;
+}
+
+function concat(slots) {
+    const bytes = new Uint8Array(slots.reduce((length, s) => length + s.length, 0));
+    let offset = 0;
+    for (const s of slots) {
+        bytes.set(s, offset);
+        offset += s.length;
+    }
+    return bytes;
+}
+
+function testIsEmptyProgram() {
+    const fill = word => new Array(FV1_PROGRAM_WORDS).fill(word);
+
+    assert(isEmptyProgram(fill(0xFFFFFFFF)), 'Erased EEPROM should be empty');
+    assert(isEmptyProgram(fill(0x00000000)), 'A gap in a HEX image should be empty');
+    assert(isEmptyProgram(fill(NOP)), 'A program of NOPs should be empty');
+    assert(!isEmptyProgram([WRAX_DACL, ...fill(NOP).slice(1)]), 'A program with an instruction is not empty');
+    assert(!isEmptyProgram([0xFFFFFFFF, ...fill(0x00000000).slice(1)]), 'Mixed fill words are not empty');
+}
+
+function testSplitSlots() {
+    console.log(`  Validating a pedal backup...`);
+    const backup = concat([
+        slot([WRAX_DACL]),
+        slot([], 0xFFFFFFFF),
+        slot([], 0x00000000),
+        slot([]),
+        slot([0x00000001, WRAX_DACL]),
+        slot([], 0xFFFFFFFF),
+        slot([], 0xFFFFFFFF),
+        slot([], 0xFFFFFFFF)
+    ]);
+    const slots = splitSlots(backup);
+    assertEqual(slots.length, 8, 'Slot count mismatch');
+    assertEqual(slots.map(s => s.slot).join(','), '1,2,3,4,5,6,7,8', 'Slot numbers should be 1-based');
+    assertEqual(slots.map(s => s.empty ? '-' : 'P').join(''), 'P---P---', 'Empty slots mismatch');
+    assertEqual(slots[0].machineCode.length, FV1_PROGRAM_WORDS, 'Slot word count mismatch');
+    assertEqual(slots[0].machineCode[0], WRAX_DACL, 'Words should be read big-endian');
+    assertEqual(slots[4].machineCode[1], WRAX_DACL, 'Words of a later slot mismatch');
+
+    console.log(`  Validating a single program...`);
+    const single = splitSlots(slot([WRAX_DACL]));
+    assertEqual(single.length, 1, 'A single program is one slot');
+    assert(!single[0].empty, 'The program should not be empty');
+
+    console.log(`  Validating a partial last slot...`);
+    const partial = splitSlots(concat([slot([WRAX_DACL]), slot([WRAX_DACL]).slice(0, 8)]));
+    assertEqual(partial.length, 2, 'A partial slot should still be split off');
+    assertEqual(partial[1].machineCode.length, 2, 'Only whole words of a partial slot are read');
+
+    console.log(`  Validating no data...`);
+    assertEqual(splitSlots(new Uint8Array(0)).length, 0, 'No bytes should give no slots');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== EEPROM Slot Tests ===`);
+
+    const tests = [
+        ['empty programs', testIsEmptyProgram],
+        ['splitting slots', testSplitSlots]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { formatLine } from '../out/core/fv1Formatter.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${JSON.stringify(expected)}\nActual: ${JSON.stringify(actual)}`);
+    }
+}
+
+/**
+ * Robustly read a file, detecting UTF-16 LE or UTF-8
+ */
+function readFileSync(filePath) {
+    const buffer = fs.readFileSync(filePath);
+    // BOM or simple heuristic for UTF-16 LE
+    if (buffer[0] === 0xFF && buffer[1] === 0xFE) return buffer.toString('utf16le');
+    if (buffer.length >= 4 && buffer[1] === 0x00 && buffer[3] === 0x00) return buffer.toString('utf16le');
+    return buffer.toString('utf8');
+}
+
+const SPACES = {
+    opcodeColumn: 8,
+    operandColumn: 16,
+    commentColumn: 40,
+    opcodeCase: 'lower',
+    registerCase: 'upper',
+    spaceAfterComma: true,
+    useTabs: false,
+    tabSize: 4
+};
+
+const TABS = { ...SPACES, useTabs: true };
+
+/**
+ * Each case is a line, the options to format it with and the expected result
+ */
+const CASES = [
+    ['instruction', '  RDAX adcl,1.0', SPACES, '        rdax    ADCL, 1.0'],
+    ['label on the line', 'start: SOF -1.0,0', SPACES, 'start:  sof     -1.0, 0'],
+    ['long label pushes the opcode', 'a_very_long_label: clr', SPACES, 'a_very_long_label: clr'],
+    ['trailing comment', 'wrax dacl , 0 ;  out   ', SPACES, '        wrax    DACL, 0' + ' '.repeat(17) + ';  out'],
+    ['user names keep their case', 'rdax Input, k_Gain', SPACES, '        rdax    Input, k_Gain'],
+    ['registers in expressions', 'rdax reg0+1,0.5', SPACES, '        rdax    REG0+1, 0.5'],
+    ['no space after comma', 'wrax dacl, 0', { ...SPACES, spaceAfterComma: false }, '        wrax    DACL,0'],
+    ['upper case opcodes (skip flags are not registers)', 'skp run, start', { ...SPACES, opcodeCase: 'upper' }, '        SKP     run, start'],
+    ['preserve case', 'Rdax AdcL, 1.0', { ...SPACES, opcodeCase: 'preserve', registerCase: 'preserve' }, '        Rdax    AdcL, 1.0'],
+    ['tabs', 'rdax adcl,1.0 ; in', TABS, '\t\trdax\tADCL, 1.0\t\t\t\t; in'],
+    ['tabs after a label', 'lp: clr', TABS, 'lp:\t\tclr'],
+    ['EQU kept as written', 'equ   gain   0.5   ', SPACES, 'equ   gain   0.5'],
+    ['MEM kept as written', '  mem delay 1000 ; echo', SPACES, '  mem delay 1000 ; echo'],
+    ['include kept as written', 'include  "lib.spn"', SPACES, 'include  "lib.spn"'],
+    ['macro kept as written', 'macro  fade src,k', SPACES, 'macro  fade src,k'],
+    ['label-only line kept', 'loop:', SPACES, 'loop:'],
+    ['comment line kept', '   ; a comment  ', SPACES, '   ; a comment'],
+    ['blank line emptied', '   \t', SPACES, '']
+];
+
+function testCase(name, text, options, expected) {
+    assertEqual(formatLine(text, options), expected, `${name}: formatted line mismatch`);
+    assertEqual(formatLine(expected, options), expected, `${name}: formatting is not idempotent`);
+}
+
+function testReferencePrograms() {
+    const refDir = path.join(__dirname, 'ref');
+    const files = fs.readdirSync(refDir).filter(f => f.endsWith('.spn'));
+    const squash = line => line.replace(/\s+/g, '').toLowerCase();
+
+    for (const options of [SPACES, TABS]) {
+        console.log(`  Validating with ${options.useTabs ? 'tabs' : 'spaces'}...`);
+        for (const file of files) {
+            const lines = readFileSync(path.join(refDir, file)).split(/\r?\n/);
+            lines.forEach((line, i) => {
+                const formatted = formatLine(line, options);
+                assertEqual(squash(formatted), squash(line), `${file}:${i + 1}: formatting changed more than layout and case`);
+                assertEqual(formatLine(formatted, options), formatted, `${file}:${i + 1}: formatting is not idempotent`);
+            });
+        }
+    }
+    assert(files.length > 0, 'No reference programs found');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Formatter Tests ===`);
+
+    const tests = [
+        ...CASES.map(([name, text, options, expected]) => [name, () => testCase(name, text, options, expected)]),
+        ['reference programs', testReferencePrograms]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,291 @@
+import * as path from 'path';
+import { lintProgram, LINT_RULES } from '../out/core/fv1Linter.js';
+import { preprocess } from '../out/core/fv1Preprocessor.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+const ROOT = path.resolve('/project/main.spn');
+const LIB = path.resolve('/project/lib.spn');
+
+// Registers and SKP flags, as numbered in the FV-1 datasheet
+const ADCL = 0x14;
+const ADCR = 0x15;
+const DACL = 0x16;
+const DACR = 0x17;
+const REG0 = 0x20;
+const RUN = 0x10;
+
+/**
+ * Encode the instructions the tests use, with the field layouts of the datasheet
+ */
+const fixed = (value, fractionBits, width) => Math.round(value * 2 ** fractionBits) & (2 ** width - 1);
+const registerOp = opcode => (register, c) => (fixed(c, 14, 16) * 2 ** 16 + register * 2 ** 5 + opcode) >>> 0;
+const rdax = registerOp(0x04);
+const ldax = register => registerOp(0x05)(register, 0);
+const wrax = registerOp(0x06);
+const rda = (address, c) => (fixed(c, 9, 11) * 2 ** 21 + address * 2 ** 5) >>> 0;
+const skp = (flags, skip) => (flags * 2 ** 27 + skip * 2 ** 21 + 0x11) >>> 0;
+const jmp = skip => skp(0, skip);
+const clr = () => 0x0000000E;
+const wlds = (lfo, frequency, amplitude) => (lfo * 2 ** 29 + frequency * 2 ** 20 + amplitude * 2 ** 5 + 0x12) >>> 0;
+const wldr = (lfo, frequency, amplitudeIndex) => (2 ** 30 + lfo * 2 ** 29 + (frequency & 0xFFFF) * 2 ** 13 + amplitudeIndex * 2 ** 5 + 0x12) >>> 0;
+const choRda = (flags, lfo, address) => (flags * 2 ** 24 + lfo * 2 ** 21 + address * 2 ** 5 + 0x14) >>> 0;
+
+// Writes both outputs and clears ACC, so a test program only trips the rule under test
+const OUTPUTS = [['\twrax\tDACL, 1.0', wrax(DACL, 1.0)], ['\twrax\tDACR, 0', wrax(DACR, 0)]];
+
+/**
+ * Lint a program given as source lines; instruction lines are [text, word] pairs.
+ * Declarations are { kind, name, line, file?, ... } with lines in the file they are in.
+ */
+function lint(lines, { declarations = [], files = {}, rules = LINT_RULES } = {}) {
+    const text = lines.map(line => Array.isArray(line) ? line[0] : line).join('\n');
+    const source = preprocess(text, ROOT, filePath => files[filePath]);
+    const expandedLine = (file, line) => source.lineMap.findIndex(l => l.file === file && l.line === line && !l.macro) + 1;
+
+    const machineCode = [];
+    const addressToLineMap = new Map();
+    lines.forEach((line, i) => {
+        if (!Array.isArray(line)) return;
+        addressToLineMap.set(machineCode.length, expandedLine(ROOT, i + 1));
+        machineCode.push(line[1]);
+    });
+
+    const declared = kind => declarations
+        .filter(d => d.kind === kind)
+        .map(({ kind: _, file, line, ...d }) => ({ ...d, line: expandedLine(file ?? ROOT, line) }));
+    const result = {
+        machineCode,
+        problems: [],
+        symbols: declared('EQU'),
+        memories: declared('MEM'),
+        addressToLineMap
+    };
+
+    return lintProgram(result, source, ROOT, new Set(rules));
+}
+
+function only(problems, rule) {
+    return problems.filter(p => p.rule === rule);
+}
+
+function testReadBeforeWrite() {
+    const problems = only(lint([
+        'equ\tlp\treg0',
+        ['\trdax\tlp, 0.5', rdax(REG0, 0.5)],
+        ['\trdax\treg1, 1.0', rdax(REG0 + 1, 1.0)],
+        ['\twrax\tlp, 0', wrax(REG0, 0)],
+        ['\trdax\tlp, 1.0', rdax(REG0, 1.0)],
+        ...OUTPUTS
+    ]), 'readBeforeWrite');
+
+    assertEqual(problems.length, 2, 'Expected two registers read before written');
+    assertEqual(problems[0].line, 2, 'First read line mismatch');
+    assertEqual(problems[0].message, "'lp' (REG0) is read before it is written, so it holds the value from the previous sample", 'Previous sample message mismatch');
+    assertEqual(problems[1].line, 3, 'Never written line mismatch');
+    assertEqual(problems[1].message, 'REG1 is read but never written, so it is always 0', 'Never written message mismatch');
+}
+
+function testMissingDacWrite() {
+    const problems = only(lint([
+        ['\trdax\tADCL, 1.0', rdax(ADCL, 1.0)],
+        ['\twrax\tDACL, 0', wrax(DACL, 0)]
+    ]), 'missingDacWrite');
+
+    assertEqual(problems.length, 1, 'Expected one silent output');
+    assertEqual(problems[0].message, 'DACR is never written, so the right output is silent', 'Message mismatch');
+    assertEqual(problems[0].line, 1, 'Problem should be on the first instruction');
+}
+
+function testAccAtEnd() {
+    const rule = 'accNonZeroAtEnd';
+
+    console.log(`  Validating ACC left set...`);
+    let problems = only(lint([['\trdax\tADCL, 1.0', rdax(ADCL, 1.0)], ...OUTPUTS.slice(0, 1)]), rule);
+    assertEqual(problems.length, 1, 'ACC left at the end should be reported');
+    assertEqual(problems[0].line, 2, 'Problem should be on the last instruction');
+
+    console.log(`  Validating ACC cleared...`);
+    problems = only(lint([['\trdax\tADCL, 1.0', rdax(ADCL, 1.0)], ...OUTPUTS]), rule);
+    assertEqual(problems.length, 0, 'WRAX with 0 clears ACC');
+
+    console.log(`  Validating ACC overwritten at the start...`);
+    problems = only(lint([
+        ['\tskp\trun, start', skp(RUN, 1)],
+        ['\twlds\tsin0, 50, 64', wlds(0, 50, 64)],
+        'start:',
+        ['\tldax\tADCL', ldax(ADCL)],
+        ...OUTPUTS.slice(0, 1)
+    ]), rule);
+    assertEqual(problems.length, 0, 'LDAX after the setup skip overwrites ACC');
+}
+
+function testDelayReads() {
+    const declarations = [
+        { kind: 'MEM', name: 'DELAY', size: 100, start: 0, end: 100, line: 1 },
+        { kind: 'MEM', name: 'ECHO', size: 100, start: 200, end: 300, line: 2 }
+    ];
+    const problems = only(lint([
+        'mem\tdelay\t100',
+        'mem\techo\t100',
+        ['\trda\tdelay+50, 0.5', rda(50, 0.5)],
+        ['\trda\tdelay+150, 0.5', rda(150, 0.5)],
+        ['\trda\techo-10, 0.5', rda(190, 0.5)],
+        ['\tcho\trda, sin0, reg, delay+200', choRda(0x02, 0, 200)],
+        ...OUTPUTS
+    ], { declarations }), 'delayReadPastEnd');
+
+    assertEqual(problems.length, 3, 'Expected three reads outside their block');
+    assertEqual(problems[0].message, "Delay read at address 150 is past the end of 'delay' (0-100)", 'Past the end message mismatch');
+    assertEqual(problems[0].line, 4, 'Past the end line mismatch');
+    assertEqual(problems[1].message, "Delay read at address 190 is before the start of 'echo' (200-300)", 'Before the start message mismatch');
+    assertEqual(problems[2].line, 6, 'CHO RDA should be checked');
+}
+
+function testSkips() {
+    const problems = only(lint([
+        ['\tskp\trun, 5', skp(RUN, 5)],
+        ['\tjmp\t1', jmp(1)],
+        ...OUTPUTS
+    ]), 'skipPastEnd');
+
+    assertEqual(problems.length, 1, 'Expected one skip past the end');
+    assertEqual(problems[0].message, 'SKP jumps 2 instructions past the end of the program', 'Message mismatch');
+    assertEqual(problems[0].line, 1, 'Line mismatch');
+}
+
+function testUnusedSymbols() {
+    const declarations = [
+        { kind: 'EQU', name: 'GAIN', value: '0.5', line: 1 },
+        { kind: 'EQU', name: 'UNUSED', value: '0.25', line: 2 },
+        { kind: 'MEM', name: 'SPARE', size: 10, start: 0, end: 10, line: 3 },
+        { kind: 'EQU', name: 'LIBRARY', value: '1', file: LIB, line: 1 }
+    ];
+    const problems = only(lint([
+        'equ\tgain\t0.5',
+        'equ\tUnused\t0.25',
+        'mem\tspare\t10',
+        'include "lib.spn"',
+        ['\trdax\tADCL, gain', rdax(ADCL, 0.5)],
+        ...OUTPUTS
+    ], { declarations, files: { [LIB]: 'equ\tlibrary\t1' } }), 'unusedSymbol');
+
+    assertEqual(problems.map(p => p.name).join(','), 'UNUSED,SPARE', 'Only unused declarations in the root file should be reported');
+    assertEqual(problems[0].message, "EQU 'Unused' is never used", 'EQU message should use the declared name');
+    assertEqual(problems[0].line, 2, 'EQU line mismatch');
+    assertEqual(problems[1].message, "MEM 'spare' is never used", 'MEM message mismatch');
+}
+
+function testUnusedLfos() {
+    const problems = only(lint([
+        ['\twlds\tsin0, 50, 64', wlds(0, 50, 64)],
+        ['\twlds\tsin1, 50, 64', wlds(1, 50, 64)],
+        ['\twldr\trmp0, 100, 4096', wldr(0, 100, 0)],
+        ['\tcho\trda, sin1, reg, 100', choRda(0x02, 1, 100)],
+        ...OUTPUTS
+    ]), 'unusedLfo');
+
+    assertEqual(problems.map(p => p.message).join('\n'), [
+        'SIN0 is set up with WLDS but never used by CHO',
+        'RMP0 is set up with WLDR but never used by CHO'
+    ].join('\n'), 'Unused LFO messages mismatch');
+    assertEqual(problems[1].line, 3, 'Line mismatch');
+}
+
+function testAccSaturation() {
+    const problems = only(lint([
+        ['\trdax\tADCL, 1.0', rdax(ADCL, 1.0)],
+        ['\trdax\tADCR, 1.0', rdax(ADCR, 1.0)],
+        ...OUTPUTS
+    ]), 'accSaturation');
+
+    assertEqual(problems.length, 1, 'Expected one saturating instruction');
+    assertEqual(problems[0].line, 2, 'Line mismatch');
+    assertEqual(problems[0].message, 'ACC may saturate here: the result can reach -2.000 … 2.000', 'Message mismatch');
+}
+
+function testUnreachable() {
+    const problems = only(lint([
+        ['\tjmp\tend', jmp(1)],
+        ['\tclr', clr()],
+        'end:',
+        ...OUTPUTS
+    ]), 'unreachableCode');
+
+    assertEqual(problems.length, 1, 'Expected one unreachable instruction');
+    assertEqual(problems[0].line, 2, 'Line mismatch');
+}
+
+function testRuleSelection() {
+    const program = [['\trdax\treg0, 1.0', rdax(REG0, 1.0)], ['\tskp\trun, 5', skp(RUN, 5)]];
+
+    console.log(`  Validating all rules...`);
+    const rules = new Set(lint(program).map(p => p.rule));
+    for (const rule of ['readBeforeWrite', 'missingDacWrite', 'accNonZeroAtEnd', 'skipPastEnd']) {
+        assert(rules.has(rule), `Rule ${rule} should report`);
+    }
+
+    console.log(`  Validating a subset...`);
+    const problems = lint(program, { rules: ['skipPastEnd'] });
+    assert(problems.length > 0 && problems.every(p => p.rule === 'skipPastEnd'), 'Only the selected rules should run');
+
+    console.log(`  Validating an empty program...`);
+    assertEqual(lint([]).length, 0, 'An empty program has no problems');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Linter Tests ===`);
+
+    const tests = [
+        ['readBeforeWrite', testReadBeforeWrite],
+        ['missingDacWrite', testMissingDacWrite],
+        ['accNonZeroAtEnd', testAccAtEnd],
+        ['delayReadPastEnd', testDelayReads],
+        ['skipPastEnd', testSkips],
+        ['unusedSymbol', testUnusedSymbols],
+        ['unusedLfo', testUnusedLfos],
+        ['accSaturation', testAccSaturation],
+        ['unreachableCode', testUnreachable],
+        ['rule selection', testRuleSelection]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,149 @@
+import { buildMemoryLayout } from '../out/core/fv1MemoryLayout.js';
+import { decodeInstruction } from '../out/core/fv1Decoder.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function assertDeepEqual(actual, expected, message) {
+    assertEqual(JSON.stringify(actual), JSON.stringify(expected), message);
+}
+
+const DELAY_SIZE = 32768;
+
+/**
+ * Encode the delay memory instructions the tests use, with the field layouts of the datasheet
+ */
+const delayOp = opcode => (address, c = 1.0) => ((Math.round(c * 512) & 0x7FF) * 2 ** 21 + address * 2 ** 5 + opcode) >>> 0;
+const rda = delayOp(0x00);
+const wra = delayOp(0x02);
+const wrap = delayOp(0x03);
+const choRda = address => (0b000110 * 2 ** 24 + address * 2 ** 5 + 0x14) >>> 0;
+const clr = () => 0x0000000E;
+
+function decode(words) {
+    return words.map(word => decodeInstruction(word));
+}
+
+// Declared out of order, as MEM blocks may be
+const MEMORIES = [
+    { name: 'echo', start: 2000, size: 100, line: 2 },
+    { name: 'delay', start: 0, size: 1000, line: 1, file: '/project/lib.spn' }
+];
+
+function testBlocks() {
+    console.log(`  Validating blocks are sorted by address...`);
+    const layout = buildMemoryLayout(MEMORIES, [], undefined, DELAY_SIZE, false);
+    assertDeepEqual(layout.blocks.map(b => [b.name, b.start, b.size]), [['delay', 0, 1000], ['echo', 2000, 100]], 'Block order mismatch');
+    assertEqual(layout.blocks[0].file, '/project/lib.spn', 'Included block should keep its file');
+    assertEqual(layout.blocks[1].line, 2, 'Block line mismatch');
+    assert(layout.blocks.every(b => b.wastedWord === undefined), 'No words are wasted without the memory bug');
+
+    console.log(`  Validating a missing start address...`);
+    const unplaced = buildMemoryLayout([{ name: 'tmp', size: 10 }], [], undefined, DELAY_SIZE, false);
+    assertEqual(unplaced.blocks[0].start, 0, 'A block without a start should be placed at 0');
+}
+
+function testFreeSpace() {
+    console.log(`  Validating free ranges...`);
+    let layout = buildMemoryLayout(MEMORIES, [], undefined, DELAY_SIZE, false);
+    assertEqual(layout.used, 1100, 'Used words mismatch');
+    assertDeepEqual(layout.free, [{ start: 1000, size: 1000 }, { start: 2100, size: DELAY_SIZE - 2100 }], 'Free ranges mismatch');
+
+    console.log(`  Validating the SpinASM memory bug...`);
+    layout = buildMemoryLayout(MEMORIES, [], undefined, DELAY_SIZE, true);
+    assertDeepEqual(layout.blocks.map(b => b.wastedWord), [1000, 2100], 'Wasted words should follow each block');
+    assertEqual(layout.used, 1102, 'Wasted words should count as used');
+    assertDeepEqual(layout.free, [{ start: 1001, size: 999 }, { start: 2101, size: DELAY_SIZE - 2101 }], 'Free ranges should skip wasted words');
+
+    console.log(`  Validating full delay RAM...`);
+    layout = buildMemoryLayout([{ name: 'all', start: 0, size: DELAY_SIZE }], [], undefined, DELAY_SIZE, false);
+    assertEqual(layout.free.length, 0, 'A full delay RAM has no free ranges');
+
+    console.log(`  Validating an empty program...`);
+    layout = buildMemoryLayout([], [], undefined, DELAY_SIZE, true);
+    assertEqual(layout.used, 0, 'Nothing should be used');
+    assertDeepEqual(layout.free, [{ start: 0, size: DELAY_SIZE }], 'All of delay RAM should be free');
+}
+
+function testTaps() {
+    const program = decode([
+        rda(500),       // 0: delay+500
+        wra(0),         // 1: delay, write
+        rda(1000),      // 2: delay#, the word after the block
+        clr(),          // 3: no access
+        rda(1500),      // 4: between blocks
+        choRda(2050),   // 5: echo+50
+        wrap(2099)      // 6: echo+99, write
+    ]);
+    const lines = new Map(program.map((_, pc) => [pc, pc + 10]));
+    const layout = buildMemoryLayout(MEMORIES, program, lines, DELAY_SIZE, true);
+    const [delay, echo] = layout.blocks;
+
+    console.log(`  Validating taps inside blocks...`);
+    assertDeepEqual(delay.taps.map(t => [t.pc, t.offset, t.mnemonic, t.write]), [
+        [0, 500, 'rda', false],
+        [1, 0, 'wra', true],
+        [2, 1000, 'rda', false]
+    ], 'Taps of the first block mismatch');
+    assertDeepEqual(echo.taps.map(t => [t.pc, t.offset, t.mnemonic, t.write]), [
+        [5, 50, 'cho rda', false],
+        [6, 99, 'wrap', true]
+    ], 'Taps of the second block mismatch');
+
+    console.log(`  Validating source lines...`);
+    assertEqual(delay.taps[1].line, 11, 'Tap line mismatch');
+    const unmapped = buildMemoryLayout(MEMORIES, program, undefined, DELAY_SIZE, true);
+    assertEqual(unmapped.blocks[0].taps[0].line, undefined, 'Taps without a line map should have no line');
+
+    console.log(`  Validating stray taps...`);
+    assertDeepEqual(layout.strayTaps.map(t => [t.pc, t.address, t.offset]), [[4, 1500, 1500]], 'Stray taps mismatch');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Memory Layout Tests ===`);
+
+    const tests = [
+        ['blocks', testBlocks],
+        ['free space', testFreeSpace],
+        ['taps', testTaps]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    describePotAutomation,
+    evaluatePotLane,
+    loadPotAutomation,
+    potAutomationSidecarPath,
+    toPotAutomation,
+    validatePotAutomation
+} from '../out/simulator/FV1PotAutomation.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+/**
+ * Check a lane against [time, value] pairs
+ */
+function assertLane(lane, points, message) {
+    for (const [time, expected] of points) {
+        const actual = evaluatePotLane(lane, time);
+        if (Math.abs(actual - expected) > 1e-9) {
+            throw new Error(`${message} at ${time} s\nExpected: ${expected}\nActual: ${actual}`);
+        }
+    }
+}
+
+function assertThrows(fn, message, expected) {
+    let error;
+    try {
+        fn();
+    } catch (e) {
+        error = e;
+    }
+    assert(error, `${message}: expected an error`);
+    assertEqual(error.message, expected, `${message}: error message mismatch`);
+}
+
+function testRamp() {
+    const ramp = { type: 'ramp', from: 0.2, to: 0.8, duration: 2, delay: 1 };
+    assertLane(ramp, [[0, 0.2], [1, 0.2], [2, 0.5], [3, 0.8], [10, 0.8]], 'Ramp plays once');
+    assertLane({ ...ramp, loop: true }, [[2, 0.5], [4, 0.5], [4.5, 0.65]], 'Looped ramp starts again');
+    assertLane({ type: 'ramp', from: 0, to: 1, duration: 0 }, [[0, 1], [5, 1]], 'Zero-length ramp jumps to the end');
+}
+
+function testLfo() {
+    assertLane({ type: 'lfo', rate: 1 }, [[0, 0], [0.25, 0.5], [0.5, 1], [1, 0]], 'Sine');
+    assertLane({ type: 'lfo', rate: 2, shape: 'triangle' }, [[0, 0], [0.125, 0.5], [0.25, 1], [0.375, 0.5]], 'Triangle');
+    assertLane({ type: 'lfo', rate: 1, shape: 'square' }, [[0.1, 1], [0.6, 0]], 'Square');
+    assertLane({ type: 'lfo', rate: 1, shape: 'saw', min: 0.2, max: 0.6 }, [[0, 0.2], [0.5, 0.4]], 'Saw between min and max');
+    assertLane({ type: 'lfo', rate: 1, shape: 'saw', phase: 0.25 }, [[0, 0.25], [0.5, 0.75]], 'Phase offset');
+}
+
+function testSteps() {
+    const steps = { type: 'steps', values: [0.1, 0.5, 0.9], stepDuration: 0.5 };
+    assertLane(steps, [[0, 0.1], [0.6, 0.5], [1.2, 0.9], [5, 0.9]], 'Steps hold the last value');
+    assertLane({ ...steps, loop: true }, [[1.6, 0.1], [2.1, 0.5]], 'Looped steps start again');
+}
+
+function testRecorded() {
+    const recorded = { type: 'recorded', points: [[0, 0.2], [1, 0.6], [2, 0.4]] };
+    assertLane(recorded, [[0, 0.2], [0.5, 0.2], [1, 0.6], [1.9, 0.6], [10, 0.4]], 'Recorded moves play once');
+    assertLane({ ...recorded, loop: true }, [[3, 0.6], [4.5, 0.2]], 'Looped moves start again');
+}
+
+function testConfig() {
+    console.log(`  Validating toPotAutomation...`);
+    const config = { pot1: { type: 'ramp', from: 0, to: 1, duration: 1 } };
+    const pots = toPotAutomation(config, [0.1, 0.2, 0.3]);
+    assertEqual(pots[0], 0.1, 'POT0 should stay fixed');
+    assertEqual(typeof pots[1], 'function', 'POT1 should follow its lane');
+    assertEqual(pots[1](0.5), 0.5, 'POT1 value mismatch');
+    assertEqual(pots[2], 0.3, 'POT2 should stay fixed');
+
+    console.log(`  Validating describePotAutomation...`);
+    assertEqual(describePotAutomation({ pot0: { type: 'lfo', rate: 1 }, pot2: { type: 'recorded', points: [[0, 0]] } }), 'POT0 lfo, POT2 recorded', 'Description mismatch');
+    assertEqual(describePotAutomation({}), '', 'Empty description mismatch');
+
+    console.log(`  Validating potAutomationSidecarPath...`);
+    assertEqual(potAutomationSidecarPath(path.join('project', 'delay.spn')), path.join('project', 'delay.pots.json'), 'Sidecar path mismatch');
+}
+
+function testValidation() {
+    const valid = {
+        pot0: { type: 'ramp', from: 0, to: 1, duration: 2, delay: 0.5, loop: true },
+        pot1: { type: 'lfo', rate: 0.5, shape: 'triangle', min: 0.1, max: 0.9, phase: 0.25 },
+        pot2: { type: 'steps', values: [0, 0.5, 1], stepDuration: 0.25 }
+    };
+    assertEqual(validatePotAutomation(valid), valid, 'A valid config should be returned');
+    validatePotAutomation({ pot0: { type: 'recorded', points: [[0, 0.5], [0.5, 0.25]] } });
+
+    const cases = [
+        ['array', [], 'POT automation must be an object with pot0, pot1 and/or pot2 lanes'],
+        ['unknown POT', { pot3: {} }, 'POT automation pot3: unknown POT (expected pot0, pot1 or pot2)'],
+        ['lane type', { pot0: { type: 'noise' } }, 'POT automation pot0: unknown lane type "noise" (expected ramp, lfo, steps or recorded)'],
+        ['ramp level', { pot0: { type: 'ramp', from: 0, to: 2, duration: 1 } }, 'POT automation pot0: ramp "from" and "to" must be between 0 and 1'],
+        ['lfo shape', { pot1: { type: 'lfo', rate: 1, shape: 'wobble' } }, 'POT automation pot1: lfo "shape" must be sine, triangle, square or saw'],
+        ['step duration', { pot2: { type: 'steps', values: [0.5], stepDuration: 0 } }, 'POT automation pot2: steps "stepDuration" must be a positive number of seconds'],
+        ['recorded point', { pot0: { type: 'recorded', points: [[0, 0.5], [1]] } }, 'POT automation pot0: recorded point 1 must be [seconds, value between 0 and 1]'],
+        ['recorded order', { pot0: { type: 'recorded', points: [[1, 0.5], [0, 0.5]] } }, 'POT automation pot0: recorded points must be in time order']
+    ];
+    for (const [name, config, message] of cases) {
+        console.log(`  Validating ${name}...`);
+        assertThrows(() => validatePotAutomation(config), name, message);
+    }
+}
+
+function testLoad() {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fv1-pots-'));
+    try {
+        const file = path.join(dir, 'test.pots.json');
+
+        console.log(`  Validating a valid file...`);
+        fs.writeFileSync(file, JSON.stringify({ pot0: { type: 'lfo', rate: 2 } }));
+        assertEqual(loadPotAutomation(file).pot0.rate, 2, 'Loaded lane mismatch');
+
+        console.log(`  Validating invalid JSON...`);
+        fs.writeFileSync(file, '{ pot0: ');
+        let error;
+        try {
+            loadPotAutomation(file);
+        } catch (e) {
+            error = e;
+        }
+        assert(error && error.message.startsWith('Cannot read test.pots.json: '), `Invalid JSON should name the file, got: ${error?.message}`);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== POT Automation Tests ===`);
+
+    const tests = [
+        ['ramp lanes', testRamp],
+        ['lfo lanes', testLfo],
+        ['steps lanes', testSteps],
+        ['recorded lanes', testRecorded],
+        ['automation configs', testConfig],
+        ['validation', testValidation],
+        ['sidecar files', testLoad]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,135 @@
+import { FV1PotModel, DEFAULT_POT_MODEL, getPotModelOptions } from '../out/simulator/FV1PotModel.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+const SAMPLE_RATE = 32768;
+const LEVELS = DEFAULT_POT_MODEL.levels;
+
+/**
+ * A stand-in for the fv1.simulation configuration section
+ */
+function configuration(values) {
+    return { get: key => values[key] };
+}
+
+/**
+ * A POT position that reads exactly as an ADC code
+ */
+function atCode(code) {
+    return code / (LEVELS - 1);
+}
+
+function testOptions() {
+    assertEqual(getPotModelOptions(configuration({})), undefined, 'Model should be off by default');
+    assertEqual(getPotModelOptions(configuration({ 'potModel.enabled': false })), undefined, 'Disabled model mismatch');
+
+    const defaults = getPotModelOptions(configuration({ 'potModel.enabled': true }));
+    assertEqual(JSON.stringify(defaults), JSON.stringify(DEFAULT_POT_MODEL), 'Default settings mismatch');
+
+    const custom = getPotModelOptions(configuration({ 'potModel.enabled': true, 'potModel.levels': 128, 'potModel.hysteresis': 0 }));
+    assertEqual(custom.levels, 128, 'Levels override mismatch');
+    assertEqual(custom.hysteresis, 0, 'Hysteresis override mismatch');
+    assertEqual(custom.smoothingMs, DEFAULT_POT_MODEL.smoothingMs, 'Unset settings should keep their default');
+}
+
+function testQuantization() {
+    const model = new FV1PotModel({ ...DEFAULT_POT_MODEL, smoothingMs: 0 }, SAMPLE_RATE);
+
+    console.log(`  Validating reset...`);
+    model.reset([0, atCode(200), 1]);
+    let output = model.process([0, atCode(200), 1]);
+    assertEqual(output[0], 0, 'Bottom of travel should read 0');
+    assertEqual(output[1], 200 / LEVELS, 'Settled reading mismatch');
+    assertEqual(output[2], (LEVELS - 1) / LEVELS, 'Top of travel should read just below 1.0');
+
+    console.log(`  Validating hysteresis...`);
+    output = model.process([0, atCode(201.4), 1]);
+    assertEqual(output[1], 200 / LEVELS, 'Moves within the hysteresis should be ignored');
+    output = model.process([0, atCode(201.6), 1]);
+    assertEqual(output[1], 201 / LEVELS, 'Moves past the hysteresis should step the reading');
+    output = model.process([0, atCode(199.6), 1]);
+    assertEqual(output[1], 201 / LEVELS, 'Small reversals should be ignored');
+    output = model.process([0, atCode(150), 1]);
+    assertEqual(output[1], 151 / LEVELS, 'The reading should trail the knob by the hysteresis');
+
+    console.log(`  Validating the ends of travel...`);
+    output = model.process([0, 0.0005, 1]);
+    assertEqual(output[1], 0, 'The bottom of travel should always be reached');
+
+    console.log(`  Validating out-of-range values...`);
+    output = model.process([-0.5, 1.5, 1]);
+    assertEqual(output[0], 0, 'Values below 0 should clamp');
+    assertEqual(output[1], (LEVELS - 1) / LEVELS, 'Values above 1 should clamp');
+}
+
+function testSmoothing() {
+    const options = { ...DEFAULT_POT_MODEL, smoothingMs: 30 };
+    const timeConstant = Math.round(options.smoothingMs / 1000 * SAMPLE_RATE);
+    const top = (LEVELS - 1) / LEVELS;
+
+    console.log(`  Validating the step response...`);
+    const model = new FV1PotModel(options, SAMPLE_RATE);
+    model.reset([0, 0, 0]);
+    let output;
+    for (let i = 0; i < timeConstant; i++) {
+        output = model.process([1, 1, 1]);
+    }
+    const expected = top * (1 - Math.exp(-1));
+    assert(Math.abs(output[0] - expected) < 1e-3, `After one time constant expected ${expected}, got ${output[0]}`);
+
+    console.log(`  Validating block processing...`);
+    const block = new FV1PotModel(options, SAMPLE_RATE);
+    block.reset([0, 0, 0]);
+    const blockOutput = block.process([1, 1, 1], timeConstant);
+    assert(Math.abs(blockOutput[0] - output[0]) < 1e-9, `A block should match single samples: ${blockOutput[0]} vs ${output[0]}`);
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== POT Model Tests ===`);
+
+    const tests = [
+        ['settings', testOptions],
+        ['ADC quantization and hysteresis', testQuantization],
+        ['smoothing', testSmoothing]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
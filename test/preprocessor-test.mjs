@@ -0,0 +1,304 @@
+import * as path from 'path';
+import { preprocess, mapResultToSource, findMacroBlocks, parseIncludeDirective } from '../out/core/fv1Preprocessor.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function assertDeepEqual(actual, expected, message) {
+    assertEqual(JSON.stringify(actual), JSON.stringify(expected), message);
+}
+
+const ROOT = path.resolve('/project/main.spn');
+const LIB = path.resolve('/project/lib/util.spn');
+
+/**
+ * A source reader over an in-memory set of files
+ */
+function reader(files) {
+    return filePath => files[filePath];
+}
+
+function testIncludeExpansion() {
+    const main = [
+        'equ\tgain\t0.5',
+        'include "lib/util.spn"',
+        '\twrax\tDACL, 0'
+    ].join('\n');
+    const util = [
+        '; shared code',
+        '\trdax\tADCL, gain'
+    ].join('\n');
+
+    const result = preprocess(main, ROOT, reader({ [LIB]: util }));
+
+    console.log(`  Validating expanded text...`);
+    assertEqual(result.text, [
+        'equ\tgain\t0.5',
+        '; include "lib/util.spn"',
+        '; shared code',
+        '\trdax\tADCL, gain',
+        '\twrax\tDACL, 0'
+    ].join('\n'), 'Expanded text mismatch');
+
+    console.log(`  Validating line map...`);
+    assertDeepEqual(result.lineMap.map(l => [l.file, l.line]), [[ROOT, 1], [ROOT, 2], [LIB, 1], [LIB, 2], [ROOT, 3]], 'Line map mismatch');
+    assertDeepEqual(result.rootLines, [1, 2, 2, 2, 3], 'Root lines mismatch');
+    assertDeepEqual(result.includes, [LIB], 'Includes mismatch');
+    assertEqual(result.problems.length, 0, 'Unexpected problems');
+}
+
+function testMacroExpansion() {
+    const main = [
+        'macro\tfade\tsrc, k',         // 1
+        '\trdax\tsrc, k',              // 2
+        '\tskp\tneg, done',            // 3
+        '\tsof\t-1.0, 0',              // 4
+        'done:',                       // 5
+        'endm',                        // 6
+        'start:\tfade\tADCL, 0.5',     // 7
+        '\tfade\tADCR, 0.25',          // 8
+        '\twrax\tDACL, 0'              // 9
+    ].join('\n');
+
+    const result = preprocess(main, ROOT, reader({}));
+    const lines = result.text.split('\n');
+
+    console.log(`  Validating definition is kept as comments...`);
+    for (let i = 0; i < 6; i++) {
+        assert(lines[i].startsWith('; '), `Definition line ${i + 1} should be commented out: ${lines[i]}`);
+    }
+
+    console.log(`  Validating expansions...`);
+    assertEqual(lines[6], 'start:\t; fade\tADCL, 0.5', 'Invocation with a label mismatch');
+    assertEqual(lines[7], '\trdax\tADCL, 0.5', 'Arguments not substituted');
+    assertEqual(lines[8], '\tskp\tneg, fade_1_done', 'Label reference not renamed');
+    assertEqual(lines[10], 'fade_1_done:', 'Label declaration not renamed');
+    assertEqual(lines[11], '; fade\tADCR, 0.25', 'Invocation without a label mismatch');
+    assertEqual(lines[12], '\trdax\tADCR, 0.25', 'Arguments of second expansion not substituted');
+    assertEqual(lines[13], '\tskp\tneg, fade_2_done', 'Second expansion label not renamed');
+    assertEqual(lines[16], '\twrax\tDACL, 0', 'Line after the expansions mismatch');
+    assertDeepEqual(result.macros, ['FADE'], 'Macro names mismatch');
+
+    console.log(`  Validating line map...`);
+    const expanded = result.lineMap[8];
+    assertEqual(expanded.line, 7, 'Expanded line should map to the invocation');
+    assertDeepEqual(expanded.macro, { name: 'fade', file: ROOT, line: 3 }, 'Macro origin mismatch');
+    assertEqual(result.lineMap[6].macro, undefined, 'Invocation line should have no macro origin');
+    assertEqual(result.rootLines[13], 8, 'Root line of second expansion mismatch');
+    assertEqual(result.problems.length, 0, 'Unexpected problems');
+}
+
+function testMacroInInclude() {
+    const main = 'include "lib/util.spn"\n\tgain\tADCL\n\twrax\tDACL, 0';
+    const util = 'macro gain r\n\trdax\tr, 2.0\nendm';
+
+    const result = preprocess(main, ROOT, reader({ [LIB]: util }));
+    const lines = result.text.split('\n');
+
+    assertEqual(lines[5], '\trdax\tADCL, 2.0', 'Macro from an include not expanded');
+    assertDeepEqual(result.lineMap[5].macro, { name: 'gain', file: LIB, line: 2 }, 'Macro origin should be in the include');
+    assertEqual(result.lineMap[5].file, ROOT, 'Expansion should map to the invocation file');
+    assertEqual(result.rootLines[5], 2, 'Root line mismatch');
+}
+
+function testMacroArguments() {
+    const main = [
+        'macro scl k',
+        '\tsof\t-k, 0',
+        'endm',
+        '\tscl\t0.5-0.25',
+        '\tscl\t-0.5',
+        '\tscl\tgain',
+        '\tscl\t$7F'
+    ].join('\n');
+
+    const lines = preprocess(main, ROOT, reader({})).text.split('\n');
+
+    console.log(`  Validating expressions are parenthesized...`);
+    assertEqual(lines[4], '\tsof\t-(0.5-0.25), 0', 'Expression argument should keep its precedence');
+    assertEqual(lines[6], '\tsof\t-(-0.5), 0', 'Signed argument should be parenthesized');
+
+    console.log(`  Validating names and numbers are kept as written...`);
+    assertEqual(lines[8], '\tsof\t-gain, 0', 'Name argument mismatch');
+    assertEqual(lines[10], '\tsof\t-$7F, 0', 'Number argument mismatch');
+}
+
+function testMissingEndmInInclude() {
+    const main = '\trdax\tADCL, 1.0\n\n include "lib/util.spn"\n\twrax\tDACL, 0';
+    const util = '; helpers\nmacro half r\n\trdax\tr, 0.5';
+
+    const result = preprocess(main, ROOT, reader({ [LIB]: util }));
+
+    console.log(`  Validating problem...`);
+    assertEqual(result.problems.length, 1, 'Expected one problem');
+    const problem = result.problems[0];
+    assertEqual(problem.message, "Macro 'half' is missing endm", 'Problem message mismatch');
+    assertDeepEqual(problem.location, { file: LIB, line: 2 }, 'Problem location mismatch');
+    assertEqual(problem.rootLine, 3, 'Problem should be reported on the include directive');
+
+    console.log(`  Validating mapped problem...`);
+    const mapped = mapResultToSource({ machineCode: [], problems: [], symbols: [], memories: [] }, result, ROOT);
+    assertEqual(mapped.problems.length, 1, 'Expected one mapped problem');
+    assertEqual(mapped.problems[0].line, 3, 'Mapped problem line mismatch');
+    assertEqual(mapped.problems[0].message, "util.spn:2: Macro 'half' is missing endm", 'Mapped problem message mismatch');
+    assert(mapped.problems[0].isfatal, 'Preprocessor problems must be fatal');
+    assertDeepEqual(mapped.problems[0].source, { file: LIB, line: 2 }, 'Mapped problem source mismatch');
+}
+
+function testMissingEndmInRoot() {
+    const result = preprocess('\trdax\tADCL, 1.0\nmacro half r\n\trdax\tr, 0.5', ROOT, reader({}));
+    assertEqual(result.problems.length, 1, 'Expected one problem');
+    assertEqual(result.problems[0].rootLine, 2, 'Problem should be reported on the macro line');
+
+    const mapped = mapResultToSource({ machineCode: [], problems: [], symbols: [], memories: [] }, result, ROOT);
+    assertEqual(mapped.problems[0].message, "Macro 'half' is missing endm", 'Problem in the root file should not name the file');
+    assertEqual(mapped.problems[0].source, undefined, 'Problem in the root file should have no source');
+}
+
+function testProblems() {
+    const cases = [
+        ['argument count', 'macro m a, b\n\tsof a, b\nendm\n\tm 0.5', 4, "Macro 'm' expects 2 arguments but got 1"],
+        ['endm without macro', '\tclr\nendm', 2, 'endm without a matching macro'],
+        ['reserved word', 'macro rdax a\nendm', 1, "'rdax' is a reserved word and cannot be used as a macro name"],
+        ['missing include', '\tclr\ninclude "missing.spn"', 2, "Cannot read included file 'missing.spn'"],
+        ['circular include', 'include "main.spn"', 1, "Circular include of 'main.spn'"]
+    ];
+
+    for (const [name, text, rootLine, message] of cases) {
+        console.log(`  Validating ${name}...`);
+        const result = preprocess(text, ROOT, reader({ [ROOT]: text }));
+        assertEqual(result.problems.length, 1, `${name}: expected one problem`);
+        assertEqual(result.problems[0].message, message, `${name}: message mismatch`);
+        assertEqual(result.problems[0].rootLine, rootLine, `${name}: root line mismatch`);
+    }
+
+    console.log(`  Validating recursive macro...`);
+    const recursive = preprocess('macro r\n\tr\nendm\n\tr', ROOT, reader({}));
+    assert(recursive.problems.some(p => p.message.startsWith('Macros are nested more than')), 'Recursive macro not reported');
+}
+
+function testMapResultToSource() {
+    const main = [
+        'include "lib/util.spn"',      // 1
+        'macro amp r',                 // 2
+        '\trdax\tr, 2.0',              // 3
+        'endm',                        // 4
+        '\tamp\tADCL',                 // 5
+        '\twrax\tDACL, 0'              // 6
+    ].join('\n');
+    const util = [
+        'equ\tLevel\t0.5',             // 1
+        'mem\tEcho\t1000',             // 2
+        'Top:\trdax\tADCR, Level'      // 3
+    ].join('\n');
+
+    const source = preprocess(main, ROOT, reader({ [LIB]: util }));
+    // Expanded: 1 include, 2-4 util, 5-7 macro definition, 8 invocation, 9 body, 10 wrax
+    assertEqual(source.text.split('\n')[8], '\trdax\tADCL, 2.0', 'Unexpected expansion');
+
+    const result = {
+        machineCode: [0, 0, 0],
+        problems: [
+            { line: 4, message: 'Bad operand', isfatal: true },
+            { line: 9, message: 'Out of range', isfatal: false },
+            { line: 10, message: 'Root problem', isfatal: true }
+        ],
+        symbols: [{ name: 'LEVEL', value: '0.5', line: 2 }],
+        memories: [{ name: 'ECHO', size: 1000, start: 0, end: 1000, line: 3 }],
+        labels: new Map([['TOP', { line: 4, instructionLine: 4 }]]),
+        addressToLineMap: new Map([[0, 4], [1, 9], [2, 10]])
+    };
+
+    const mapped = mapResultToSource(result, source, ROOT);
+
+    console.log(`  Validating problems...`);
+    assertEqual(mapped.problems[0].line, 1, 'Include problem should be on the directive');
+    assertEqual(mapped.problems[0].message, 'util.spn:3: Bad operand', 'Include problem message mismatch');
+    assertDeepEqual(mapped.problems[0].source, { file: LIB, line: 3 }, 'Include problem source mismatch');
+    assertEqual(mapped.problems[1].line, 5, 'Macro problem should be on the invocation');
+    assertEqual(mapped.problems[1].message, "Out of range (in macro 'amp')", 'Macro problem message mismatch');
+    assertEqual(mapped.problems[1].source.macro.line, 3, 'Macro problem source mismatch');
+    assertEqual(mapped.problems[2].line, 6, 'Root problem line mismatch');
+    assertEqual(mapped.problems[2].source, undefined, 'Root problem should have no source');
+
+    console.log(`  Validating declarations...`);
+    assertDeepEqual([mapped.symbols[0].line, mapped.symbols[0].file, mapped.symbols[0].declaredName], [1, LIB, 'Level'], 'Symbol mismatch');
+    assertDeepEqual([mapped.memories[0].line, mapped.memories[0].file, mapped.memories[0].declaredName], [2, LIB, 'Echo'], 'Memory mismatch');
+    const label = mapped.labels.get('TOP');
+    assertDeepEqual([label.line, label.file, label.declaredName], [3, LIB, 'Top'], 'Label mismatch');
+
+    console.log(`  Validating address maps...`);
+    assertDeepEqual([...mapped.addressToLineMap], [[0, 1], [1, 5], [2, 6]], 'Address to line map mismatch');
+    assertDeepEqual(mapped.addressToSourceMap.get(0), { file: LIB, line: 3 }, 'Address source mismatch');
+    assertEqual(mapped.addressToSourceMap.get(1).macro.name, 'amp', 'Address macro origin mismatch');
+}
+
+function testHelpers() {
+    console.log(`  Validating parseIncludeDirective...`);
+    assertDeepEqual(parseIncludeDirective('  include "lib/a b.spn" ; comment'), { path: 'lib/a b.spn', start: 11, end: 22 }, 'Quoted include mismatch');
+    assertEqual(parseIncludeDirective("INCLUDE 'x.spn'").path, 'x.spn', 'Single-quoted include mismatch');
+    assertEqual(parseIncludeDirective('include x.spn').path, 'x.spn', 'Unquoted include mismatch');
+    assertEqual(parseIncludeDirective('; include "x.spn"'), undefined, 'Commented include should not match');
+
+    console.log(`  Validating findMacroBlocks...`);
+    const blocks = findMacroBlocks('\tclr\nmacro a x, y\n\tsof x, y\nendm\nMACRO b\n\tclr');
+    assertDeepEqual(blocks, [
+        { name: 'a', params: ['x', 'y'], startLine: 1, endLine: 3 },
+        { name: 'b', params: [], startLine: 4, endLine: 5 }
+    ], 'Macro blocks mismatch');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Preprocessor Tests ===`);
+
+    const tests = [
+        ['include expansion', testIncludeExpansion],
+        ['macro expansion', testMacroExpansion],
+        ['macro defined in an include', testMacroInInclude],
+        ['macro arguments', testMacroArguments],
+        ['missing endm in an include', testMissingEndmInInclude],
+        ['missing endm in the root file', testMissingEndmInRoot],
+        ['include and macro problems', testProblems],
+        ['result mapping', testMapResultToSource],
+        ['directive helpers', testHelpers]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
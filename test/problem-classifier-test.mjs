@@ -0,0 +1,143 @@
+import { classifyProblem, clampToRange, findOutOfRangeOperands } from '../out/core/fv1ProblemClassifier.js';
+import { parseLine } from '../out/core/fv1Syntax.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+/**
+ * Classify a problem, returning the code and the text of the range it points at
+ */
+function classify(line, message, { symbols = {}, known = [], macros = [] } = {}) {
+    const symbolValues = new Map(Object.entries(symbols).map(([name, value]) => [name.toUpperCase(), value]));
+    const knownNames = new Set([...Object.keys(symbols), ...known].map(name => name.toUpperCase()));
+    const problem = classifyProblem(line, message, symbolValues, knownNames, new Set(macros.map(m => m.toUpperCase())));
+    return { ...problem, text: line.substring(problem.start, problem.end) };
+}
+
+function assertProblem(actual, code, text, message) {
+    assertEqual(actual.code, code, `${message}: code mismatch`);
+    assertEqual(actual.text, text, `${message}: range mismatch`);
+}
+
+function testCodes() {
+    console.log(`  Validating unknown opcodes...`);
+    let problem = classify('\trdxa\tADCL, 1.0', 'Unknown instruction');
+    assertProblem(problem, 'unknown-opcode', 'rdxa', 'Misspelled opcode');
+    assertEqual(problem.name, 'rdxa', 'Unknown opcode name mismatch');
+    assertProblem(classify('\tconstructor\tADCL', 'Unknown instruction'), 'unknown-opcode', 'constructor', 'Object prototype keys are not opcodes');
+    assertProblem(classify('start:\tRDAX\tADCL, 1.0 ; read', 'Unknown instruction'), undefined, 'start:\tRDAX\tADCL, 1.0', 'Known opcodes in any case');
+
+    console.log(`  Validating undefined symbols...`);
+    problem = classify('\trdax\tinput, gain', 'Undefined symbol', { symbols: { gain: 0.5 } });
+    assertProblem(problem, 'undefined-symbol', 'input', 'Undefined register name');
+    assertEqual(problem.name, 'input', 'Undefined symbol name mismatch');
+    assertProblem(classify('\trda\tdelay#, 0.5', 'Undefined symbol', { known: ['delay'] }), undefined, 'rda\tdelay#, 0.5', 'Declared MEM with a suffix is defined');
+    assertProblem(classify('\tskp\tneg, done', 'Undefined label'), 'undefined-symbol', 'done', 'Undefined label');
+
+    console.log(`  Validating out of range operands...`);
+    assertProblem(classify('\tsof\t2.5, 0', 'Value out of range'), 'out-of-range', '2.5', 'Coefficient out of range');
+    assertProblem(classify('\tsof\tk, 0', 'Value out of range', { symbols: { k: -3 } }), 'out-of-range', 'k', 'Symbol out of range');
+    assertProblem(classify('\twldr\trmp0, 100, 300', 'Invalid amplitude'), 'out-of-range', '300', 'Value not in the allowed set');
+
+    console.log(`  Validating delay overflows...`);
+    assertProblem(classify('delay\tmem\t40000', 'Delay memory exhausted'), 'delay-overflow', '40000', 'MEM larger than delay RAM');
+    assertProblem(classify('mem\tdelay\t40000', 'Out of delay memory'), 'delay-overflow', '40000', 'Prefix MEM form points at the size');
+}
+
+function testRanges() {
+    console.log(`  Validating quoted names...`);
+    let problem = classify('\tjmp\tloop', "Cannot jump to 'LOOP'", { known: ['loop'] });
+    assertProblem(problem, undefined, 'loop', 'Quoted name should be found regardless of case');
+
+    console.log(`  Validating the fallback range...`);
+    problem = classify('   clr   ; reset', 'Something went wrong');
+    assertProblem(problem, undefined, 'clr', 'Fallback should cover the code, not the comment');
+    problem = classify('; only a comment', 'Something went wrong');
+    assertEqual(problem.start, 0, 'Fallback on a comment line should start at 0');
+    assertEqual(problem.end, 16, 'Fallback on a comment line should cover the line');
+}
+
+function testIncludeLines() {
+    const problem = classify('include "lib/util.spn" ; shared', "Cannot read included file 'lib/util.spn'");
+    assertProblem(problem, undefined, 'lib/util.spn', 'Include problems should point at the path');
+}
+
+function testMacroLines() {
+    console.log(`  Validating macro definitions...`);
+    assertProblem(classify('macro rdax a', "'rdax' is a reserved word and cannot be used as a macro name"), undefined, 'rdax', 'Reserved macro name');
+    assertProblem(classify('endm', 'endm without a matching macro'), undefined, 'endm', 'Unmatched endm');
+
+    console.log(`  Validating macro invocations...`);
+    const problem = classify('\tfade\tinput, 0.5', 'Out of range (in macro \'fade\')', { macros: ['fade'] });
+    assertProblem(problem, undefined, 'fade\tinput, 0.5', 'Invocations should not be unknown opcodes or undefined symbols');
+}
+
+function testOutOfRangeOperands() {
+    const operands = findOutOfRangeOperands(parseLine('\trdax\t70, 3.0'), new Map());
+    assertEqual(operands.length, 2, 'Both operands should be out of range');
+    assertEqual(operands[0].index, 0, 'Register index mismatch');
+    assertEqual(operands[1].value, 3, 'Coefficient value mismatch');
+
+    assertEqual(findOutOfRangeOperands(parseLine('\trdax\treg0, krt'), new Map()).length, 0, 'Unresolved operands cannot be checked');
+    assertEqual(findOutOfRangeOperands(parseLine('krt\tequ\t3.0'), new Map()).length, 0, 'Directives have no operand ranges');
+    assertEqual(findOutOfRangeOperands(parseLine('\tsof\t-2.0, 0.999'), new Map()).length, 0, 'Values at the limits are in range');
+
+    console.log(`  Validating clampToRange...`);
+    const [register, coefficient] = operands.map(o => o.range);
+    assertEqual(clampToRange(70, register), '63', 'Integer clamp mismatch');
+    assertEqual(clampToRange(3.0, coefficient), '1.99994', 'Fixed-point clamp mismatch');
+    assertEqual(clampToRange(-5, coefficient), '-2', 'Negative fixed-point clamp mismatch');
+    assertEqual(clampToRange(300, { min: 512, max: 4096, values: [512, 1024, 2048, 4096] }), '512', 'Closest allowed value mismatch');
+    assert(clampToRange(0.25, coefficient) === '0.25', 'Values in range should be kept');
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Problem Classifier Tests ===`);
+
+    const tests = [
+        ['problem codes', testCodes],
+        ['problem ranges', testRanges],
+        ['include lines', testIncludeLines],
+        ['macro lines', testMacroLines],
+        ['out of range operands', testOutOfRangeOperands]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
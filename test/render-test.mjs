@@ -0,0 +1,189 @@
+import { FV1AudioProcessor } from '../out/simulator/FV1AudioProcessor.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+function assertClose(actual, expected, tolerance, message) {
+    if (Math.abs(actual - expected) > tolerance) {
+        throw new Error(`${message}\nExpected: ${expected} ± ${tolerance}\nActual: ${actual}`);
+    }
+}
+
+// Clipping only: no filters, no DC blocking and no noise
+const CLIP_ONLY = { inputClipDb: 0, outputClipDb: 0, dcBlockHz: 0, filterHz: 0, noiseFloorDb: null };
+
+/**
+ * A stand-in for the simulator whose program scales the left input by POT0 and the right
+ * input by POT1, recording how it was driven
+ */
+function stubSimulator() {
+    const stub = {
+        resets: 0,
+        steps: [],
+        blocks: [],
+        reset() {
+            stub.resets++;
+        },
+        step(inL, inR, pot0, pot1, pot2) {
+            stub.steps.push([pot0, pot1, pot2]);
+            return [inL * pot0, inR * pot1];
+        },
+        processBlock(inL, inR, outL, outR, pot0, pot1, pot2) {
+            stub.blocks.push({ length: inL.length, pots: [pot0, pot1, pot2] });
+            for (let i = 0; i < inL.length; i++) {
+                outL[i] = inL[i] * pot0;
+                outR[i] = inR[i] * pot1;
+            }
+        }
+    };
+    return stub;
+}
+
+function constant(length, value) {
+    return new Float32Array(length).fill(value);
+}
+
+async function testFixedPots() {
+    const stub = stubSimulator();
+    const processor = new FV1AudioProcessor(stub);
+    const output = await processor.render(constant(100, 0.5), constant(100, -0.5), { pots: [0.5, 1.5, -1], sampleRate: 32768 });
+
+    assertEqual(stub.resets, 1, 'The simulator should be reset before rendering');
+    assertEqual(stub.steps.length, 0, 'Fixed POTs should be processed in blocks');
+    assertEqual(stub.blocks.length, 1, 'A short input should be one block');
+    assertEqual(stub.blocks[0].pots.join(','), '0.5,1,0', 'POTs should be clamped to 0.0 - 1.0');
+    assertEqual(output.sampleRate, 32768, 'Output sample rate mismatch');
+    assertEqual(output.left[99], 0.25, 'Left output mismatch');
+    assertEqual(output.right[99], -0.5, 'Right output mismatch');
+}
+
+async function testAutomatedPots() {
+    const stub = stubSimulator();
+    const processor = new FV1AudioProcessor(stub);
+    const output = await processor.render(constant(4, 1), constant(4, 1), { pots: [t => t, 0.3, () => 2], sampleRate: 4 });
+
+    console.log(`  Validating one POT update per sample...`);
+    assertEqual(stub.blocks.length, 0, 'Automated POTs should not be processed in blocks');
+    assertEqual(stub.steps.length, 4, 'Every sample should be stepped');
+    assertEqual(stub.steps.map(p => p[0]).join(','), '0,0.25,0.5,0.75', 'POT0 should follow the automation at each sample time');
+    assert(stub.steps.every(p => p[1] === 0.3), 'Fixed POTs should hold alongside automated ones');
+    assert(stub.steps.every(p => p[2] === 1), 'Automated values should be clamped');
+
+    console.log(`  Validating the output...`);
+    assertEqual(Array.from(output.left).join(','), '0,0.25,0.5,0.75', 'Output should follow POT0');
+}
+
+async function testPotModel() {
+    const stub = stubSimulator();
+    const processor = new FV1AudioProcessor(stub);
+    const potModel = { levels: 4, smoothingMs: 0, hysteresis: 0 };
+    await processor.render(constant(3, 1), constant(3, 1), { pots: [0.4, 1, 0], sampleRate: 48000, potModel });
+
+    assertEqual(stub.steps.length, 3, 'The POT model should be run every sample');
+    // 0.4 reads as code 1 of 4; the top code reads as 3/4
+    assertEqual(stub.steps[0].join(','), '0.25,0.75,0', 'POTs should pass through the POT model');
+}
+
+async function testProgress() {
+    const stub = stubSimulator();
+    const processor = new FV1AudioProcessor(stub);
+    const fractions = [];
+    await processor.render(constant(100000, 0), constant(100000, 0), { pots: [0.5, 0.5, 0.5], sampleRate: 32768, onProgress: f => fractions.push(f) });
+
+    assertEqual(stub.blocks.reduce((length, b) => length + b.length, 0), 100000, 'Every sample should be processed once');
+    assert(stub.blocks.length > 1, 'A long input should be processed in several blocks');
+    assertEqual(fractions[0], 0, 'Progress should start at 0');
+    assertEqual(fractions[fractions.length - 1], 1, 'Progress should end at 1');
+    assert(fractions.every((f, i) => i === 0 || f > fractions[i - 1]), `Progress should only advance: ${fractions}`);
+}
+
+async function testCancellation() {
+    console.log(`  Validating cancellation before the first block...`);
+    let stub = stubSimulator();
+    let output = await new FV1AudioProcessor(stub).render(constant(10, 0), constant(10, 0), { pots: [0, 0, 0], sampleRate: 32768, isCancelled: () => true });
+    assertEqual(output, undefined, 'A cancelled render should give no output');
+    assertEqual(stub.blocks.length, 0, 'Nothing should be processed after cancelling');
+
+    console.log(`  Validating cancellation part way...`);
+    stub = stubSimulator();
+    let polls = 0;
+    const isCancelled = () => ++polls > 1;
+    output = await new FV1AudioProcessor(stub).render(constant(100000, 0), constant(100000, 0), { pots: [0, 0, 0], sampleRate: 32768, isCancelled });
+    assertEqual(output, undefined, 'A render cancelled part way should give no output');
+    assertEqual(stub.blocks.length, 1, 'Processing should stop at the next block');
+}
+
+async function testCodecModel() {
+    const stub = stubSimulator();
+    const processor = new FV1AudioProcessor(stub);
+    const inputL = Float32Array.from([2, 0.5]);
+    const inputR = Float32Array.from([-2, 0.5]);
+    const codecModel = { ...CLIP_ONLY, outputClipDb: -6 };
+    const output = await processor.render(inputL, inputR, { pots: [1, 0.5, 0], sampleRate: 48000, codecModel });
+
+    console.log(`  Validating the ADC...`);
+    assertEqual(output.right[0], -0.5, 'Input should be clipped before the program');
+    assertEqual(output.right[1], 0.25, 'Input below the clip point should pass unchanged');
+    assertEqual(inputL[0], 2, 'The caller\'s input should not be changed');
+
+    console.log(`  Validating the DAC...`);
+    const clip = Math.pow(10, -6 / 20);
+    assertClose(output.left[0], clip, 1e-6, 'Output should be clipped after the program');
+    assertEqual(output.left[1], 0.5, 'Output below the clip point should pass unchanged');
+
+    console.log(`  Validating passthrough without the model...`);
+    const plain = await new FV1AudioProcessor(stubSimulator()).render(inputL, inputR, { pots: [1, 1, 0], sampleRate: 48000 });
+    assertEqual(Array.from(plain.left).join(','), '2,0.5', 'Without the codec model the audio should pass unchanged');
+}
+
+/**
+ * Main test runner
+ */
+async function main() {
+    console.log(`\n=== Render Tests ===`);
+
+    const tests = [
+        ['fixed POTs', testFixedPots],
+        ['automated POTs', testAutomatedPots],
+        ['POT model', testPotModel],
+        ['progress', testProgress],
+        ['cancellation', testCancellation],
+        ['codec model', testCodecModel]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            await test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { detectEncoding, decodeSource } from '../out/core/fv1SourceEncoding.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+const SOURCE = '; Delay\r\nmem\tdelay\t32767\r\n\trdax\tADCL, 1.0\r\n\twra\tdelay, 0.5\r\n';
+
+function utf16be(text) {
+    return Buffer.from(text, 'utf16le').swap16();
+}
+
+/**
+ * Each case is the bytes of a file and the encoding they should be detected as
+ */
+const CASES = [
+    ['UTF-8', () => Buffer.from(SOURCE, 'utf8'), 'utf8'],
+    ['UTF-8 with BOM', () => Buffer.concat([Buffer.from([0xEF, 0xBB, 0xBF]), Buffer.from(SOURCE, 'utf8')]), 'utf8bom'],
+    ['UTF-16 LE with BOM', () => Buffer.concat([Buffer.from([0xFF, 0xFE]), Buffer.from(SOURCE, 'utf16le')]), 'utf16le'],
+    ['UTF-16 LE without BOM', () => Buffer.from(SOURCE, 'utf16le'), 'utf16le'],
+    ['UTF-16 BE with BOM', () => Buffer.concat([Buffer.from([0xFE, 0xFF]), utf16be(SOURCE)]), 'utf16be'],
+    ['UTF-16 BE without BOM', () => utf16be(SOURCE), 'utf16be']
+];
+
+function testEncoding(name, bytes, expected) {
+    console.log(`\nTesting ${name}...`);
+    const data = bytes();
+
+    console.log(`  Validating detection...`);
+    assertEqual(detectEncoding(data), expected, 'Detected encoding mismatch');
+
+    console.log(`  Validating decoded text...`);
+    const decoded = decodeSource(data);
+    assertEqual(decoded.encoding, expected, 'Decoded encoding mismatch');
+    assertEqual(decoded.text, SOURCE, 'Decoded text mismatch (the BOM must be removed)');
+
+    console.log(`  ✓ ${name} passed`);
+}
+
+function testEdgeCases() {
+    console.log(`\nTesting edge cases...`);
+
+    console.log(`  Validating empty and one-byte files...`);
+    assertEqual(detectEncoding(new Uint8Array(0)), 'utf8', 'Empty file should be UTF-8');
+    assertEqual(detectEncoding(Buffer.from('x')), 'utf8', 'One-byte file should be UTF-8');
+
+    console.log(`  Validating non-ASCII UTF-8...`);
+    const accented = '; Réverb — 0.5\n';
+    assertEqual(detectEncoding(Buffer.from(accented, 'utf8')), 'utf8', 'Non-ASCII UTF-8 misdetected');
+    assertEqual(decodeSource(Buffer.from(accented, 'utf8')).text, accented, 'Non-ASCII UTF-8 text mismatch');
+
+    console.log(`  Validating odd-length UTF-16...`);
+    const odd = Buffer.concat([Buffer.from(SOURCE, 'utf16le'), Buffer.from([0x0A])]);
+    assertEqual(decodeSource(odd).text, SOURCE, 'Trailing odd byte should be dropped');
+
+    console.log(`  Validating decoding from a subarray...`);
+    const padded = Buffer.concat([Buffer.from('xx'), Buffer.from(SOURCE, 'utf16le')]);
+    const view = new Uint8Array(padded.buffer, padded.byteOffset + 2, padded.length - 2);
+    assertEqual(decodeSource(view).text, SOURCE, 'Decoding must respect the byte offset of the array');
+
+    console.log(`  ✓ edge cases passed`);
+}
+
+function testReferencePrograms() {
+    console.log(`\nTesting reference programs...`);
+    const refDir = path.join(__dirname, 'ref');
+    const files = fs.readdirSync(refDir).filter(f => f.endsWith('.spn'));
+    for (const file of files) {
+        const bytes = fs.readFileSync(path.join(refDir, file));
+        const decoded = decodeSource(bytes);
+        // Some were saved by the SpinASM IDE as UTF-16 LE, with or without a BOM
+        if (bytes[1] === 0 || (bytes[0] === 0xFF && bytes[1] === 0xFE)) {
+            assertEqual(decoded.encoding, 'utf16le', `${file} encoding mismatch`);
+        }
+        assert(!decoded.text.includes('\0'), `${file} decoded as ${decoded.encoding} still contains NUL characters`);
+        assert(/^\s*(;|equ|mem|[a-z]+\s)/im.test(decoded.text), `${file} decoded as ${decoded.encoding} does not look like assembly`);
+    }
+    console.log(`  ✓ ${files.length} reference programs decoded`);
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== Source Encoding Tests ===`);
+
+    const tests = [
+        ...CASES.map(([name, bytes, expected]) => [name, () => testEncoding(name, bytes, expected)]),
+        ['edge cases', testEdgeCases],
+        ['reference programs', testReferencePrograms]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        try {
+            test();
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
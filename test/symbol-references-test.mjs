@@ -0,0 +1,111 @@
+import { findDeclaration, getLineIdentifiers, isReservedWord } from '../out/core/fv1Syntax.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+/**
+ * The identifiers on a line as "text@start" (with a trailing "!" for declarations),
+ * the form Find All References, highlighting and rename match symbols in
+ */
+function identifiers(text) {
+    return getLineIdentifiers(text).map(t => `${text.substring(t.start, t.end)}@${t.start}${t.isDeclaration ? '!' : ''}`).join(' ');
+}
+
+function testSuffixes() {
+    console.log(`  Validating MEM suffixes...`);
+    assertEqual(identifiers('\trda\tdelay#, 0.5'), 'delay@5', 'End address suffix should not be part of the name');
+    assertEqual(identifiers('\twra\tdelay^, 0'), 'delay@5', 'Midpoint suffix should not be part of the name');
+
+    console.log(`  Validating offsets...`);
+    assertEqual(identifiers('\trda\tdelay+100, 0.5'), 'delay@5', 'Offset should not be part of the name');
+    assertEqual(identifiers('\trda\tdelay + 100, krt'), 'delay@5 krt@18', 'Spaced offset and a second operand');
+    assertEqual(identifiers('\tcho\trda, sin0, reg|compc, delay^+50'), 'rda@5 sin0@10 reg@16 compc@20 delay@27', 'CHO operands');
+}
+
+function testSubstrings() {
+    console.log(`  Validating names that contain other names...`);
+    const tokens = getLineIdentifiers('\trdax\tgain2, again').map(t => t.text.toUpperCase());
+    assert(!tokens.includes('GAIN'), `'gain' should not match inside gain2 or again: ${tokens}`);
+    assertEqual(identifiers('\tsof\tgain*gain, 0'), 'gain@5 gain@10', 'Both uses in an expression');
+
+    console.log(`  Validating numbers...`);
+    assertEqual(identifiers('\tand\t$FFE0'), '', 'Hex digits are not names');
+    assertEqual(identifiers('\tand\t0x7FFF00'), '', 'C-style hex digits are not names');
+    assertEqual(identifiers('\tor\t%0101_1010'), '', 'Binary digits are not names');
+    assertEqual(identifiers('\tsof\t1e-3, 0'), '', 'Exponents are not names');
+
+    console.log(`  Validating comments and opcodes...`);
+    assertEqual(identifiers('\tclr\t; gain'), '', 'Comments hold no references');
+    assertEqual(identifiers('\tgain'), '', 'The opcode position is not a reference');
+}
+
+function testDeclarations() {
+    assertEqual(identifiers('gain\tequ\t0.5'), 'gain@0!', 'Suffix EQU declaration');
+    assertEqual(identifiers('equ\tgain\tkrt*0.5'), 'gain@4! krt@9', 'Prefix EQU declaration and its value');
+    assertEqual(identifiers('delay\tmem\t1000'), 'delay@0!', 'MEM declaration');
+    assertEqual(identifiers('loop:\tskp\trun, loop'), 'loop@0! run@10 loop@15', 'Label declaration and use');
+
+    console.log(`  Validating findDeclaration...`);
+    assertEqual(findDeclaration('EQU\tGain\t0.5', 'gain').text, 'Gain', 'Declared name should keep its case');
+    assertEqual(findDeclaration('Loop:\tclr', 'LOOP').text, 'Loop', 'Label declaration mismatch');
+    assertEqual(findDeclaration('\trdax\tgain, 1.0', 'gain'), undefined, 'A use is not a declaration');
+}
+
+function testReservedWords() {
+    for (const word of ['rdax', 'RDAX', 'adcl', 'Sin0', 'rda', 'compc', 'run', 'equ', 'MEM']) {
+        assert(isReservedWord(word), `'${word}' should be reserved`);
+    }
+    for (const word of ['gain', 'delay', 'constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+        assert(!isReservedWord(word), `'${word}' should not be reserved`);
+    }
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== FV1 Symbol Reference Tests ===`);
+
+    const tests = [
+        ['suffixes and offsets', testSuffixes],
+        ['substring safety', testSubstrings],
+        ['declarations', testDeclarations],
+        ['reserved words', testReservedWords]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,231 @@
+import { decodeWav, encodeWav, resample, SIMULATION_SAMPLE_RATES } from '../out/simulator/FV1WavFile.js';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition, message) {
+    if (!condition) {
+        throw new Error(message || 'Assertion failed');
+    }
+}
+
+function assertEqual(actual, expected, message) {
+    if (actual !== expected) {
+        throw new Error(`${message}\nExpected: ${expected}\nActual: ${actual}`);
+    }
+}
+
+const SAMPLE_RATE = 32768;
+
+/**
+ * A short stereo test signal covering full scale in both directions
+ */
+function testSignal() {
+    const left = Float32Array.from([0, 0.5, -0.5, 0.999, -1, 0.25, -0.125, 0.001]);
+    const right = Float32Array.from(left, v => -v * 0.5);
+    return { left, right, sampleRate: SAMPLE_RATE };
+}
+
+/**
+ * Build a RIFF/WAVE file from chunks given as [id, bytes]
+ */
+function riff(chunks) {
+    const parts = [];
+    for (const [id, bytes] of chunks) {
+        const header = Buffer.alloc(8);
+        header.write(id, 0, 'latin1');
+        header.writeUInt32LE(bytes.length, 4);
+        parts.push(header, bytes);
+        // Chunks are padded to an even length
+        if (bytes.length & 1) parts.push(Buffer.alloc(1));
+    }
+    const body = Buffer.concat(parts);
+    const header = Buffer.alloc(12);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(body.length + 4, 4);
+    header.write('WAVE', 8, 'latin1');
+    return Buffer.concat([header, body]);
+}
+
+function fmtChunk(formatTag, numChannels, bitsPerSample, sampleRate = SAMPLE_RATE) {
+    const fmt = Buffer.alloc(16);
+    const blockAlign = numChannels * bitsPerSample / 8;
+    fmt.writeUInt16LE(formatTag, 0);
+    fmt.writeUInt16LE(numChannels, 2);
+    fmt.writeUInt32LE(sampleRate, 4);
+    fmt.writeUInt32LE(sampleRate * blockAlign, 8);
+    fmt.writeUInt16LE(blockAlign, 12);
+    fmt.writeUInt16LE(bitsPerSample, 14);
+    return fmt;
+}
+
+function pcm16(samples) {
+    const data = Buffer.alloc(samples.length * 2);
+    samples.forEach((v, i) => data.writeInt16LE(v, i * 2));
+    return data;
+}
+
+function testFormat(bitsPerSample, float) {
+    const audio = testSignal();
+    const buffer = encodeWav(audio, { bitsPerSample, float });
+    const decoded = decodeWav(buffer);
+
+    assertEqual(decoded.sampleRate, SAMPLE_RATE, 'Sample rate mismatch');
+    assertEqual(decoded.numChannels, 2, 'Channel count mismatch');
+    assertEqual(decoded.format.bitsPerSample, bitsPerSample, 'Bit depth mismatch');
+    assertEqual(decoded.format.float, float, 'Float flag mismatch');
+    assertEqual(decoded.left.length, audio.left.length, 'Sample count mismatch');
+
+    // One step of the integer formats; floats come back exactly
+    const tolerance = float ? 0 : 2 / 2 ** (bitsPerSample - 1);
+    for (let i = 0; i < audio.left.length; i++) {
+        assert(Math.abs(decoded.left[i] - audio.left[i]) <= tolerance, `Left sample ${i}: expected ${audio.left[i]}, got ${decoded.left[i]}`);
+        assert(Math.abs(decoded.right[i] - audio.right[i]) <= tolerance, `Right sample ${i}: expected ${audio.right[i]}, got ${decoded.right[i]}`);
+    }
+}
+
+function testClamping() {
+    const audio = { left: Float32Array.from([1.5, -1.5]), right: Float32Array.from([0, 0]), sampleRate: SAMPLE_RATE };
+    const decoded = decodeWav(encodeWav(audio));
+    assert(decoded.left[0] > 0.999 && decoded.left[0] <= 1, `Positive overload should clamp to full scale, got ${decoded.left[0]}`);
+    assert(decoded.left[1] < -0.999 && decoded.left[1] >= -1, `Negative overload should clamp to full scale, got ${decoded.left[1]}`);
+}
+
+function testChunkOrder() {
+    const data = pcm16([16384, -16384, 8192, -8192]);
+
+    console.log(`  Validating chunks before fmt...`);
+    // A LIST chunk of odd length before fmt, and a data chunk before fmt
+    const list = Buffer.from('INFOISFT\x05\x00\x00\x00test\x00', 'latin1');
+    let decoded = decodeWav(riff([['LIST', list], ['data', data], ['fmt ', fmtChunk(1, 2, 16)]]));
+    assertEqual(decoded.left.length, 2, 'Sample count mismatch');
+    assertEqual(decoded.left[0], 0.5, 'Left sample mismatch');
+    assertEqual(decoded.right[1], -0.25, 'Right sample mismatch');
+
+    console.log(`  Validating padded odd chunks...`);
+    decoded = decodeWav(riff([['fmt ', fmtChunk(1, 2, 16)], ['junk', Buffer.from('abc')], ['data', data]]));
+    assertEqual(decoded.left[1], 0.25, 'Samples after a padded chunk mismatch');
+
+    console.log(`  Validating a streamed data size of 0...`);
+    const streamed = riff([['fmt ', fmtChunk(1, 2, 16)], ['data', data]]);
+    streamed.writeUInt32LE(0, 4);
+    streamed.writeUInt32LE(0, streamed.length - data.length - 4);
+    assertEqual(decodeWav(streamed).left.length, 2, 'A streamed data size of 0 should read to the end of the file');
+
+    console.log(`  Validating a streamed data size of 0xFFFFFFFF...`);
+    streamed.writeUInt32LE(0xFFFFFFFF, streamed.length - data.length - 4);
+    decoded = decodeWav(streamed);
+    assertEqual(decoded.left.length, 2, 'A streamed data size of 0xFFFFFFFF should read to the end of the file');
+    assertEqual(decoded.right[1], -0.25, 'Streamed samples should not be read as chunk headers');
+
+    console.log(`  Validating an empty data chunk...`);
+    decoded = decodeWav(riff([['fmt ', fmtChunk(1, 2, 16)], ['data', Buffer.alloc(0)], ['LIST', list]]));
+    assertEqual(decoded.left.length, 0, 'A LIST chunk after an empty data chunk should not be read as audio');
+
+    console.log(`  Validating mono...`);
+    decoded = decodeWav(riff([['fmt ', fmtChunk(1, 1, 16)], ['data', data]]));
+    assertEqual(decoded.numChannels, 1, 'Channel count mismatch');
+    assertEqual(decoded.left.length, 4, 'Mono sample count mismatch');
+    assertEqual(decoded.right[2], 0.25, 'Mono should be copied to the right channel');
+
+    console.log(`  Validating WAVE_FORMAT_EXTENSIBLE...`);
+    const extensible = Buffer.alloc(40);
+    fmtChunk(0xFFFE, 2, 16).copy(extensible);
+    extensible.writeUInt16LE(22, 16);
+    extensible.writeUInt16LE(1, 24); // Sub-format: PCM
+    decoded = decodeWav(riff([['fmt ', extensible], ['data', data]]));
+    assertEqual(decoded.left[0], 0.5, 'Extensible PCM sample mismatch');
+}
+
+function testErrors() {
+    const cases = [
+        ['not RIFF', Buffer.from('RIFX\0\0\0\0WAVE'), 'Not a valid RIFF/WAVE file'],
+        ['no fmt chunk', riff([['data', pcm16([0])]]), 'WAV file has no fmt chunk'],
+        ['no data chunk', riff([['fmt ', fmtChunk(1, 2, 16)]]), 'WAV file has no data chunk'],
+        ['compressed', riff([['fmt ', fmtChunk(2, 2, 16)], ['data', pcm16([0, 0])]]), 'Unsupported WAV encoding (format tag 0x2)'],
+        ['12-bit', riff([['fmt ', fmtChunk(1, 2, 12)], ['data', pcm16([0, 0])]]), 'Unsupported bit depth: 12-bit PCM']
+    ];
+
+    for (const [name, buffer, message] of cases) {
+        console.log(`  Validating ${name}...`);
+        let error;
+        try {
+            decodeWav(buffer);
+        } catch (e) {
+            error = e;
+        }
+        assert(error, `${name}: expected an error`);
+        assert(error.message.startsWith(message), `${name}: message mismatch\nExpected: ${message}\nActual: ${error.message}`);
+    }
+}
+
+function testResample() {
+    console.log(`  Validating same rate...`);
+    const input = Float32Array.from({ length: 100 }, (_, i) => Math.sin(i / 10));
+    const copy = resample(input, 44100, 44100);
+    assert(copy !== input && copy.every((v, i) => v === input[i]), 'Same rate should return a copy');
+
+    // A 1 kHz sine, converted between the simulation rates and back from 48 kHz
+    for (const [fromRate, toRate] of [[48000, SIMULATION_SAMPLE_RATES[0]], [SIMULATION_SAMPLE_RATES[0], 44100], [44100, 48000]]) {
+        console.log(`  Validating ${fromRate} Hz to ${toRate} Hz...`);
+        const seconds = 0.1;
+        const sine = Float32Array.from({ length: Math.round(fromRate * seconds) }, (_, i) => Math.sin(2 * Math.PI * 1000 * i / fromRate));
+        const output = resample(sine, fromRate, toRate);
+        assertEqual(output.length, Math.floor(sine.length * toRate / fromRate), 'Output length mismatch');
+
+        // Away from the edges, the output follows the sine at the new rate
+        let worst = 0;
+        for (let n = 64; n < output.length - 64; n++) {
+            worst = Math.max(worst, Math.abs(output[n] - Math.sin(2 * Math.PI * 1000 * n / toRate)));
+        }
+        assert(worst < 1e-3, `Resampled sine error too large: ${worst}`);
+    }
+
+    console.log(`  Validating anti-aliasing...`);
+    // 20 kHz is above the Nyquist frequency of 32768 Hz and must be filtered out
+    const high = Float32Array.from({ length: 4800 }, (_, i) => Math.sin(2 * Math.PI * 20000 * i / 48000));
+    const filtered = resample(high, 48000, 32768);
+    let peak = 0;
+    for (let n = 64; n < filtered.length - 64; n++) peak = Math.max(peak, Math.abs(filtered[n]));
+    assert(peak < 0.01, `Tone above the new Nyquist frequency should be removed, peak ${peak}`);
+}
+
+/**
+ * Main test runner
+ */
+function main() {
+    console.log(`\n=== WAV File Tests ===`);
+
+    const formats = [[8, false], [16, false], [24, false], [32, false], [32, true], [64, true]];
+    const tests = [
+        ...formats.map(([bits, float]) => [`${bits}-bit ${float ? 'float' : 'PCM'}`, () => testFormat(bits, float)]),
+        ['clamping', testClamping],
+        ['chunk order', testChunkOrder],
+        ['invalid files', testErrors],
+        ['resampling', testResample]
+    ];
+
+    let passed = 0;
+    let failed = 0;
+
+    for (const [name, test] of tests) {
+        console.log(`\nTesting ${name}...`);
+        try {
+            test();
+            console.log(`  ✓ ${name} passed`);
+            passed++;
+        } catch (error) {
+            console.error(`  ✗ ${name} FAILED: ${error.message}`);
+            failed++;
+        }
+    }
+
+    console.log(`\n=== Results ===`);
+    console.log(`Passed: ${passed}`);
+    console.log(`Failed: ${failed}`);
+    console.log(`Total:  ${tests.length}\n`);
+
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main();